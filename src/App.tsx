@@ -6,12 +6,16 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import AcceptInvite from "./pages/AcceptInvite";
 import Webhooks from "./pages/Webhooks";
 import NewWebhook from "./pages/NewWebhook";
+import WebhookAssignments from "./pages/WebhookAssignments";
 import ExecuteWebhook from "./pages/ExecuteWebhook";
 import History from "./pages/History";
 import Users from "./pages/Users";
+import Team from "./pages/Team";
 import Settings from "./pages/Settings";
+import AuditLog from "./pages/AuditLog";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,12 +30,16 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
+            <Route path="/accept-invite" element={<AcceptInvite />} />
             <Route path="/webhooks" element={<Webhooks />} />
             <Route path="/webhooks/new" element={<NewWebhook />} />
+            <Route path="/webhooks/:webhookId/assignments" element={<WebhookAssignments />} />
             <Route path="/execute/:webhookId" element={<ExecuteWebhook />} />
             <Route path="/history" element={<History />} />
             <Route path="/users" element={<Users />} />
+            <Route path="/team" element={<Team />} />
             <Route path="/settings" element={<Settings />} />
+            <Route path="/audit-log" element={<AuditLog />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
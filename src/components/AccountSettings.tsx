@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useTheme } from "next-themes";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useUpdateProfile } from "@/hooks/useData";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const LANGUAGE_OPTIONS = [
+  { value: 'de', label: 'Deutsch' },
+  { value: 'en', label: 'English' },
+];
+
+const THEME_OPTIONS = [
+  { value: 'system', label: 'Systemeinstellung' },
+  { value: 'light', label: 'Hell' },
+  { value: 'dark', label: 'Dunkel' },
+];
+
+type Preferences = Pick<TablesUpdate<'profiles'>, 'notify_on_success' | 'notify_on_failure' | 'language'>;
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback;
+
+export const PasswordSettings = () => {
+  const [password, setPassword] = useState("");
+  const [passwordConfirmation, setPasswordConfirmation] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const changePassword = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Passwort zu kurz",
+        description: `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (password !== passwordConfirmation) {
+      toast({
+        title: "Passwörter stimmen nicht überein",
+        description: "Bitte geben Sie zweimal dasselbe Passwort ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      setPassword("");
+      setPasswordConfirmation("");
+      toast({
+        title: "Passwort geändert",
+        description: "Verwenden Sie ab sofort das neue Passwort für die Anmeldung.",
+      });
+    } catch (error) {
+      console.error('Error changing password:', error);
+      toast({
+        title: "Fehler",
+        description: errorMessage(error, "Das Passwort konnte nicht geändert werden."),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={changePassword} className="space-y-4 max-w-md">
+      <div className="space-y-2">
+        <Label htmlFor="new-password">Neues Passwort</Label>
+        <Input
+          id="new-password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-password-confirmation">Neues Passwort wiederholen</Label>
+        <Input
+          id="new-password-confirmation"
+          type="password"
+          autoComplete="new-password"
+          value={passwordConfirmation}
+          onChange={(e) => setPasswordConfirmation(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" disabled={saving}>
+        {saving ? "Speichere..." : "Passwort ändern"}
+      </Button>
+    </form>
+  );
+};
+
+/**
+ * The new address only takes effect once the link in the confirmation email
+ * is opened; the profile follows automatically.
+ */
+export const EmailSettings = () => {
+  const { user } = useAuth();
+  const [email, setEmail] = useState("");
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const awaitingConfirmation = pendingEmail ?? user?.new_email ?? null;
+
+  const changeEmail = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const newEmail = email.trim();
+    if (!newEmail || newEmail.toLowerCase() === user?.email?.toLowerCase()) {
+      toast({
+        title: "Keine Änderung",
+        description: "Bitte geben Sie eine neue E-Mail-Adresse ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email: newEmail },
+        { emailRedirectTo: `${window.location.origin}/settings` },
+      );
+      if (error) throw error;
+
+      setEmail("");
+      setPendingEmail(newEmail);
+      toast({
+        title: "Bestätigung gesendet",
+        description: "Bitte bestätigen Sie die Änderung über den Link in der E-Mail.",
+      });
+    } catch (error) {
+      console.error('Error changing email:', error);
+      toast({
+        title: "Fehler",
+        description: errorMessage(error, "Die E-Mail-Adresse konnte nicht geändert werden."),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={changeEmail} className="space-y-4 max-w-md">
+      <div className="space-y-1">
+        <Label>Aktuelle E-Mail-Adresse</Label>
+        <p className="text-sm">{user?.email}</p>
+        {awaitingConfirmation && (
+          <p className="text-sm text-muted-foreground">
+            Änderung auf {awaitingConfirmation} wartet auf Bestätigung.
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-email">Neue E-Mail-Adresse</Label>
+        <Input
+          id="new-email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" disabled={saving}>
+        {saving ? "Sende..." : "E-Mail-Adresse ändern"}
+      </Button>
+    </form>
+  );
+};
+
+const usePreferences = () => {
+  const { user, profile } = useAuth();
+  const updateProfileMutation = useUpdateProfile();
+
+  const savePreferences = async (changes: Preferences) => {
+    if (!user) return;
+
+    try {
+      await updateProfileMutation.mutateAsync({ userId: user.id, ...changes });
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+      toast({
+        title: "Fehler",
+        description: errorMessage(error, "Die Einstellung konnte nicht gespeichert werden."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return { profile, savePreferences, saving: updateProfileMutation.isPending };
+};
+
+/**
+ * Notifications are only sent for runs in the background; synchronous runs
+ * show their result right away.
+ */
+export const NotificationSettings = () => {
+  const { profile, savePreferences, saving } = usePreferences();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="notify-on-success">Erfolgreiche Ausführungen</Label>
+          <p className="text-sm text-muted-foreground">
+            Benachrichtigen, wenn ein Webhook im Hintergrund erfolgreich ausgeführt wurde
+          </p>
+        </div>
+        <Switch
+          id="notify-on-success"
+          checked={profile?.notify_on_success ?? true}
+          onCheckedChange={(checked) => savePreferences({ notify_on_success: checked })}
+          disabled={!profile || saving}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="notify-on-failure">Fehlgeschlagene Ausführungen</Label>
+          <p className="text-sm text-muted-foreground">
+            Benachrichtigen, wenn eine Ausführung im Hintergrund fehlgeschlagen ist
+          </p>
+        </div>
+        <Switch
+          id="notify-on-failure"
+          checked={profile?.notify_on_failure ?? true}
+          onCheckedChange={(checked) => savePreferences({ notify_on_failure: checked })}
+          disabled={!profile || saving}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const AppearanceSettings = () => {
+  const { profile, savePreferences, saving } = usePreferences();
+  const { theme = 'system', setTheme } = useTheme();
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 max-w-2xl">
+      <div className="space-y-2">
+        <Label htmlFor="language">Sprache</Label>
+        <Select
+          value={profile?.language ?? 'de'}
+          onValueChange={(language) => savePreferences({ language })}
+          disabled={!profile || saving}
+        >
+          <SelectTrigger id="language">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LANGUAGE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          Gilt für Benachrichtigungen. Die Oberfläche ist derzeit nur auf Deutsch verfügbar.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="theme">Farbschema</Label>
+        <Select value={theme} onValueChange={setTheme}>
+          <SelectTrigger id="theme">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {THEME_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          Wird in diesem Browser gespeichert.
+        </p>
+      </div>
+    </div>
+  );
+};
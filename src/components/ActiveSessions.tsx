@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useSessions, useSignOutSessions } from "@/hooks/useData";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { LogOut } from "lucide-react";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Short description like "Firefox unter Windows", the full user agent is in the tooltip
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unbekanntes Gerät';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} unter ${system}`;
+  return browser ?? system ?? userAgent;
+};
+
+export const ActiveSessions = () => {
+  const { data: sessions = [], isPending: loading, error } = useSessions();
+  const signOutSessionsMutation = useSignOutSessions();
+  const [signOutEverywhereOpen, setSignOutEverywhereOpen] = useState(false);
+
+  useEffect(() => {
+    if (!error) return;
+    console.error('Error fetching sessions:', error);
+    toast({
+      title: "Fehler beim Laden der Sitzungen",
+      description: error.message || "Die aktiven Sitzungen konnten nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [error]);
+
+  const otherSessionCount = sessions.filter((session) => !session.is_current).length;
+
+  const signOut = async (scope: 'others' | 'global') => {
+    try {
+      await signOutSessionsMutation.mutateAsync(scope);
+      if (scope === 'others') {
+        toast({
+          title: "Abgemeldet",
+          description: "Alle anderen Geräte wurden abgemeldet.",
+        });
+      }
+    } catch (error) {
+      console.error('Error signing out sessions:', error);
+      toast({
+        title: "Fehler",
+        description: error instanceof Error ? error.message : "Die Sitzungen konnten nicht beendet werden.",
+        variant: "destructive",
+      });
+    } finally {
+      setSignOutEverywhereOpen(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Lade Sitzungen...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Gerät</TableHead>
+            <TableHead>IP-Adresse</TableHead>
+            <TableHead>Angemeldet am</TableHead>
+            <TableHead>Zuletzt aktiv</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sessions.map((session) => (
+            <TableRow key={session.id}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span title={session.user_agent ?? undefined}>{describeDevice(session.user_agent)}</span>
+                  {session.is_current && <Badge>Dieses Gerät</Badge>}
+                  {session.aal === 'aal2' && <Badge variant="outline">2FA</Badge>}
+                </div>
+              </TableCell>
+              <TableCell className="text-sm">{session.ip ?? '–'}</TableCell>
+              <TableCell className="text-sm">{new Date(session.created_at).toLocaleString('de-DE')}</TableCell>
+              <TableCell className="text-sm">{new Date(session.last_active_at).toLocaleString('de-DE')}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={() => signOut('others')}
+          disabled={otherSessionCount === 0 || signOutSessionsMutation.isPending}
+        >
+          Andere Geräte abmelden
+        </Button>
+        <Button
+          variant="destructive"
+          onClick={() => setSignOutEverywhereOpen(true)}
+          disabled={signOutSessionsMutation.isPending}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Überall abmelden
+        </Button>
+      </div>
+
+      <AlertDialog open={signOutEverywhereOpen} onOpenChange={setSignOutEverywhereOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Überall abmelden?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Alle Sitzungen werden beendet, auch die auf diesem Gerät. Sie müssen sich danach
+              neu anmelden. API-Tokens bleiben gültig.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={() => signOut('global')}>Überall abmelden</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,345 @@
+import { useEffect, useState } from "react";
+import { useApiTokens, useCreateApiToken, useRevokeApiToken, useWebhooks, type ApiToken } from "@/hooks/useData";
+import { toast } from "@/hooks/use-toast";
+import { functionUrl } from "@/lib/edge-functions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Copy, KeyRound, Plus } from "lucide-react";
+
+// Days until expiry, 'never' for tokens without expiry
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 Tage' },
+  { value: '90', label: '90 Tage' },
+  { value: '365', label: '1 Jahr' },
+  { value: 'never', label: 'Kein Ablaufdatum' },
+];
+
+const getTokenState = (token: ApiToken) => {
+  if (token.revoked_at) return { label: 'Widerrufen', variant: 'secondary' as const };
+  if (token.expires_at && new Date(token.expires_at) <= new Date()) {
+    return { label: 'Abgelaufen', variant: 'secondary' as const };
+  }
+  return { label: 'Aktiv', variant: 'default' as const };
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString('de-DE') : '–';
+
+export const ApiTokens = () => {
+  const { data: tokens = [], isPending: loading, error } = useApiTokens();
+  const { data: webhooks = [] } = useWebhooks();
+  const createTokenMutation = useCreateApiToken();
+  const revokeTokenMutation = useRevokeApiToken();
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [expiry, setExpiry] = useState('90');
+  const [allWebhooks, setAllWebhooks] = useState(true);
+  const [selectedWebhookIds, setSelectedWebhookIds] = useState<string[]>([]);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [tokenToRevoke, setTokenToRevoke] = useState<ApiToken | null>(null);
+
+  useEffect(() => {
+    if (!error) return;
+    console.error('Error fetching API tokens:', error);
+    toast({
+      title: "Fehler beim Laden der API-Tokens",
+      description: error.message || "Die API-Tokens konnten nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [error]);
+
+  const webhookNames = new Map(webhooks.map((webhook) => [webhook.id, webhook.name]));
+
+  const openCreateDialog = () => {
+    setName('');
+    setExpiry('90');
+    setAllWebhooks(true);
+    setSelectedWebhookIds([]);
+    setCreateDialogOpen(true);
+  };
+
+  const toggleWebhook = (webhookId: string, checked: boolean) => {
+    setSelectedWebhookIds((ids) => checked ? [...ids, webhookId] : ids.filter((id) => id !== webhookId));
+  };
+
+  const createToken = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Name erforderlich",
+        description: "Bitte geben Sie einen Namen für das Token ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!allWebhooks && selectedWebhookIds.length === 0) {
+      toast({
+        title: "Keine Webhooks ausgewählt",
+        description: "Bitte wählen Sie mindestens einen Webhook aus.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const expiresAt = expiry === 'never'
+      ? null
+      : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString();
+
+    try {
+      const token = await createTokenMutation.mutateAsync({
+        name: name.trim(),
+        webhookIds: allWebhooks ? null : selectedWebhookIds,
+        expiresAt,
+      });
+      setCreateDialogOpen(false);
+      setCreatedToken(token);
+    } catch (error) {
+      console.error('Error creating API token:', error);
+      toast({
+        title: "Fehler beim Erstellen des Tokens",
+        description: error instanceof Error ? error.message : "Das API-Token konnte nicht erstellt werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeToken = async () => {
+    if (!tokenToRevoke) return;
+
+    try {
+      await revokeTokenMutation.mutateAsync(tokenToRevoke.id);
+      toast({
+        title: "Token widerrufen",
+        description: `Das Token "${tokenToRevoke.name}" kann nicht mehr verwendet werden.`,
+      });
+    } catch (error) {
+      console.error('Error revoking API token:', error);
+      toast({
+        title: "Fehler beim Widerrufen des Tokens",
+        description: error instanceof Error ? error.message : "Das API-Token konnte nicht widerrufen werden.",
+        variant: "destructive",
+      });
+    } finally {
+      setTokenToRevoke(null);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast({ title: "Kopiert", description: "Das Token wurde in die Zwischenablage kopiert." });
+    } catch {
+      toast({
+        title: "Kopieren fehlgeschlagen",
+        description: "Bitte markieren und kopieren Sie das Token manuell.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Mit einem API-Token können Sie Ihre Webhooks aus eigenen Programmen ausführen.
+          Ausführungen über die API werden wie in der Anwendung abgerechnet und in der Historie erfasst.
+        </p>
+        <Button onClick={openCreateDialog} className="shrink-0">
+          <Plus className="mr-2 h-4 w-4" />
+          Neues Token
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-muted-foreground text-center py-4">
+          Noch keine API-Tokens vorhanden
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Token</TableHead>
+              <TableHead>Webhooks</TableHead>
+              <TableHead>Läuft ab</TableHead>
+              <TableHead>Zuletzt verwendet</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tokens.map((token) => {
+              const state = getTokenState(token);
+              return (
+                <TableRow key={token.id}>
+                  <TableCell className="font-medium">{token.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{token.token_prefix}…</TableCell>
+                  <TableCell className="text-sm">
+                    {token.webhook_ids
+                      ? token.webhook_ids.map((id) => webhookNames.get(id) ?? 'Gelöschter Webhook').join(', ')
+                      : 'Alle Webhooks'}
+                  </TableCell>
+                  <TableCell className="text-sm">{token.expires_at ? formatDate(token.expires_at) : 'Nie'}</TableCell>
+                  <TableCell className="text-sm">{formatDate(token.last_used_at)}</TableCell>
+                  <TableCell>
+                    <Badge variant={state.variant}>{state.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!token.revoked_at && (
+                      <Button variant="outline" size="sm" onClick={() => setTokenToRevoke(token)}>
+                        Widerrufen
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="rounded-lg border bg-muted/50 p-4 space-y-2">
+        <p className="text-sm font-medium">Beispiel</p>
+        <pre className="text-xs overflow-x-auto whitespace-pre">{`curl -X POST ${functionUrl('api-execute')} \\
+  -H "Authorization: Bearer <Ihr Token>" \\
+  -H "Content-Type: application/json" \\
+  -d '{"webhook_id": "<Webhook-ID>", "text": "Hallo"}'`}</pre>
+        <p className="text-xs text-muted-foreground">
+          Dateien senden Sie als multipart/form-data mit den Feldern webhook_id und file. Hat ein Webhook
+          Eingabefelder, senden Sie deren Werte als Objekt unter fields bzw. als einzelne Formularfelder. Läuft ein Webhook
+          im Hintergrund, erhalten Sie eine execution_id, deren Status Sie per GET mit ?execution_id=… abfragen.
+        </p>
+      </div>
+
+      {/* Create Token Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Neues API-Token</DialogTitle>
+            <DialogDescription>
+              Das Token wird nur einmal angezeigt. Bewahren Sie es sicher auf.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="z.B. Buchhaltungssystem"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Gültigkeit</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="api-token-all-webhooks"
+                  checked={allWebhooks}
+                  onCheckedChange={(checked) => setAllWebhooks(checked as boolean)}
+                />
+                <Label htmlFor="api-token-all-webhooks" className="text-sm">
+                  Alle Webhooks, auch künftige
+                </Label>
+              </div>
+              {!allWebhooks && (
+                <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+                  {webhooks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Keine Webhooks vorhanden</p>
+                  ) : webhooks.map((webhook) => (
+                    <div key={webhook.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`api-token-webhook-${webhook.id}`}
+                        checked={selectedWebhookIds.includes(webhook.id)}
+                        onCheckedChange={(checked) => toggleWebhook(webhook.id, checked as boolean)}
+                      />
+                      <Label htmlFor={`api-token-webhook-${webhook.id}`} className="text-sm">
+                        {webhook.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Abbrechen
+            </Button>
+            <Button onClick={createToken} disabled={createTokenMutation.isPending}>
+              {createTokenMutation.isPending ? "Erstelle..." : "Erstellen"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Created Token Dialog */}
+      <Dialog open={!!createdToken} onOpenChange={(open) => !open && setCreatedToken(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Token erstellt
+            </DialogTitle>
+            <DialogDescription>
+              Kopieren Sie das Token jetzt. Es wird nicht gespeichert und kann später nicht mehr angezeigt werden.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={createdToken ?? ''} className="font-mono text-xs" onFocus={(event) => event.target.select()} />
+            <Button variant="outline" onClick={copyToken}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedToken(null)}>Fertig</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Token Dialog */}
+      <AlertDialog open={!!tokenToRevoke} onOpenChange={(open) => !open && setTokenToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Token widerrufen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Programme, die das Token "{tokenToRevoke?.name}" verwenden, können danach keine Webhooks mehr ausführen.
+              Dies kann nicht rückgängig gemacht werden.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={revokeToken}>Widerrufen</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
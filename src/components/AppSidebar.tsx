@@ -1,5 +1,6 @@
 import { NavLink, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useCurrentClient } from "@/hooks/useData";
 import {
   Sidebar,
   SidebarContent,
@@ -11,19 +12,22 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from "@/components/ui/sidebar";
-import { Home, Globe, History, Settings, Users } from "lucide-react";
+import { Home, Globe, History, Settings, Users, ScrollText, Building2 } from "lucide-react";
 
 
 export function AppSidebar() {
-  const { isAdmin } = useAuth();
+  const { isAdmin, can } = useAuth();
+  const { data: client } = useCurrentClient();
   const location = useLocation();
   const currentPath = location.pathname;
 
   const items = [
     { title: "Dashboard", url: "/", icon: Home },
     { title: "Webhooks", url: "/webhooks", icon: Globe },
-    ...(isAdmin ? [{ title: "Benutzer", url: "/users", icon: Users }] : []),
+    ...(can('users.view') || can('tokens.manage') ? [{ title: "Benutzer", url: "/users", icon: Users }] : []),
+    ...(client?.member_role === 'owner' ? [{ title: "Team", url: "/team", icon: Building2 }] : []),
     { title: "Historie", url: "/history", icon: History },
+    ...(isAdmin ? [{ title: "Audit-Log", url: "/audit-log", icon: ScrollText }] : []),
     { title: "Einstellungen", url: "/settings", icon: Settings },
   ];
 
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { useClientMembers, useClients, useWebhooks, type ExecutionFilters } from "@/hooks/useData";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+
+// Select items cannot have an empty value
+const ALL = 'all';
+
+interface ExecutionFilterBarProps {
+  filters: ExecutionFilters;
+  onChange: (filters: ExecutionFilters) => void;
+  seesAllClients: boolean;
+}
+
+export const ExecutionFilterBar = ({ filters, onChange, seesAllClients }: ExecutionFilterBarProps) => {
+  const { data: webhooks = [] } = useWebhooks();
+  const { data: clients = [] } = useClients();
+  const { data: members = [] } = useClientMembers();
+  const [search, setSearch] = useState(filters.search ?? '');
+
+  // Follow the URL, e.g. when navigating back
+  useEffect(() => {
+    setSearch(filters.search ?? '');
+  }, [filters.search]);
+
+  const update = (changes: Partial<ExecutionFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <form
+          className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            update({ search: search.trim() || undefined });
+          }}
+        >
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="history-search">Suche in Eingabe und Fehler</Label>
+            <div className="flex gap-2">
+              <Input
+                id="history-search"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Suchbegriff"
+              />
+              <Button type="submit" variant="secondary">
+                <Search className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Webhook</Label>
+            <Select
+              value={filters.webhookId ?? ALL}
+              onValueChange={(value) => update({ webhookId: value === ALL ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Alle Webhooks</SelectItem>
+                {webhooks.map((webhook) => (
+                  <SelectItem key={webhook.id} value={webhook.id}>
+                    {webhook.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select
+              value={filters.status ?? ALL}
+              onValueChange={(value) => update({ status: value === ALL ? undefined : value as ExecutionFilters['status'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Alle Status</SelectItem>
+                <SelectItem value="SUCCESS">Erfolgreich</SelectItem>
+                <SelectItem value="ERROR">Fehler</SelectItem>
+                <SelectItem value="TIMEOUT">Timeout</SelectItem>
+                <SelectItem value="PENDING">In Warteschlange</SelectItem>
+                <SelectItem value="RUNNING">Läuft</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Eingabetyp</Label>
+            <Select
+              value={filters.requestType ?? ALL}
+              onValueChange={(value) => update({ requestType: value === ALL ? undefined : value as ExecutionFilters['requestType'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Alle Typen</SelectItem>
+                <SelectItem value="TEXT">Text</SelectItem>
+                <SelectItem value="FILE">Datei</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {seesAllClients && (
+            <div className="space-y-1">
+              <Label>Client</Label>
+              <Select
+                value={filters.clientId ?? ALL}
+                onValueChange={(value) => update({ clientId: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Alle Clients</SelectItem>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name} ({client.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {members.length > 1 && (
+            <div className="space-y-1">
+              <Label>Gestartet von</Label>
+              <Select
+                value={filters.startedBy ?? ALL}
+                onValueChange={(value) => update({ startedBy: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Alle Mitglieder</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {member.email ?? member.user_id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="history-from">Von</Label>
+            <Input
+              id="history-from"
+              type="date"
+              value={filters.from ?? ''}
+              max={filters.to}
+              onChange={(event) => update({ from: event.target.value || undefined })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="history-to">Bis</Label>
+            <Input
+              id="history-to"
+              type="date"
+              value={filters.to ?? ''}
+              min={filters.from}
+              onChange={(event) => update({ to: event.target.value || undefined })}
+            />
+          </div>
+
+          {hasFilters && (
+            <div className="flex items-end">
+              <Button type="button" variant="ghost" onClick={() => onChange({})}>
+                <X className="h-4 w-4 mr-2" />
+                Filter zurücksetzen
+              </Button>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
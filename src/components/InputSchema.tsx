@@ -0,0 +1,238 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import {
+  INPUT_FIELD_TYPE_LABELS,
+  INPUT_FIELD_TYPES,
+  type InputField,
+  type InputFieldType,
+  type InputValue,
+  type InputValues,
+} from "@/lib/input-schema";
+
+const parseBound = (value: string) => value === '' ? undefined : Number(value);
+
+interface InputSchemaEditorProps {
+  fields: InputField[];
+  onChange: (fields: InputField[]) => void;
+  idPrefix: string;
+}
+
+/**
+ * Edits the input fields of a webhook. Options are kept as typed and only
+ * tidied by cleanInputSchema when saving.
+ */
+export const InputSchemaEditor = ({ fields, onChange, idPrefix }: InputSchemaEditorProps) => {
+  const update = (index: number, changes: Partial<InputField>) =>
+    onChange(fields.map((field, i) => i === index ? { ...field, ...changes } : field));
+
+  const move = (index: number, offset: number) => {
+    const next = [...fields];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const add = () => onChange([...fields, { name: `feld_${fields.length + 1}`, label: '', type: 'text' }]);
+
+  return (
+    <div className="space-y-3">
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Keine Eingabefelder. Der Webhook erhält einen einzelnen Text oder eine Datei, je nach Input-Typ.
+        </p>
+      )}
+
+      {fields.map((field, index) => {
+        const id = `${idPrefix}-field-${index}`;
+        return (
+          <div key={index} className="rounded-lg border p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor={`${id}-name`} className="text-xs text-muted-foreground">Name</Label>
+                <Input
+                  id={`${id}-name`}
+                  value={field.name}
+                  onChange={(e) => update(index, { name: e.target.value })}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${id}-label`} className="text-xs text-muted-foreground">Bezeichnung</Label>
+                <Input
+                  id={`${id}-label`}
+                  value={field.label}
+                  onChange={(e) => update(index, { label: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-muted-foreground">Typ</Label>
+                <Select value={field.type} onValueChange={(value: InputFieldType) => update(index, { type: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INPUT_FIELD_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{INPUT_FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor={`${id}-description`} className="text-xs text-muted-foreground">Hilfetext</Label>
+              <Input
+                id={`${id}-description`}
+                value={field.description ?? ''}
+                onChange={(e) => update(index, { description: e.target.value })}
+              />
+            </div>
+
+            {field.type === 'select' && (
+              <div>
+                <Label htmlFor={`${id}-options`} className="text-xs text-muted-foreground">Optionen (eine pro Zeile)</Label>
+                <Textarea
+                  id={`${id}-options`}
+                  value={(field.options ?? []).join('\n')}
+                  onChange={(e) => update(index, { options: e.target.value.split('\n') })}
+                  rows={3}
+                />
+              </div>
+            )}
+
+            {field.type === 'number' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor={`${id}-min`} className="text-xs text-muted-foreground">Minimum</Label>
+                  <Input
+                    id={`${id}-min`}
+                    type="number"
+                    value={field.min ?? ''}
+                    onChange={(e) => update(index, { min: parseBound(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`${id}-max`} className="text-xs text-muted-foreground">Maximum</Label>
+                  <Input
+                    id={`${id}-max`}
+                    type="number"
+                    value={field.max ?? ''}
+                    onChange={(e) => update(index, { max: parseBound(e.target.value) })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id={`${id}-required`}
+                  checked={!!field.required}
+                  onCheckedChange={(checked) => update(index, { required: checked })}
+                />
+                <Label htmlFor={`${id}-required`} className="text-sm">Pflichtfeld</Label>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0} title="Nach oben">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => move(index, 1)} disabled={index === fields.length - 1} title="Nach unten">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(fields.filter((_, i) => i !== index))}
+                  title="Feld entfernen"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button variant="outline" size="sm" onClick={add}>
+        <Plus className="h-4 w-4 mr-2" />
+        Feld hinzufügen
+      </Button>
+    </div>
+  );
+};
+
+interface InputSchemaFormProps {
+  fields: InputField[];
+  values: InputValues;
+  errors: Record<string, string>;
+  onChange: (name: string, value: InputValue | undefined) => void;
+}
+
+// Execution form of a webhook with input fields, see validateInputValues
+export const InputSchemaForm = ({ fields, values, errors, onChange }: InputSchemaFormProps) => (
+  <div className="space-y-4">
+    {fields.map((field) => {
+      const id = `input-${field.name}`;
+      const value = values[field.name];
+      const text = typeof value === 'string' ? value : '';
+      const label = `${field.label}${field.required ? ' *' : ''}`;
+
+      return (
+        <div key={field.name}>
+          {field.type === 'checkbox' ? (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={id}
+                checked={value === true}
+                onCheckedChange={(checked) => onChange(field.name, checked === true)}
+              />
+              <Label htmlFor={id}>{label}</Label>
+            </div>
+          ) : (
+            <>
+              <Label htmlFor={id}>{label}</Label>
+              <div className="mt-2">
+                {field.type === 'multiline' ? (
+                  <Textarea id={id} value={text} onChange={(e) => onChange(field.name, e.target.value)} rows={4} />
+                ) : field.type === 'select' ? (
+                  <Select value={text} onValueChange={(option) => onChange(field.name, option)}>
+                    <SelectTrigger id={id}>
+                      <SelectValue placeholder="Bitte wählen" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(field.options ?? []).map((option) => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : field.type === 'file' ? (
+                  <Input id={id} type="file" onChange={(e) => onChange(field.name, e.target.files?.[0])} />
+                ) : (
+                  <Input
+                    id={id}
+                    type={field.type}
+                    min={field.min}
+                    max={field.max}
+                    value={text}
+                    onChange={(e) => onChange(field.name, e.target.value)}
+                  />
+                )}
+              </div>
+            </>
+          )}
+          {field.description && (
+            <p className="text-xs text-muted-foreground mt-1">{field.description}</p>
+          )}
+          {errors[field.name] && (
+            <p className="text-xs text-destructive mt-1">{errors[field.name]}</p>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
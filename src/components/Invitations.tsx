@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useInvitations, useInviteUser, useRevokeInvitation, useWebhookOptions } from "@/hooks/useData";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { MailPlus } from "lucide-react";
+
+type Invitation = Tables<'invitations'>;
+
+// Hours until the invitation link can no longer be accepted
+const VALIDITY_OPTIONS = [
+  { value: '1', label: '1 Stunde' },
+  { value: '6', label: '6 Stunden' },
+  { value: '12', label: '12 Stunden' },
+  { value: '24', label: '24 Stunden' },
+];
+
+const DEFAULT_STARTING_TOKENS = '100';
+
+const isExpired = (invitation: Invitation) => new Date(invitation.expires_at) <= new Date();
+
+/**
+ * Button and dialog to invite a new client user by email.
+ */
+export const InviteUserDialog = () => {
+  const { data: webhooks = [] } = useWebhookOptions();
+  const inviteUserMutation = useInviteUser();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [startingTokens, setStartingTokens] = useState(DEFAULT_STARTING_TOKENS);
+  const [validHours, setValidHours] = useState('24');
+  const [selectedWebhookIds, setSelectedWebhookIds] = useState<string[]>([]);
+
+  const reset = () => {
+    setEmail('');
+    setStartingTokens(DEFAULT_STARTING_TOKENS);
+    setValidHours('24');
+    setSelectedWebhookIds([]);
+  };
+
+  const toggleWebhook = (webhookId: string, checked: boolean) => {
+    setSelectedWebhookIds((ids) => checked ? [...ids, webhookId] : ids.filter((id) => id !== webhookId));
+  };
+
+  const invite = async () => {
+    if (!email.trim()) {
+      toast({
+        title: "E-Mail erforderlich",
+        description: "Bitte geben Sie die E-Mail-Adresse des neuen Benutzers ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const tokens = Number(startingTokens);
+    if (!Number.isInteger(tokens) || tokens < 0) {
+      toast({
+        title: "Ungültiges Startguthaben",
+        description: "Bitte geben Sie eine ganze Zahl ab 0 ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await inviteUserMutation.mutateAsync({
+        email: email.trim(),
+        startingTokens: tokens,
+        webhookIds: selectedWebhookIds,
+        validHours: Number(validHours),
+      });
+      toast({
+        title: "Einladung gesendet",
+        description: `${email.trim()} hat eine Einladung per E-Mail erhalten.`,
+      });
+      setOpen(false);
+      reset();
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      toast({
+        title: "Fehler beim Einladen",
+        description: error instanceof Error ? error.message : "Die Einladung konnte nicht gesendet werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <MailPlus className="mr-2 h-4 w-4" />
+          Benutzer einladen
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Benutzer einladen</DialogTitle>
+          <DialogDescription>
+            Der Benutzer erhält einen Link, mit dem er sein Passwort festlegt. Profil und Client
+            werden beim Annehmen der Einladung angelegt.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="invite-email">E-Mail-Adresse</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="benutzer@beispiel.de"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="invite-tokens">Startguthaben</Label>
+              <Input
+                id="invite-tokens"
+                type="number"
+                min={0}
+                value={startingTokens}
+                onChange={(event) => setStartingTokens(event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Gültigkeit</Label>
+              <Select value={validHours} onValueChange={setValidHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VALIDITY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Zugewiesene Webhooks</Label>
+            <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+              {webhooks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Keine Webhooks vorhanden</p>
+              ) : webhooks.map((webhook) => (
+                <div key={webhook.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`invite-webhook-${webhook.id}`}
+                    checked={selectedWebhookIds.includes(webhook.id)}
+                    onCheckedChange={(checked) => toggleWebhook(webhook.id, checked as boolean)}
+                  />
+                  <Label htmlFor={`invite-webhook-${webhook.id}`} className="text-sm">
+                    {webhook.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Abbrechen
+          </Button>
+          <Button onClick={invite} disabled={inviteUserMutation.isPending}>
+            {inviteUserMutation.isPending ? "Sende..." : "Einladung senden"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Open and expired invitations with the option to revoke them. Renders
+ * nothing while there are none.
+ */
+export const PendingInvitations = () => {
+  const { data: invitations = [], error } = useInvitations();
+  const { data: webhooks = [] } = useWebhookOptions();
+  const revokeInvitationMutation = useRevokeInvitation();
+  const [invitationToRevoke, setInvitationToRevoke] = useState<Invitation | null>(null);
+
+  useEffect(() => {
+    if (!error) return;
+    console.error('Error fetching invitations:', error);
+    toast({
+      title: "Fehler beim Laden der Einladungen",
+      description: error.message || "Die Einladungen konnten nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [error]);
+
+  const webhookNames = new Map(webhooks.map((webhook) => [webhook.id, webhook.name]));
+
+  const revokeInvitation = async () => {
+    if (!invitationToRevoke) return;
+
+    try {
+      await revokeInvitationMutation.mutateAsync(invitationToRevoke.id);
+      toast({
+        title: "Einladung widerrufen",
+        description: `Die Einladung an ${invitationToRevoke.email} kann nicht mehr angenommen werden.`,
+      });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Fehler beim Widerrufen",
+        description: error instanceof Error ? error.message : "Die Einladung konnte nicht widerrufen werden.",
+        variant: "destructive",
+      });
+    } finally {
+      setInvitationToRevoke(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Offene Einladungen</CardTitle>
+        <CardDescription>
+          Eingeladene Benutzer, die ihr Konto noch nicht eingerichtet haben
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>E-Mail</TableHead>
+              <TableHead>Startguthaben</TableHead>
+              <TableHead>Webhooks</TableHead>
+              <TableHead>Gültig bis</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.map((invitation) => (
+              <TableRow key={invitation.id}>
+                <TableCell className="font-medium">{invitation.email}</TableCell>
+                <TableCell>
+                  {invitation.client_id ? <Badge variant="secondary">Team-Einladung</Badge> : invitation.starting_tokens}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {invitation.webhook_ids.length > 0
+                    ? invitation.webhook_ids.map((id) => webhookNames.get(id) ?? 'Gelöschter Webhook').join(', ')
+                    : '–'}
+                </TableCell>
+                <TableCell className="text-sm">{new Date(invitation.expires_at).toLocaleString('de-DE')}</TableCell>
+                <TableCell>
+                  {isExpired(invitation)
+                    ? <Badge variant="secondary">Abgelaufen</Badge>
+                    : <Badge variant="outline">Offen</Badge>}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="outline" size="sm" onClick={() => setInvitationToRevoke(invitation)}>
+                    Widerrufen
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <AlertDialog open={!!invitationToRevoke} onOpenChange={(open) => !open && setInvitationToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Einladung widerrufen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Der Link in der Einladung an {invitationToRevoke?.email} wird ungültig. Sie können die
+              Adresse später erneut einladen.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={revokeInvitation} disabled={revokeInvitationMutation.isPending}>
+              Widerrufen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -1,9 +1,11 @@
 import { useAuth } from "@/hooks/useAuth";
-import { useNavigate } from "react-router-dom";
+import { useSecuritySettings } from "@/hooks/useData";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
+import { NotificationBell } from "@/components/NotificationBell";
 import { LogOut, Coins } from "lucide-react";
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
@@ -13,15 +15,25 @@ interface LayoutProps {
 }
 
 export const Layout = ({ children }: LayoutProps) => {
-  const { user, loading, signOut } = useAuth();
+  const { user, loading, signOut, isStaff, mfaEnrolled, mfaVerificationRequired } = useAuth();
+  const { data: securitySettings } = useSecuritySettings();
   const navigate = useNavigate();
+  const location = useLocation();
   const [tokensBalance, setTokensBalance] = useState<number>(0);
 
+  // The sign-in page asks for the authenticator code
   useEffect(() => {
-    if (!loading && !user) {
+    if (!loading && (!user || mfaVerificationRequired)) {
       navigate('/auth');
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, mfaVerificationRequired, navigate]);
+
+  // Staff without an authenticator can only set one up while it is required
+  useEffect(() => {
+    if (isStaff && securitySettings?.require_admin_mfa && !mfaEnrolled && location.pathname !== '/settings') {
+      navigate('/settings');
+    }
+  }, [isStaff, securitySettings, mfaEnrolled, location.pathname, navigate]);
 
   useEffect(() => {
     if (user) {
@@ -46,7 +58,7 @@ export const Layout = ({ children }: LayoutProps) => {
     );
   }
 
-  if (!user) {
+  if (!user || mfaVerificationRequired) {
     return null; // Will redirect to auth
   }
 
@@ -65,6 +77,8 @@ export const Layout = ({ children }: LayoutProps) => {
             <div className="flex items-center gap-4">
               {/* Token balance removed for now */}
               
+              <NotificationBell userId={user.id} />
+
               <Button variant="outline" size="sm" onClick={handleSignOut}>
                 <LogOut className="h-4 w-4 mr-2" />
                 Abmelden
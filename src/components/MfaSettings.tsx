@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useGenerateRecoveryCodes, useMfaFactors, useRecoveryCodeCount, useSecuritySettings } from "@/hooks/useData";
+import { queryKeys } from "@/lib/query-keys";
+import { toast } from "@/hooks/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Copy, Download, ShieldAlert, ShieldCheck } from "lucide-react";
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+// Older auth versions return the bare SVG instead of a data URL
+const toImageSource = (qrCode: string) =>
+  qrCode.startsWith('data:') ? qrCode : `data:image/svg+xml;utf-8,${encodeURIComponent(qrCode)}`;
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback;
+
+/**
+ * Enrolment and management of the authenticator app (TOTP) of the signed-in
+ * user, including the recovery codes.
+ */
+export const MfaSettings = () => {
+  const { user, isStaff } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: factors = [], isPending: loading } = useMfaFactors();
+  const { data: recoveryCodeCount = 0 } = useRecoveryCodeCount();
+  const { data: securitySettings } = useSecuritySettings();
+  const generateRecoveryCodesMutation = useGenerateRecoveryCodes();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disableDialogOpen, setDisableDialogOpen] = useState(false);
+
+  const factor = factors[0];
+  const requiredForUser = isStaff && !!securitySettings?.require_admin_mfa;
+
+  const refreshFactors = () => queryClient.invalidateQueries({ queryKey: queryKeys.mfaFactors(user?.id) });
+
+  const startEnrollment = async () => {
+    setBusy(true);
+    try {
+      // Leftovers of an enrolment that was never finished block a new one
+      const { data: existing, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+      for (const unverified of existing.all.filter((item) => item.status === 'unverified')) {
+        await supabase.auth.mfa.unenroll({ factorId: unverified.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: 'Authenticator' });
+      if (error) throw error;
+
+      setCode("");
+      setEnrollment({ factorId: data.id, qrCode: toImageSource(data.totp.qr_code), secret: data.totp.secret });
+    } catch (error) {
+      console.error('Error enrolling authenticator:', error);
+      toast({
+        title: "Fehler bei der Einrichtung",
+        description: errorMessage(error, "Die Zwei-Faktor-Authentifizierung konnte nicht eingerichtet werden."),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancelEnrollment = async () => {
+    if (!enrollment) return;
+    setEnrollment(null);
+    await supabase.auth.mfa.unenroll({ factorId: enrollment.factorId });
+  };
+
+  const verifyEnrollment = async () => {
+    if (!enrollment || code.length !== 6) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: enrollment.factorId, code });
+      if (error) throw error;
+
+      // The session is aal2 now, which recovery codes require
+      const codes = await generateRecoveryCodesMutation.mutateAsync();
+      setEnrollment(null);
+      setRecoveryCodes(codes);
+      refreshFactors();
+    } catch (error) {
+      console.error('Error verifying authenticator:', error);
+      toast({
+        title: "Code ungültig",
+        description: errorMessage(error, "Bitte geben Sie den aktuellen Code aus Ihrer App ein."),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const regenerateRecoveryCodes = async () => {
+    try {
+      setRecoveryCodes(await generateRecoveryCodesMutation.mutateAsync());
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+      toast({
+        title: "Fehler",
+        description: errorMessage(error, "Die Wiederherstellungscodes konnten nicht erzeugt werden."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const disableMfa = async () => {
+    if (!factor) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+
+      // The session still carries the removed factor until it is refreshed
+      await supabase.auth.refreshSession();
+      refreshFactors();
+      toast({
+        title: "Zwei-Faktor-Authentifizierung deaktiviert",
+        description: "Sie melden sich künftig nur mit Ihrem Passwort an.",
+      });
+    } catch (error) {
+      console.error('Error removing authenticator:', error);
+      toast({
+        title: "Fehler beim Deaktivieren",
+        description: errorMessage(error, "Die Zwei-Faktor-Authentifizierung konnte nicht deaktiviert werden."),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+      setDisableDialogOpen(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: "Kopiert", description: "Die Wiederherstellungscodes wurden in die Zwischenablage kopiert." });
+    } catch {
+      toast({
+        title: "Kopieren fehlgeschlagen",
+        description: "Bitte notieren Sie die Codes manuell.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'wiederherstellungscodes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {requiredForUser && !factor && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Zwei-Faktor-Authentifizierung erforderlich</AlertTitle>
+          <AlertDescription>
+            Administratoren und Mitarbeiter müssen eine Authenticator-App einrichten, bevor sie die Anwendung weiter verwenden können.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {factor ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              <div>
+                <p className="font-medium">Authenticator-App</p>
+                <p className="text-sm text-muted-foreground">
+                  Eingerichtet am {new Date(factor.created_at).toLocaleDateString('de-DE')}
+                </p>
+              </div>
+            </div>
+            <Badge>Aktiv</Badge>
+          </div>
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <p className="text-sm text-muted-foreground">
+              {recoveryCodeCount === 1
+                ? 'Noch 1 Wiederherstellungscode verfügbar'
+                : `Noch ${recoveryCodeCount} Wiederherstellungscodes verfügbar`}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={regenerateRecoveryCodes}
+              disabled={generateRecoveryCodesMutation.isPending}
+            >
+              Neue Codes erzeugen
+            </Button>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setDisableDialogOpen(true)}
+            disabled={busy || requiredForUser}
+          >
+            Deaktivieren
+          </Button>
+          {requiredForUser && (
+            <p className="text-xs text-muted-foreground">
+              Für Administratoren und Mitarbeiter ist die Zwei-Faktor-Authentifizierung vorgeschrieben.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Schützen Sie Ihr Konto mit einem Einmalcode aus einer Authenticator-App zusätzlich zum Passwort.
+          </p>
+          <Button onClick={startEnrollment} disabled={busy} className="shrink-0">
+            Einrichten
+          </Button>
+        </div>
+      )}
+
+      {/* Enrolment Dialog */}
+      <Dialog open={!!enrollment} onOpenChange={(open) => !open && cancelEnrollment()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Authenticator-App einrichten</DialogTitle>
+            <DialogDescription>
+              Scannen Sie den QR-Code mit Ihrer App und geben Sie anschließend den angezeigten Code ein.
+            </DialogDescription>
+          </DialogHeader>
+          {enrollment && (
+            <div className="space-y-4">
+              <div className="flex justify-center rounded-lg bg-white p-4">
+                <img src={enrollment.qrCode} alt="QR-Code für die Authenticator-App" className="h-44 w-44" />
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Oder geben Sie den Schlüssel manuell ein:</p>
+                <Input readOnly value={enrollment.secret} className="font-mono text-xs" onFocus={(event) => event.target.select()} />
+              </div>
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={verifyEnrollment}>
+                  <InputOTPGroup>
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={cancelEnrollment}>
+              Abbrechen
+            </Button>
+            <Button onClick={verifyEnrollment} disabled={busy || code.length !== 6}>
+              {busy ? "Prüfe..." : "Bestätigen"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Recovery Codes Dialog */}
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Wiederherstellungscodes</DialogTitle>
+            <DialogDescription>
+              Mit jedem Code können Sie sich einmal ohne Authenticator-App anmelden. Bewahren Sie die Codes sicher auf,
+              sie werden nur jetzt angezeigt.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm">
+            {recoveryCodes?.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyRecoveryCodes}>
+              <Copy className="mr-2 h-4 w-4" />
+              Kopieren
+            </Button>
+            <Button variant="outline" onClick={downloadRecoveryCodes}>
+              <Download className="mr-2 h-4 w-4" />
+              Herunterladen
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>Fertig</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Disable Dialog */}
+      <AlertDialog open={disableDialogOpen} onOpenChange={setDisableDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Zwei-Faktor-Authentifizierung deaktivieren?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Ihr Konto ist danach nur noch durch das Passwort geschützt. Die Wiederherstellungscodes werden ungültig.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={disableMfa} disabled={busy}>
+              Deaktivieren
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/useData";
+import { queryKeys } from "@/lib/query-keys";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell } from "lucide-react";
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+export const NotificationBell = ({ userId }: NotificationBellProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: notifications = [] } = useNotifications(userId);
+  const markAsRead = useMarkNotificationsRead(userId);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = payload.new as Notification;
+          queryClient.setQueryData<Notification[]>(queryKeys.notifications(userId), (current = []) =>
+            [notification, ...current].slice(0, 20)
+          );
+          toast({
+            title: notification.title,
+            description: notification.body ?? undefined,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  const markAllAsRead = () => {
+    const unreadIds = notifications.filter((notification) => !notification.read_at).map((notification) => notification.id);
+    if (unreadIds.length === 0) return;
+
+    markAsRead.mutate(unreadIds, {
+      onError: (error) => console.error('Error marking notifications as read:', error),
+    });
+  };
+
+  const openNotification = (notification: Notification) => {
+    setOpen(false);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) markAllAsRead();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Benachrichtigungen">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-3">
+          <p className="font-medium">Benachrichtigungen</p>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Keine Benachrichtigungen
+          </p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={`w-full border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted ${notification.read_at ? '' : 'bg-muted/50'}`}
+              >
+                <p className="text-sm font-medium">{notification.title}</p>
+                {notification.body && (
+                  <p className="text-sm text-muted-foreground break-words">{notification.body}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {new Date(notification.created_at).toLocaleString('de-DE')}
+                </p>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
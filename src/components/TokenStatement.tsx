@@ -0,0 +1,86 @@
+import { useEffect } from "react";
+import { useTokenTransactions } from "@/hooks/useData";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { TokenTransactionKind } from "@/lib/types";
+
+interface TokenStatementProps {
+  clientId: string;
+  limit?: number;
+}
+
+const getTransactionKindText = (kind: TokenTransactionKind) => {
+  switch (kind) {
+    case 'GRANT':
+      return 'Gutschrift';
+    case 'DEBIT':
+      return 'Ausführung';
+    case 'REFUND':
+      return 'Erstattung';
+    case 'ADJUSTMENT':
+      return 'Korrektur';
+    case 'EXPIRY':
+      return 'Verfall';
+    default:
+      return kind;
+  }
+};
+
+export const TokenStatement = ({ clientId, limit = 50 }: TokenStatementProps) => {
+  const { data: transactions = [], isPending: loading, error } = useTokenTransactions(clientId, limit);
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error fetching token transactions:', error);
+    }
+  }, [error]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (transactions.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-4">
+        Noch keine Buchungen vorhanden
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Datum</TableHead>
+          <TableHead>Art</TableHead>
+          <TableHead>Beschreibung</TableHead>
+          <TableHead className="text-right">Betrag</TableHead>
+          <TableHead className="text-right">Saldo</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.map((transaction) => (
+          <TableRow key={transaction.id}>
+            <TableCell className="whitespace-nowrap">
+              {new Date(transaction.created_at).toLocaleString('de-DE')}
+            </TableCell>
+            <TableCell>
+              <Badge variant={transaction.amount < 0 ? "secondary" : "outline"}>
+                {getTransactionKindText(transaction.kind)}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-muted-foreground">{transaction.reason || '-'}</TableCell>
+            <TableCell className={`text-right font-medium ${transaction.amount < 0 ? 'text-destructive' : 'text-green-600'}`}>
+              {transaction.amount > 0 ? '+' : ''}{transaction.amount}
+            </TableCell>
+            <TableCell className="text-right">{transaction.balance_after}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useClients, useDailyUsage, useWebhookLatency } from "@/hooks/useData";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const RANGES = [7, 30, 90];
+
+// Select items cannot have an empty value
+const ALL = 'all';
+
+const executionsConfig = {
+  successful_executions: { label: "Erfolgreich", color: "hsl(var(--chart-2))" },
+  failed_executions: { label: "Fehlgeschlagen", color: "hsl(var(--destructive))" },
+  open_executions: { label: "Offen", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const tokensConfig = {
+  tokens_spent: { label: "Tokens", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const latencyConfig = {
+  p50_ms: { label: "Median", color: "hsl(var(--chart-2))" },
+  p90_ms: { label: "90. Perzentil", color: "hsl(var(--chart-4))" },
+  p99_ms: { label: "99. Perzentil", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
+
+const formatMs = (ms: number) =>
+  ms < 1000 ? `${ms} ms` : `${(ms / 1000).toLocaleString('de-DE', { maximumFractionDigits: 1 })} s`;
+
+const ChartPlaceholder = ({ text }: { text: string }) => (
+  <p className="text-muted-foreground text-center py-16">{text}</p>
+);
+
+interface UsageChartsProps {
+  seesAllClients: boolean;
+}
+
+/**
+ * Usage trends over the last 7, 30 or 90 days. Admins and support see all
+ * clients and can narrow the charts to a single client.
+ */
+export const UsageCharts = ({ seesAllClients }: UsageChartsProps) => {
+  const [days, setDays] = useState(30);
+  const [clientId, setClientId] = useState<string>();
+  const { data: clients = [] } = useClients();
+  const { data: usage = [], isPending: usageLoading } = useDailyUsage(days, clientId);
+  const { data: latency = [], isPending: latencyLoading } = useWebhookLatency(days, clientId);
+
+  const hasExecutions = usage.some((row) =>
+    row.successful_executions + row.failed_executions + row.open_executions > 0
+  );
+  const hasTokens = usage.some((row) => row.tokens_spent !== 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold tracking-tight">Verlauf</h2>
+          <p className="text-sm text-muted-foreground">Nutzung in den letzten {days} Tagen</p>
+        </div>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          {seesAllClients && (
+            <Select
+              value={clientId ?? ALL}
+              onValueChange={(value) => setClientId(value === ALL ? undefined : value)}
+            >
+              <SelectTrigger className="sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Alle Clients</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((range) => (
+                <SelectItem key={range} value={String(range)}>
+                  Letzte {range} Tage
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Ausführungen pro Tag</CardTitle>
+            <CardDescription>Nach Ergebnis</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {usageLoading ? (
+              <ChartPlaceholder text="Wird geladen..." />
+            ) : !hasExecutions ? (
+              <ChartPlaceholder text="Keine Ausführungen im Zeitraum" />
+            ) : (
+              <ChartContainer config={executionsConfig} className="h-64 w-full">
+                <BarChart data={usage}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="successful_executions" stackId="executions" fill="var(--color-successful_executions)" />
+                  <Bar dataKey="failed_executions" stackId="executions" fill="var(--color-failed_executions)" />
+                  <Bar dataKey="open_executions" stackId="executions" fill="var(--color-open_executions)" />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tokenverbrauch</CardTitle>
+            <CardDescription>Verbrauchte Tokens pro Tag, abzüglich Erstattungen</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {usageLoading ? (
+              <ChartPlaceholder text="Wird geladen..." />
+            ) : !hasTokens ? (
+              <ChartPlaceholder text="Keine Tokens im Zeitraum verbraucht" />
+            ) : (
+              <ChartContainer config={tokensConfig} className="h-64 w-full">
+                <AreaChart data={usage}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <Area
+                    dataKey="tokens_spent"
+                    type="monotone"
+                    stroke="var(--color-tokens_spent)"
+                    fill="var(--color-tokens_spent)"
+                    fillOpacity={0.3}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Laufzeit pro Webhook</CardTitle>
+          <CardDescription>Perzentile der Laufzeit erfolgreicher Ausführungen</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {latencyLoading ? (
+            <ChartPlaceholder text="Wird geladen..." />
+          ) : latency.length === 0 ? (
+            <ChartPlaceholder text="Keine erfolgreichen Ausführungen im Zeitraum" />
+          ) : (
+            <ChartContainer
+              config={latencyConfig}
+              className="w-full"
+              style={{ height: Math.max(160, latency.length * 48 + 64) }}
+            >
+              <BarChart data={latency} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickFormatter={formatMs} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="webhook_name" tickLine={false} axisLine={false} width={140} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, name) => (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {latencyConfig[name as keyof typeof latencyConfig]?.label ?? name}
+                          </span>
+                          <span className="font-mono font-medium">{formatMs(Number(value))}</span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="p50_ms" fill="var(--color-p50_ms)" />
+                <Bar dataKey="p90_ms" fill="var(--color-p90_ms)" />
+                <Bar dataKey="p99_ms" fill="var(--color-p99_ms)" />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,12 +1,32 @@
 import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { User, Session } from '@supabase/supabase-js';
+import { queryKeys } from "@/lib/query-keys";
+import { ROLE_PERMISSIONS, type Permission } from "@/lib/permissions";
+import { User, Session, AuthenticatorAssuranceLevels } from '@supabase/supabase-js';
+
+interface AssuranceLevels {
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+}
+
+const fetchProfile = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
 
 export const useAuth = () => {
+  const queryClient = useQueryClient();
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [assurance, setAssurance] = useState<AssuranceLevels | null>(null);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -15,11 +35,6 @@ export const useAuth = () => {
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
-        if (session?.user) {
-          checkAdminStatus(session.user.id);
-        } else {
-          setIsAdmin(false);
-        }
       }
     );
 
@@ -28,38 +43,59 @@ export const useAuth = () => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
-      if (session?.user) {
-        checkAdminStatus(session.user.id);
-      }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const checkAdminStatus = async (userId: string) => {
-    try {
-      const { data } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('user_id', userId)
-        .single();
-      
-      setIsAdmin(data?.role === 'ADMIN');
-    } catch (error) {
-      console.error('Error checking admin status:', error);
-      setIsAdmin(false);
+  // Read outside the auth listener, supabase calls inside it can deadlock
+  useEffect(() => {
+    if (!session) {
+      setAssurance(null);
+      return;
     }
-  };
+
+    let cancelled = false;
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel().then(({ data }) => {
+      if (cancelled) return;
+      setAssurance({ currentLevel: data?.currentLevel ?? null, nextLevel: data?.nextLevel ?? null });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  // The profile is cached, so every component calling useAuth shares one request
+  const { data: profile, isLoading: profileLoading } = useQuery({
+    queryKey: queryKeys.profile(user?.id),
+    queryFn: () => fetchProfile(user!.id),
+    enabled: !!user,
+    staleTime: 60_000,
+  });
+
+  const permissions = profile ? ROLE_PERMISSIONS[profile.role] : [];
+
   const signOut = async () => {
     await supabase.auth.signOut();
-    setIsAdmin(false);
+    // Drop all cached data of the previous user
+    queryClient.clear();
   };
 
   return {
     user,
     session,
-    loading,
-    isAdmin,
+    loading: loading || (!!session && !assurance),
+    profile: profile ?? null,
+    profileLoading: !!user && profileLoading,
+    isAdmin: profile?.role === 'ADMIN',
+    // Every role except CLIENT, ROLE_PERMISSIONS lists what each of them may do
+    isStaff: !!profile && profile.role !== 'CLIENT',
+    can: (permission: Permission) => permissions.includes(permission),
+    // A verified authenticator exists for the account
+    mfaEnrolled: assurance?.nextLevel === 'aal2',
+    // Signed in with the password, the authenticator code is still missing
+    mfaVerificationRequired: assurance?.nextLevel === 'aal2' && assurance.currentLevel !== 'aal2',
     signOut,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,1264 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { invokeFunction } from "@/lib/edge-functions";
+import { queryKeys } from "@/lib/query-keys";
+import type { Permission, UserRole } from "@/lib/permissions";
+import type { Json, Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { ExecutionMode, ExecutionStatus, HttpMethod, IoType, TokenTransactionKind } from "@/lib/types";
+
+export interface ExecutionAttempt {
+  attempt: number;
+  status_code: number | null;
+  duration_ms: number;
+  error: string | null;
+  started_at: string;
+}
+
+export type Execution = Omit<Tables<'executions'>, 'attempts' | 'status' | 'request_type'> & {
+  status: ExecutionStatus;
+  request_type: IoType;
+  attempts: ExecutionAttempt[];
+  webhooks: Pick<Tables<'webhooks'>, 'name'> | null;
+};
+
+// attempts is a jsonb column written by the execute-webhook function, the
+// check constraints on status and request_type keep them to the known values
+export const toExecution = (row: Tables<'executions'> & Pick<Execution, 'webhooks'>): Execution => ({
+  ...row,
+  status: row.status as ExecutionStatus,
+  request_type: row.request_type as IoType,
+  attempts: (row.attempts ?? []) as unknown as ExecutionAttempt[],
+});
+
+// Webhooks are read through the public_webhooks view, which leaves out URL
+// and headers (see get_webhook_target). Check constraints keep the text
+// columns below to the known values.
+type WebhookRow = Omit<Tables<'webhooks'>, 'url' | 'headers' | 'method' | 'input_type' | 'output_type' | 'execution_mode'> & {
+  method: HttpMethod;
+  input_type: IoType;
+  output_type: IoType;
+  execution_mode: ExecutionMode;
+};
+
+export type WebhookWithClient = WebhookRow & {
+  clients?: Pick<Tables<'clients'>, 'id' | 'name' | 'user_id'> & {
+    profiles: Pick<Tables<'profiles'>, 'email'> | null;
+  };
+};
+
+// Pages that run webhooks only need the descriptive columns
+const PUBLIC_WEBHOOK_COLUMNS = 'id, name, description, method, input_type, input_schema, output_type, is_active, tokens_cost, timeout_ms, execution_mode, created_at, client_id';
+
+export type PublicWebhook = Pick<WebhookRow,
+  'id' | 'name' | 'description' | 'method' | 'input_type' | 'input_schema' | 'output_type' | 'is_active'
+  | 'tokens_cost' | 'timeout_ms' | 'execution_mode' | 'created_at' | 'client_id'>;
+
+export interface AuthUser {
+  user_id: string;
+  email_confirmed_at: string | null;
+  last_sign_in_at: string | null;
+  mfa_enabled: boolean;
+}
+
+export type ProfileWithClient = Tables<'profiles'> & {
+  clients: Pick<Tables<'clients'>, 'id' | 'name'>[];
+};
+
+export type ClientWithDetails = Tables<'clients'> & {
+  email: string;
+  webhooks_count: number;
+};
+
+export type ClientMemberRole = 'owner' | 'member' | 'viewer';
+
+export const CLIENT_MEMBER_ROLE_LABELS: Record<ClientMemberRole, string> = {
+  owner: 'Inhaber',
+  member: 'Mitglied',
+  viewer: 'Betrachter',
+};
+
+/**
+ * Client the signed-in user belongs to, with the user's role there, or null
+ * for users without one (admins). All members share the client's balance.
+ */
+export const useCurrentClient = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.currentClient(user?.id),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('client_members')
+        .select(`
+          role,
+          clients (*)
+        `)
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.clients ? { ...data.clients, member_role: data.role as ClientMemberRole } : null;
+    },
+    enabled: !!user,
+  });
+};
+
+// Staff with the permission see everything, everyone else only what belongs to their client
+const useScope = (permission: Permission) => {
+  const { user, profile, can } = useAuth();
+  const client = useCurrentClient();
+
+  const seesAll = can(permission);
+  const ready = !!user && !!profile && (seesAll || !client.isLoading);
+  const clientId = seesAll ? null : client.data?.id ?? null;
+
+  return {
+    ready,
+    seesAll,
+    clientId,
+    // Part of the query keys, so staff and client results are cached separately
+    scope: seesAll ? 'all' : clientId ?? 'none',
+  };
+};
+
+export const useWebhooks = () => {
+  const { ready, seesAll, clientId, scope } = useScope('webhooks.view');
+
+  return useQuery({
+    queryKey: queryKeys.webhookList(scope),
+    queryFn: async (): Promise<WebhookWithClient[]> => {
+      if (seesAll) {
+        const { data, error } = await supabase
+          .from('public_webhooks')
+          .select(`
+            *,
+            clients!inner (
+              id,
+              name,
+              user_id,
+              profiles (
+                email
+              )
+            )
+          `)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return (data || []) as WebhookWithClient[];
+      }
+
+      if (!clientId) return [];
+
+      // The view returns the client's own and the assigned webhooks
+      const { data, error } = await supabase
+        .from('public_webhooks')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as WebhookWithClient[];
+    },
+    enabled: ready,
+  });
+};
+
+export const useWebhook = (webhookId: string | undefined) => {
+  const { ready, seesAll, clientId } = useScope('webhooks.view');
+
+  return useQuery({
+    queryKey: queryKeys.webhook(webhookId),
+    queryFn: async (): Promise<PublicWebhook | null> => {
+      // Running a webhook needs a client to charge
+      if (!seesAll && !clientId) return null;
+
+      // The view limits clients to their own and assigned webhooks
+      const { data, error } = await supabase
+        .from('public_webhooks')
+        .select(PUBLIC_WEBHOOK_COLUMNS)
+        .eq('id', webhookId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as PublicWebhook | null;
+    },
+    enabled: ready && !!webhookId,
+  });
+};
+
+/**
+ * URL and headers of a webhook, for admins and webhook editors who edit it.
+ */
+export const useWebhookTarget = (webhookId: string | undefined) => {
+  const { can } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.webhookTarget(webhookId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_webhook_target', { p_webhook_id: webhookId! });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: can('webhooks.manage') && !!webhookId,
+  });
+};
+
+/**
+ * Id, name and state of all webhooks, for staff pickers.
+ */
+export const useWebhookOptions = () => {
+  const { can } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.webhookOptions,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('public_webhooks')
+        .select('id, name, is_active')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: can('webhooks.view'),
+  });
+};
+
+export type WebhookAssignment = Pick<Tables<'webhook_assignments'>, 'id' | 'user_id' | 'webhook_id' | 'assigned_at'> & {
+  profiles: Pick<Tables<'profiles'>, 'email' | 'role'> | null;
+};
+
+/**
+ * Active webhook assignments, of one webhook or of all webhooks. Admins and
+ * webhook editors manage assignments.
+ */
+export const useWebhookAssignments = (webhookId?: string) => {
+  const { can } = useAuth();
+
+  return useQuery({
+    queryKey: webhookId ? queryKeys.webhookAssignmentsOf(webhookId) : queryKeys.webhookAssignments,
+    queryFn: async (): Promise<WebhookAssignment[]> => {
+      let query = supabase
+        .from('webhook_assignments')
+        .select(`
+          id,
+          user_id,
+          webhook_id,
+          assigned_at,
+          profiles (
+            email,
+            role
+          )
+        `)
+        .eq('is_active', true)
+        .order('assigned_at', { ascending: false });
+
+      if (webhookId) {
+        query = query.eq('webhook_id', webhookId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: can('webhooks.view'),
+  });
+};
+
+export const useExecutions = ({ limit = 50 }: { limit?: number } = {}) => {
+  const { ready, seesAll, clientId, scope } = useScope('executions.view');
+
+  return useQuery({
+    queryKey: queryKeys.executionList(scope, limit),
+    queryFn: async (): Promise<Execution[]> => {
+      if (!seesAll && !clientId) return [];
+
+      let query = supabase
+        .from('executions')
+        .select(`
+          *,
+          webhooks:public_webhooks (
+            name
+          )
+        `)
+        .order('requested_at', { ascending: false })
+        .limit(limit);
+
+      if (!seesAll) {
+        query = query.eq('client_id', clientId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map(toExecution);
+    },
+    enabled: ready,
+  });
+};
+
+export interface ExecutionFilters {
+  webhookId?: string;
+  status?: ExecutionStatus;
+  requestType?: IoType;
+  clientId?: string;
+  // Member of the client who started the run
+  startedBy?: string;
+  // Calendar days (yyyy-mm-dd) in local time, both inclusive
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+export const EXECUTION_PAGE_SIZE = 25;
+
+interface ExecutionCursor {
+  requestedAt: string;
+  id: string;
+}
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`);
+
+const dayAfter = (day: string) => {
+  const date = startOfDay(day);
+  date.setDate(date.getDate() + 1);
+  return date;
+};
+
+/**
+ * Arguments of search_executions for the given filters, without the cursor.
+ * Also used for the export, so both see the same executions.
+ */
+export const toExecutionSearchArgs = (filters: ExecutionFilters) => ({
+  p_webhook_id: filters.webhookId,
+  p_status: filters.status,
+  p_request_type: filters.requestType,
+  p_client_id: filters.clientId,
+  p_started_by: filters.startedBy,
+  p_from: filters.from ? startOfDay(filters.from).toISOString() : undefined,
+  p_to: filters.to ? dayAfter(filters.to).toISOString() : undefined,
+  p_search: filters.search,
+});
+
+/**
+ * Execution history with filters, loaded page by page (newest first) through
+ * the search_executions function. Row level security limits clients to
+ * their own executions.
+ */
+export const useExecutionHistory = (filters: ExecutionFilters) => {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.executionHistory(filters),
+    queryFn: async ({ pageParam }): Promise<Execution[]> => {
+      const { data, error } = await supabase
+        .rpc('search_executions', {
+          ...toExecutionSearchArgs(filters),
+          p_before_requested_at: pageParam?.requestedAt,
+          p_before_id: pageParam?.id,
+          p_limit: EXECUTION_PAGE_SIZE,
+        })
+        .select(`
+          *,
+          webhooks:public_webhooks (
+            name
+          )
+        `);
+
+      if (error) throw error;
+      // The generated types cannot follow embedded tables through a function result
+      const rows = (data || []) as unknown as (Tables<'executions'> & Pick<Execution, 'webhooks'>)[];
+      return rows.map(toExecution);
+    },
+    initialPageParam: null as ExecutionCursor | null,
+    getNextPageParam: (lastPage): ExecutionCursor | null => {
+      if (lastPage.length < EXECUTION_PAGE_SIZE) return null;
+      const last = lastPage[lastPage.length - 1];
+      return { requestedAt: last.requested_at, id: last.id };
+    },
+    enabled: !!user,
+  });
+};
+
+export interface AuditLogFilters {
+  actorId?: string;
+  tableName?: string;
+  // Calendar days (yyyy-mm-dd) in local time, both inclusive
+  from?: string;
+  to?: string;
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+/**
+ * Audit log entries with filters, newest first, loaded page by page.
+ * Only admins can read the audit log.
+ */
+export const useAuditLogs = (filters: AuditLogFilters) => {
+  const { isAdmin } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.auditLogs(filters),
+    queryFn: async ({ pageParam }): Promise<Tables<'audit_logs'>[]> => {
+      let query = supabase
+        .from('audit_logs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(pageParam, pageParam + AUDIT_LOG_PAGE_SIZE - 1);
+
+      if (filters.actorId) query = query.eq('user_id', filters.actorId);
+      if (filters.tableName) query = query.eq('table_name', filters.tableName);
+      if (filters.from) query = query.gte('created_at', startOfDay(filters.from).toISOString());
+      if (filters.to) query = query.lt('created_at', dayAfter(filters.to).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < AUDIT_LOG_PAGE_SIZE ? null : allPages.length * AUDIT_LOG_PAGE_SIZE,
+    enabled: isAdmin,
+  });
+};
+
+/**
+ * Execution totals of the signed-in client, or of all clients for admins
+ * (optionally narrowed to one client).
+ */
+export const useExecutionStats = (clientId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.executionStats(clientId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_execution_stats', { p_client_id: clientId });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: !!user,
+  });
+};
+
+export const useWebhookStats = (clientId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.webhookStats(clientId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_webhook_stats', { p_client_id: clientId });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+};
+
+export const useClientStats = () => {
+  const { can } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.clientStats,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_client_stats');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: can('executions.view'),
+  });
+};
+
+export const useSystemStats = () => {
+  const { can } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.systemStats,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_system_stats');
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: can('executions.view'),
+  });
+};
+
+/**
+ * Executions by outcome and tokens spent per day over the last `days` days,
+ * counted in the browser's time zone.
+ */
+export const useDailyUsage = (days: number, clientId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.dailyUsage(days, clientId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_daily_usage', {
+        p_days: days,
+        p_client_id: clientId,
+        p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+};
+
+export const useWebhookLatency = (days: number, clientId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.webhookLatency(days, clientId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_webhook_latency', { p_days: days, p_client_id: clientId });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+};
+
+export type TokenTransaction = Pick<Tables<'token_transactions'>, 'id' | 'amount' | 'balance_after' | 'reason' | 'created_at'> & {
+  kind: TokenTransactionKind;
+};
+
+export const useTokenTransactions = (clientId: string, limit = 50) => {
+  return useQuery({
+    queryKey: queryKeys.tokenTransactions(clientId, limit),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('token_transactions')
+        .select('id, kind, amount, balance_after, reason, created_at')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as TokenTransaction[];
+    },
+    enabled: !!clientId,
+  });
+};
+
+export const useProfiles = () => {
+  const { isStaff } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.profiles,
+    queryFn: async (): Promise<ProfileWithClient[]> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(`
+          *,
+          clients (
+            id,
+            name
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: isStaff,
+  });
+};
+
+export const useClients = () => {
+  const { isStaff } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.clients,
+    queryFn: async (): Promise<ClientWithDetails[]> => {
+      const { data, error } = await supabase
+        .from('clients')
+        .select(`
+          *,
+          profiles (
+            email
+          ),
+          webhooks (
+            id
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(({ profiles, webhooks, ...client }) => ({
+        ...client,
+        email: profiles?.email || 'No email',
+        webhooks_count: webhooks?.length || 0,
+      }));
+    },
+    enabled: isStaff,
+  });
+};
+
+export const useNotifications = (userId: string) => {
+  return useQuery({
+    queryKey: queryKeys.notifications(userId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, title, body, link, read_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+};
+
+export type ApiToken = Omit<Tables<'api_tokens'>, 'token_hash' | 'user_id'>;
+
+/**
+ * API tokens of the signed-in user. The hash stays in the database, the
+ * prefix is enough to tell the tokens apart.
+ */
+export const useApiTokens = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.apiTokens(user?.id),
+    queryFn: async (): Promise<ApiToken[]> => {
+      const { data, error } = await supabase
+        .from('api_tokens')
+        .select('id, name, token_prefix, webhook_ids, expires_at, last_used_at, revoked_at, created_at')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+};
+
+export const useCreateWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (webhook: TablesInsert<'webhooks'>) => {
+      const { error } = await supabase.from('webhooks').insert(webhook);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+    },
+  });
+};
+
+export const useUpdateWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: TablesUpdate<'webhooks'> & { id: string }) => {
+      const { error } = await supabase.from('webhooks').update(changes).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks });
+    },
+  });
+};
+
+export const useDeleteWebhook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (webhookId: string) => {
+      const { error } = await supabase.from('webhooks').delete().eq('id', webhookId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+    },
+  });
+};
+
+// Replaces the users a webhook is assigned to, see set_webhook_assignments
+export const useSetWebhookAssignments = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ webhookId, userIds }: { webhookId: string; userIds: string[] }) => {
+      const { error } = await supabase.rpc('set_webhook_assignments', {
+        p_webhook_id: webhookId,
+        p_user_ids: userIds,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhookAssignments });
+    },
+  });
+};
+
+// Replaces the webhooks assigned to a user, see set_user_assignments
+export const useSetUserAssignments = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, webhookIds }: { userId: string; webhookIds: string[] }) => {
+      const { error } = await supabase.rpc('set_user_assignments', {
+        p_user_id: userId,
+        p_webhook_ids: webhookIds,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhookAssignments });
+    },
+  });
+};
+
+/**
+ * Runs a webhook through the execute-webhook function. The body is the
+ * function's form data (webhook_id plus text or file), or JSON with the
+ * values of the webhook's input fields.
+ */
+export const useExecuteWebhook = <T>() => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: FormData | Record<string, unknown>) => invokeFunction<T>('execute-webhook', body),
+    // Failed runs are recorded and refunded as well
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.executions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allTokenTransactions });
+    },
+  });
+};
+
+export const useAdjustTokens = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { clientId: string; kind: 'GRANT' | 'ADJUSTMENT' | 'EXPIRY'; amount: number; reason: string }) => {
+      const { data, error } = await supabase.rpc('adjust_tokens', {
+        p_client_id: params.clientId,
+        p_kind: params.kind,
+        p_amount: params.amount,
+        p_reason: params.reason,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allTokenTransactions });
+    },
+  });
+};
+
+export const useUpdateProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, ...changes }: TablesUpdate<'profiles'> & { userId: string }) => {
+      const { error } = await supabase.from('profiles').update(changes).eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles });
+      queryClient.invalidateQueries({ queryKey: queryKeys.profile(userId) });
+    },
+  });
+};
+
+/**
+ * Confirmation and last sign-in of all auth accounts, by user id. Only the
+ * admin-users function can read them.
+ */
+export const useAuthUsers = () => {
+  const { can } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.authUsers,
+    queryFn: async (): Promise<Map<string, AuthUser>> => {
+      const users = await invokeFunction<AuthUser[]>('admin-users', { action: 'list' });
+      return new Map(users.map((authUser) => [authUser.user_id, authUser]));
+    },
+    enabled: can('users.view'),
+  });
+};
+
+export const useCreateUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (user: { email: string; password: string; role: UserRole; emailConfirmed: boolean }) =>
+      invokeFunction<{ user_id: string }>('admin-users', { action: 'create', ...user }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles });
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+    },
+  });
+};
+
+/**
+ * Sets a new password and/or confirms the email address of an account.
+ */
+export const useUpdateUserAccount = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (changes: { userId: string; password?: string; emailConfirmed?: boolean }) =>
+      invokeFunction<{ user_id: string }>('admin-users', { action: 'update', ...changes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.authUsers });
+    },
+  });
+};
+
+/**
+ * Deletes the auth account with its profile and assignments, optionally the
+ * client record as well.
+ */
+export const useDeleteUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, deleteClient }: { userId: string; deleteClient: boolean }) =>
+      invokeFunction<{ user_id: string }>('admin-users', { action: 'delete', userId, deleteClient }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles });
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhookAssignments });
+    },
+  });
+};
+
+/**
+ * Invitations that were neither accepted nor revoked, expired ones included.
+ */
+export const useInvitations = () => {
+  const { can } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.invitations,
+    queryFn: async (): Promise<Tables<'invitations'>[]> => {
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('*')
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: can('users.view'),
+  });
+};
+
+export const useInviteUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (invitation: { email: string; startingTokens: number; webhookIds: string[]; validHours: number }) =>
+      invokeFunction<{ id: string }>('admin-users', {
+        action: 'invite',
+        ...invitation,
+        redirectTo: `${window.location.origin}/accept-invite`,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invitations });
+    },
+  });
+};
+
+export const useRevokeInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (invitationId: string) =>
+      invokeFunction<{ id: string }>('admin-users', { action: 'revokeInvitation', invitationId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invitations });
+    },
+  });
+};
+
+export interface ClientMember {
+  user_id: string;
+  email: string | null;
+  role: ClientMemberRole;
+  joined_at: string;
+  executions_this_month: number;
+  tokens_spent_this_month: number;
+  last_execution_at: string | null;
+}
+
+/**
+ * Members of the current user's client with their usage this month. Only
+ * owners manage the members.
+ */
+export const useClientMembers = () => {
+  const { data: client } = useCurrentClient();
+
+  return useQuery({
+    queryKey: queryKeys.clientMembers(client?.id),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_client_members', { p_client_id: client!.id });
+      if (error) throw error;
+      return (data || []) as ClientMember[];
+    },
+    enabled: client?.member_role === 'owner',
+  });
+};
+
+export const useSetClientMemberRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ clientId, userId, role }: { clientId: string; userId: string; role: ClientMemberRole }) => {
+      const { error } = await supabase.rpc('set_client_member_role', {
+        p_client_id: clientId,
+        p_user_id: userId,
+        p_role: role,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { clientId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.clientMembers(clientId) });
+    },
+  });
+};
+
+export const useRemoveClientMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ clientId, userId }: { clientId: string; userId: string }) => {
+      const { error } = await supabase.rpc('remove_client_member', { p_client_id: clientId, p_user_id: userId });
+      if (error) throw error;
+    },
+    onSuccess: (_, { clientId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.clientMembers(clientId) });
+    },
+  });
+};
+
+/**
+ * Open invitations of colleagues into the current user's client.
+ */
+export const useTeamInvitations = () => {
+  const { data: client } = useCurrentClient();
+
+  return useQuery({
+    queryKey: queryKeys.teamInvitations(client?.id),
+    queryFn: async (): Promise<Tables<'invitations'>[]> => {
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('*')
+        .eq('client_id', client!.id)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: client?.member_role === 'owner',
+  });
+};
+
+export const useInviteTeamMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (invitation: { email: string; role: ClientMemberRole; validHours: number }) =>
+      invokeFunction<{ id: string }>('client-members', {
+        action: 'invite',
+        ...invitation,
+        redirectTo: `${window.location.origin}/accept-invite`,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invitations });
+    },
+  });
+};
+
+export const useRevokeTeamInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (invitationId: string) =>
+      invokeFunction<{ id: string }>('client-members', { action: 'revokeInvitation', invitationId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invitations });
+    },
+  });
+};
+
+/**
+ * Creates the profile of the signed in invitee and either a new client or
+ * the membership in the inviting client.
+ */
+export const useAcceptInvitation = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('accept_invitation');
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profile(user?.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+    },
+  });
+};
+
+/**
+ * Removes the second factors of a user who lost the authenticator.
+ */
+export const useResetUserMfa = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) => invokeFunction<{ user_id: string }>('admin-users', { action: 'resetMfa', userId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.authUsers });
+    },
+  });
+};
+
+/**
+ * Deletes a client together with its webhooks and executions.
+ */
+export const useDeleteClient = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (clientId: string) => {
+      const { error: webhooksError } = await supabase
+        .from('webhooks')
+        .delete()
+        .eq('client_id', clientId);
+
+      if (webhooksError) {
+        console.warn('Error deleting webhooks:', webhooksError);
+      }
+
+      const { error: executionsError } = await supabase
+        .from('executions')
+        .delete()
+        .eq('client_id', clientId);
+
+      if (executionsError) {
+        console.warn('Error deleting executions:', executionsError);
+      }
+
+      const { error: clientError } = await supabase
+        .from('clients')
+        .delete()
+        .eq('id', clientId);
+
+      if (clientError) throw clientError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles });
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.executions });
+    },
+  });
+};
+
+export const useMarkNotificationsRead = (userId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (notificationIds: string[]) => {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', notificationIds);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications(userId) });
+    },
+  });
+};
+
+/**
+ * Creates an API token and returns the plain token. It is not stored and
+ * can only be shown right after creation.
+ */
+export const useCreateApiToken = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { name: string; webhookIds: string[] | null; expiresAt: string | null }) => {
+      const { data, error } = await supabase.rpc('create_api_token', {
+        p_name: params.name,
+        p_webhook_ids: params.webhookIds ?? undefined,
+        p_expires_at: params.expiresAt ?? undefined,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens(user?.id) });
+    },
+  });
+};
+
+export const useRevokeApiToken = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tokenId: string) => {
+      const { error } = await supabase.rpc('revoke_api_token', { p_token_id: tokenId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens(user?.id) });
+    },
+  });
+};
+
+export const useSecuritySettings = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.securitySettings,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('security_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+export const useSetRequireAdminMfa = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (required: boolean) => {
+      const { error } = await supabase.rpc('set_require_admin_mfa', { p_required: required });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.securitySettings });
+    },
+  });
+};
+
+/**
+ * Verified authenticator apps of the signed-in user.
+ */
+export const useMfaFactors = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.mfaFactors(user?.id),
+    queryFn: async () => {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+      if (error) throw error;
+      return data.totp;
+    },
+    enabled: !!user,
+  });
+};
+
+/**
+ * Number of unused recovery codes of the signed-in user.
+ */
+export const useRecoveryCodeCount = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.recoveryCodes(user?.id),
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('mfa_recovery_codes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user!.id)
+        .is('used_at', null);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: !!user,
+  });
+};
+
+/**
+ * Replaces the recovery codes and returns the new ones. They are shown once,
+ * only their hashes are stored.
+ */
+export const useGenerateRecoveryCodes = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recoveryCodes(user?.id) });
+    },
+  });
+};
+
+/**
+ * Signed-in devices of the current user, the current one is marked.
+ */
+export const useSessions = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.sessions(user?.id),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_my_sessions');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+/**
+ * Signs out the other devices, or with `global` every device including this one.
+ */
+export const useSignOutSessions = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scope: 'others' | 'global') => {
+      const { error } = await supabase.auth.signOut({ scope });
+      if (error) throw error;
+    },
+    onSuccess: (_, scope) => {
+      if (scope === 'global') {
+        queryClient.clear();
+      } else {
+        queryClient.invalidateQueries({ queryKey: queryKeys.sessions(user?.id) });
+      }
+    },
+  });
+};
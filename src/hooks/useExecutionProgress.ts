@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import type { ExecutionStatus } from "@/lib/types";
+
+export interface TrackedExecution {
+  id: string;
+  status: ExecutionStatus;
+  requested_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_ms: number | null;
+  status_code: number | null;
+  response: string | null;
+  error: string | null;
+  tokens_used: number;
+  output_file_path: string | null;
+  output_file_name: string | null;
+  output_file_type: string | null;
+}
+
+const TRACKED_COLUMNS = 'id, status, requested_at, started_at, completed_at, duration_ms, status_code, response, error, tokens_used, output_file_path, output_file_name, output_file_type';
+
+// Realtime can miss events (e.g. while the tab sleeps), so open executions are also polled
+const POLL_INTERVAL_MS = 5000;
+
+export const isExecutionOpen = (status: ExecutionStatus) =>
+  status === 'PENDING' || status === 'RUNNING';
+
+/**
+ * Follows a single execution row until it reaches a final status.
+ * Works across page reloads as long as the execution id is known.
+ */
+export const useExecutionProgress = (executionId: string | null) => {
+  const queryClient = useQueryClient();
+  const [execution, setExecution] = useState<TrackedExecution | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!executionId) {
+      setExecution(null);
+      return;
+    }
+
+    let cancelled = false;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    const fetchExecution = async () => {
+      const { data, error } = await supabase
+        .from('executions')
+        .select(TRACKED_COLUMNS)
+        .eq('id', executionId)
+        .single();
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching execution:', error);
+        setExecution(null);
+      } else {
+        const tracked = data as TrackedExecution;
+        setExecution(tracked);
+        if (!isExecutionOpen(tracked.status) && pollTimer) {
+          clearInterval(pollTimer);
+          pollTimer = null;
+        }
+      }
+      setLoading(false);
+    };
+
+    setLoading(true);
+    fetchExecution();
+    pollTimer = setInterval(fetchExecution, POLL_INTERVAL_MS);
+
+    const channel = supabase
+      .channel(`execution-${executionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'executions', filter: `id=eq.${executionId}` },
+        (payload) => {
+          if (!cancelled) {
+            setExecution((prev) => ({ ...prev, ...(payload.new as TrackedExecution) }));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      if (pollTimer) clearInterval(pollTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [executionId]);
+
+  // A finished run changes the history, and failed runs refund their tokens
+  const finished = !!execution && !isExecutionOpen(execution.status);
+  useEffect(() => {
+    if (!finished) return;
+    queryClient.invalidateQueries({ queryKey: queryKeys.executions });
+    queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+    queryClient.invalidateQueries({ queryKey: queryKeys.allTokenTransactions });
+  }, [finished, queryClient]);
+
+  return { execution, loading };
+};
@@ -1,435 +1,1017 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { useAuth } from "@/hooks/useAuth";
-import { toast } from "@/hooks/use-toast";
-import { Layout } from "@/components/Layout";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Label } from "@/components/ui/label";
-import { Button } from "@/components/ui/button";
-import { Eye, RefreshCw, Download } from "lucide-react";
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
 
-interface Execution {
-  id: string;
-  webhook_id: string;
-  client_id: string;
-  status: 'SUCCESS' | 'ERROR' | 'TIMEOUT';
-  requested_at: string;
-  duration_ms: number | null;
-  tokens_used: number;
-  request_type: 'TEXT' | 'FILE';
-  status_code: number | null;
-  response: string | null;
-  error: string | null;
-  payload: string | null;
-  webhooks: {
-    name: string;
-  };
-}
-
-const History = () => {
-  const { user, isAdmin } = useAuth();
-  const [executions, setExecutions] = useState<Execution[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedExecution, setSelectedExecution] = useState<Execution | null>(null);
-  const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
-
-  useEffect(() => {
-    if (user) {
-      fetchExecutions();
-    }
-  }, [user]);
-
-  const fetchExecutions = async () => {
-    if (!user) return;
-
-    setLoading(true);
-    try {
-      if (isAdmin) {
-        // Admin can see all executions
-        const { data: executionsData, error } = await supabase
-          .from('executions')
-          .select(`
-            *,
-            webhooks (
-              name
-            )
-          `)
-          .order('requested_at', { ascending: false })
-          .limit(50);
-
-        if (error) {
-          console.error('Admin executions error:', error);
-          throw error;
+export type Database = {
+  public: {
+    Tables: {
+      api_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          token_hash: string
+          token_prefix: string
+          user_id: string
+          webhook_ids: string[] | null
         }
-
-        setExecutions(executionsData || []);
-      } else {
-        // Get client data first for regular users
-        const { data: clientData, error: clientError } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
-
-        if (clientError) {
-          console.error('Client data error:', clientError);
-          throw clientError;
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          token_hash: string
+          token_prefix?: string
+          user_id: string
+          webhook_ids?: string[] | null
         }
-
-        if (!clientData) {
-          console.log('No client data found for user:', user.id);
-          setExecutions([]);
-          return;
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+          webhook_ids?: string[] | null
         }
-
-        // Get executions with webhook names for this client
-        const { data: executionsData, error: executionsError } = await supabase
-          .from('executions')
-          .select(`
-            *,
-            webhooks (
-              name
-            )
-          `)
-          .eq('client_id', clientData.id)
-          .order('requested_at', { ascending: false })
-          .limit(50);
-
-        if (executionsError) {
-          console.error('Client executions error:', executionsError);
-          throw executionsError;
+        Relationships: []
+      }
+      audit_logs: {
+        Row: {
+          action: string
+          actor_email: string | null
+          created_at: string
+          id: string
+          ip_address: unknown | null
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string | null
+          table_name: string
+          user_id: string | null
         }
-
-        console.log('Found executions for client:', executionsData?.length || 0);
-        setExecutions(executionsData || []);
-      }
-    } catch (error) {
-      console.error('Error fetching executions:', error);
-      toast({
-        title: "Fehler beim Laden der Historie",
-        description: error?.message || "Die Ausführungshistorie konnte nicht geladen werden.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+        Insert: {
+          action: string
+          actor_email?: string | null
+          created_at?: string
+          id?: string
+          ip_address?: unknown | null
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name: string
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          created_at?: string
+          id?: string
+          ip_address?: unknown | null
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      client_members: {
+        Row: {
+          client_id: string
+          created_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_members_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          tokens_balance: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          tokens_balance?: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          tokens_balance?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      executions: {
+        Row: {
+          attempts: Json
+          callback_expires_at: string | null
+          callback_received_at: string | null
+          client_id: string
+          completed_at: string | null
+          duration_ms: number | null
+          error: string | null
+          id: string
+          input_file_name: string | null
+          input_file_path: string | null
+          input_file_size: number | null
+          input_file_type: string | null
+          output_file_name: string | null
+          output_file_path: string | null
+          output_file_size: number | null
+          output_file_type: string | null
+          payload: string | null
+          request_type: string
+          requested_at: string
+          response: string | null
+          started_at: string | null
+          started_by: string | null
+          status: string
+          status_code: number | null
+          tokens_used: number
+          webhook_id: string
+        }
+        Insert: {
+          attempts?: Json
+          callback_expires_at?: string | null
+          callback_received_at?: string | null
+          client_id: string
+          completed_at?: string | null
+          duration_ms?: number | null
+          error?: string | null
+          id?: string
+          input_file_name?: string | null
+          input_file_path?: string | null
+          input_file_size?: number | null
+          input_file_type?: string | null
+          output_file_name?: string | null
+          output_file_path?: string | null
+          output_file_size?: number | null
+          output_file_type?: string | null
+          payload?: string | null
+          request_type: string
+          requested_at?: string
+          response?: string | null
+          started_at?: string | null
+          started_by?: string | null
+          status: string
+          status_code?: number | null
+          tokens_used?: number
+          webhook_id: string
+        }
+        Update: {
+          attempts?: Json
+          callback_expires_at?: string | null
+          callback_received_at?: string | null
+          client_id?: string
+          completed_at?: string | null
+          duration_ms?: number | null
+          error?: string | null
+          id?: string
+          input_file_name?: string | null
+          input_file_path?: string | null
+          input_file_size?: number | null
+          input_file_type?: string | null
+          output_file_name?: string | null
+          output_file_path?: string | null
+          output_file_size?: number | null
+          output_file_type?: string | null
+          payload?: string | null
+          request_type?: string
+          requested_at?: string
+          response?: string | null
+          started_at?: string | null
+          started_by?: string | null
+          status?: string
+          status_code?: number | null
+          tokens_used?: number
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "executions_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "executions_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "public_webhooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "executions_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          client_id: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          member_role: string
+          revoked_at: string | null
+          starting_tokens: number
+          user_id: string | null
+          webhook_ids: string[]
+        }
+        Insert: {
+          accepted_at?: string | null
+          client_id?: string | null
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          member_role?: string
+          revoked_at?: string | null
+          starting_tokens?: number
+          user_id?: string | null
+          webhook_ids?: string[]
+        }
+        Update: {
+          accepted_at?: string | null
+          client_id?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          member_role?: string
+          revoked_at?: string | null
+          starting_tokens?: number
+          user_id?: string | null
+          webhook_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          language: string
+          notify_on_failure: boolean
+          notify_on_success: boolean
+          role: Database["public"]["Enums"]["user_role"]
+          skip_email_verification: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          language?: string
+          notify_on_failure?: boolean
+          notify_on_success?: boolean
+          role?: Database["public"]["Enums"]["user_role"]
+          skip_email_verification?: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          language?: string
+          notify_on_failure?: boolean
+          notify_on_success?: boolean
+          role?: Database["public"]["Enums"]["user_role"]
+          skip_email_verification?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      security_settings: {
+        Row: {
+          id: boolean
+          require_admin_mfa: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          require_admin_mfa?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          require_admin_mfa?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      token_transactions: {
+        Row: {
+          actor_id: string | null
+          amount: number
+          balance_after: number
+          client_id: string
+          created_at: string
+          execution_id: string | null
+          id: string
+          kind: string
+          reason: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          amount: number
+          balance_after?: number
+          client_id: string
+          created_at?: string
+          execution_id?: string | null
+          id?: string
+          kind: string
+          reason?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          amount?: number
+          balance_after?: number
+          client_id?: string
+          created_at?: string
+          execution_id?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "token_transactions_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "token_transactions_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "executions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_assignments: {
+        Row: {
+          assigned_at: string | null
+          assigned_by: string | null
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          updated_at: string | null
+          user_id: string
+          webhook_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          updated_at?: string | null
+          user_id: string
+          webhook_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          updated_at?: string | null
+          user_id?: string
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_assignments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "webhook_assignments_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "public_webhooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_assignments_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          callback_timeout_ms: number
+          client_id: string
+          created_at: string
+          description: string | null
+          execution_mode: string
+          headers: Json | null
+          id: string
+          input_schema: Json | null
+          input_type: string
+          is_active: boolean
+          method: string
+          name: string
+          output_type: string
+          retry_backoff_ms: number
+          retry_max_attempts: number
+          retry_on_status: number[]
+          timeout_ms: number
+          tokens_cost: number
+          url: string
+        }
+        Insert: {
+          callback_timeout_ms?: number
+          client_id: string
+          created_at?: string
+          description?: string | null
+          execution_mode?: string
+          headers?: Json | null
+          id?: string
+          input_schema?: Json | null
+          input_type?: string
+          is_active?: boolean
+          method?: string
+          name: string
+          output_type?: string
+          retry_backoff_ms?: number
+          retry_max_attempts?: number
+          retry_on_status?: number[]
+          timeout_ms?: number
+          tokens_cost?: number
+          url: string
+        }
+        Update: {
+          callback_timeout_ms?: number
+          client_id?: string
+          created_at?: string
+          description?: string | null
+          execution_mode?: string
+          headers?: Json | null
+          id?: string
+          input_schema?: Json | null
+          input_type?: string
+          is_active?: boolean
+          method?: string
+          name?: string
+          output_type?: string
+          retry_backoff_ms?: number
+          retry_max_attempts?: number
+          retry_on_status?: number[]
+          timeout_ms?: number
+          tokens_cost?: number
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhooks_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'SUCCESS':
-        return 'default';
-      case 'ERROR':
-        return 'destructive';
-      case 'TIMEOUT':
-        return 'secondary';
-      default:
-        return 'outline';
+    Views: {
+      public_webhooks: {
+        Row: {
+          callback_timeout_ms: number | null
+          client_id: string | null
+          created_at: string | null
+          description: string | null
+          execution_mode: string | null
+          id: string | null
+          input_schema: Json | null
+          input_type: string | null
+          is_active: boolean | null
+          method: string | null
+          name: string | null
+          output_type: string | null
+          retry_backoff_ms: number | null
+          retry_max_attempts: number | null
+          retry_on_status: number[] | null
+          timeout_ms: number | null
+          tokens_cost: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhooks_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
-  };
-
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'SUCCESS':
-        return 'Erfolgreich';
-      case 'ERROR':
-        return 'Fehler';
-      case 'TIMEOUT':
-        return 'Timeout';
-      default:
-        return status;
+    Functions: {
+      accept_invitation: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      adjust_tokens: {
+        Args: {
+          p_amount: number
+          p_client_id: string
+          p_kind: string
+          p_reason: string
+        }
+        Returns: number
+      }
+      can_access_webhook: {
+        Args: { p_user_id: string; p_webhook_id: string }
+        Returns: boolean
+      }
+      client_member_role: {
+        Args: { p_client_id: string }
+        Returns: string
+      }
+      complete_execution: {
+        Args: {
+          p_attempts?: Json
+          p_duration_ms: number
+          p_error: string
+          p_execution_id: string
+          p_response: string
+          p_status: string
+          p_status_code: number
+        }
+        Returns: number
+      }
+      create_api_token: {
+        Args: { p_expires_at?: string; p_name: string; p_webhook_ids?: string[] }
+        Returns: string
+      }
+      current_staff_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      fail_stale_executions: {
+        Args: { p_client_id?: string }
+        Returns: number
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_client_members: {
+        Args: { p_client_id?: string }
+        Returns: {
+          email: string
+          executions_this_month: number
+          joined_at: string
+          last_execution_at: string
+          role: string
+          tokens_spent_this_month: number
+          user_id: string
+        }[]
+      }
+      get_client_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          client_id: string
+          client_name: string
+          executions_this_month: number
+          successful_executions_this_month: number
+          tokens_balance: number
+          tokens_spent_this_month: number
+        }[]
+      }
+      get_daily_usage: {
+        Args: { p_client_id?: string; p_days?: number; p_time_zone?: string }
+        Returns: {
+          day: string
+          failed_executions: number
+          open_executions: number
+          successful_executions: number
+          tokens_spent: number
+        }[]
+      }
+      get_execution_stats: {
+        Args: { p_client_id?: string }
+        Returns: {
+          avg_duration_ms: number | null
+          executions_this_month: number
+          failed_executions: number
+          last_execution_at: string | null
+          open_executions: number
+          successful_executions: number
+          tokens_spent_this_month: number
+          total_executions: number
+        }[]
+      }
+      get_my_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          aal: string
+          created_at: string
+          id: string
+          ip: string
+          is_current: boolean
+          last_active_at: string
+          user_agent: string
+        }[]
+      }
+      get_system_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          active_clients: number
+          active_webhooks: number
+          executions_this_month: number
+          executions_today: number
+          open_executions: number
+          tokens_granted_this_month: number
+          tokens_outstanding: number
+          tokens_spent_this_month: number
+          total_clients: number
+          total_users: number
+          total_webhooks: number
+        }[]
+      }
+      get_webhook_latency: {
+        Args: { p_client_id?: string; p_days?: number }
+        Returns: {
+          executions: number
+          p50_ms: number
+          p90_ms: number
+          p99_ms: number
+          webhook_id: string
+          webhook_name: string
+        }[]
+      }
+      get_webhook_stats: {
+        Args: { p_client_id?: string }
+        Returns: {
+          avg_duration_ms: number | null
+          client_id: string
+          last_execution_at: string | null
+          successful_executions: number
+          total_executions: number
+          webhook_id: string
+          webhook_name: string
+        }[]
+      }
+      get_webhook_target: {
+        Args: { p_webhook_id: string }
+        Returns: {
+          headers: Json
+          url: string
+        }[]
+      }
+      hand_over_clients: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: { user_id: string }
+        Returns: boolean
+      }
+      is_current_user_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      reserve_execution: {
+        Args: {
+          p_client_id: string
+          p_payload: string
+          p_started_by?: string
+          p_webhook_id: string
+        }
+        Returns: string
+      }
+      remove_client_member: {
+        Args: { p_client_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      revoke_api_token: {
+        Args: { p_token_id: string }
+        Returns: undefined
+      }
+      search_executions: {
+        Args: {
+          p_before_id?: string
+          p_before_requested_at?: string
+          p_client_id?: string
+          p_from?: string
+          p_limit?: number
+          p_request_type?: string
+          p_search?: string
+          p_started_by?: string
+          p_status?: string
+          p_to?: string
+          p_webhook_id?: string
+        }
+        Returns: {
+          attempts: Json
+          callback_expires_at: string | null
+          callback_received_at: string | null
+          client_id: string
+          completed_at: string | null
+          duration_ms: number | null
+          error: string | null
+          id: string
+          input_file_name: string | null
+          input_file_path: string | null
+          input_file_size: number | null
+          input_file_type: string | null
+          output_file_name: string | null
+          output_file_path: string | null
+          output_file_size: number | null
+          output_file_type: string | null
+          payload: string | null
+          request_type: string
+          requested_at: string
+          response: string | null
+          started_at: string | null
+          started_by: string | null
+          status: string
+          status_code: number | null
+          tokens_used: number
+          webhook_id: string
+        }[]
+      }
+      set_client_member_role: {
+        Args: { p_client_id: string; p_role: string; p_user_id: string }
+        Returns: undefined
+      }
+      set_require_admin_mfa: {
+        Args: { p_required: boolean }
+        Returns: undefined
+      }
+      set_user_assignments: {
+        Args: { p_user_id: string; p_webhook_ids: string[] }
+        Returns: undefined
+      }
+      set_webhook_assignments: {
+        Args: { p_user_ids: string[]; p_webhook_id: string }
+        Returns: undefined
+      }
     }
-  };
-
-  const showExecutionDetails = (execution: Execution) => {
-    setSelectedExecution(execution);
-    setDetailsDialogOpen(true);
-  };
-
-  const downloadBinaryResponse = (execution: Execution) => {
-    if (!execution.response) return;
-    
-    try {
-      // Try to parse the response to get the actual binary data
-      let binaryData = execution.response;
-      
-      // If it's JSON wrapped, try to extract
-      try {
-        const parsed = JSON.parse(execution.response);
-        if (typeof parsed === 'string') {
-          binaryData = parsed;
-        }
-      } catch {
-        // Use response as is
-      }
-      
-      // Convert the binary string to a Blob
-      const bytes = new Uint8Array(binaryData.length);
-      for (let i = 0; i < binaryData.length; i++) {
-        bytes[i] = binaryData.charCodeAt(i);
-      }
-      
-      const blob = new Blob([bytes], { type: 'application/octet-stream' });
-      const url = URL.createObjectURL(blob);
-      
-      // Get filename from payload if available
-      let filename = 'download';
-      if (execution.payload) {
-        try {
-          const payload = JSON.parse(execution.payload);
-          if (payload.fileName) {
-            filename = payload.fileName;
-          }
-        } catch {
-          // Use default filename
-        }
-      }
-      
-      // Create download link
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
-      toast({
-        title: "Download gestartet",
-        description: `Datei ${filename} wird heruntergeladen.`,
-      });
-    } catch (error) {
-      console.error('Download error:', error);
-      toast({
-        title: "Download-Fehler",
-        description: "Die Datei konnte nicht heruntergeladen werden.",
-        variant: "destructive",
-      });
+    Enums: {
+      user_role: "ADMIN" | "CLIENT" | "SUPPORT" | "BILLING" | "WEBHOOK_EDITOR"
     }
-  };
-  const formatResponse = (response: string | null) => {
-    if (!response) return 'Keine Antwort';
-    
-    try {
-      // Try to parse as JSON first
-      const parsed = JSON.parse(response);
-      return JSON.stringify(parsed, null, 2);
-    } catch {
-      // If not JSON, check if it's binary data
-      if (response.includes('\\u0000') || response.includes('��') || /[\x00-\x08\x0E-\x1F\x7F-\x9F]/.test(response)) {
-        return '[Binäre Datei empfangen - Inhalt kann nicht angezeigt werden]';
-      }
-      return response;
+    CompositeTypes: {
+      [_ in never]: never
     }
-  };
-
-  const isResponseBinary = (response: string | null) => {
-    if (!response) return false;
-    return response.includes('\\u0000') || response.includes('��') || /[\x00-\x08\x0E-\x1F\x7F-\x9F]/.test(response);
-  };
+  }
+}
 
-  return (
-    <Layout>
-      <div className="space-y-6">
-        <div className="flex items-center justify-between">
-          <div>
-          <h1 className="text-3xl font-bold tracking-tight">Ausführungshistorie</h1>
-          <p className="text-muted-foreground">Übersicht über alle Webhook-Ausführungen</p>
-          </div>
-          <Button onClick={fetchExecutions} disabled={loading}>
-            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-            Aktualisieren
-          </Button>
-        </div>
+type DefaultSchema = Database[Extract<keyof Database, "public">]
 
-        {loading ? (
-          <div className="flex items-center justify-center h-96">
-            <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
-          </div>
-        ) : executions.length === 0 ? (
-          <Card>
-            <CardHeader>
-              <CardTitle>Keine Ausführungen</CardTitle>
-              <CardDescription>
-                Es wurden noch keine Webhooks ausgeführt.
-              </CardDescription>
-            </CardHeader>
-          </Card>
-        ) : (
-          <div className="space-y-4">
-            {executions.map((execution) => (
-              <Card key={execution.id}>
-                <CardContent className="p-6">
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-2">
-                      <div className="flex items-center gap-3">
-                        <h3 className="font-semibold">{execution.webhooks.name}</h3>
-                        <Badge variant={getStatusColor(execution.status) as any}>
-                          {getStatusText(execution.status)}
-                        </Badge>
-                        {execution.status_code && (
-                          <Badge variant="outline">
-                            HTTP {execution.status_code}
-                          </Badge>
-                        )}
-                        <Badge variant="outline">
-                          {execution.request_type}
-                        </Badge>
-                      </div>
-                      
-                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                        <span>
-                          {new Date(execution.requested_at).toLocaleString('de-DE')}
-                        </span>
-                        {execution.duration_ms && (
-                          <span>{execution.duration_ms}ms</span>
-                        )}
-                        <span>{execution.tokens_used} Token verwendet</span>
-                      </div>
-                    </div>
-                    
-                    <div className="flex items-center gap-2">
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => showExecutionDetails(execution)}
-                      >
-                        <Eye className="h-4 w-4 mr-2" />
-                        Details
-                      </Button>
-                      {execution.status === 'SUCCESS' && isResponseBinary(execution.response) && (
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          onClick={() => downloadBinaryResponse(execution)}
-                        >
-                          <Download className="h-4 w-4 mr-2" />
-                          Download
-                        </Button>
-                      )}
-                    </div>
-                  </div>
-                  
-                  {execution.error && (
-                    <div className="mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
-                      <p className="text-sm text-destructive font-medium">Fehler:</p>
-                      <p className="text-sm text-destructive/80 mt-1">
-                        {typeof execution.error === 'string' 
-                          ? execution.error 
-                          : JSON.stringify(execution.error)
-                        }
-                      </p>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
 
-        {/* Execution Details Dialog */}
-        <Dialog open={detailsDialogOpen} onOpenChange={setDetailsDialogOpen}>
-          <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Ausführungsdetails</DialogTitle>
-              <DialogDescription>
-                Details für Webhook: {selectedExecution?.webhooks?.name}
-              </DialogDescription>
-            </DialogHeader>
-            
-            {selectedExecution && (
-              <div className="space-y-6">
-                {/* Basic Info */}
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label className="text-sm font-medium">Status</Label>
-                    <div className="mt-1">
-                      <Badge variant={getStatusColor(selectedExecution.status) as any}>
-                        {getStatusText(selectedExecution.status)}
-                      </Badge>
-                    </div>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Ausführungszeit</Label>
-                    <p className="mt-1 text-sm">{selectedExecution.duration_ms}ms</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Token verwendet</Label>
-                    <p className="mt-1 text-sm">{selectedExecution.tokens_used}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Zeitpunkt</Label>
-                    <p className="mt-1 text-sm">
-                      {new Date(selectedExecution.requested_at).toLocaleString('de-DE')}
-                    </p>
-                  </div>
-                </div>
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
 
-                {/* Request Details */}
-                <div>
-                  <Label className="text-sm font-medium">Anfrage</Label>
-                  <div className="mt-2 p-3 bg-muted rounded-lg">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Badge variant="outline">{selectedExecution.request_type}</Badge>
-                      {selectedExecution.status_code && (
-                        <Badge variant="outline">HTTP {selectedExecution.status_code}</Badge>
-                      )}
-                    </div>
-                    {selectedExecution.payload && (
-                      <pre className="text-xs overflow-auto">
-                        {JSON.stringify(JSON.parse(selectedExecution.payload), null, 2)}
-                      </pre>
-                    )}
-                  </div>
-                </div>
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
 
-                {/* Response */}
-                <div>
-                  <Label className="text-sm font-medium">Antwort</Label>
-                  <div className="mt-2 p-3 bg-muted rounded-lg">
-                    {isResponseBinary(selectedExecution.response) ? (
-                      <div className="text-center py-4">
-                        <div className="text-muted-foreground mb-2">
-                          📁 Binäre Datei empfangen
-                        </div>
-                        <p className="text-xs text-muted-foreground">
-                          Der Webhook hat eine Datei zurückgegeben. Der Inhalt kann nicht als Text angezeigt werden.
-                        </p>
-                      </div>
-                    ) : (
-                      <pre className="text-xs overflow-auto max-h-96">
-                        {formatResponse(selectedExecution.response)}
-                      </pre>
-                    )}
-                  </div>
-                </div>
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
 
-                {/* Error Details */}
-                {selectedExecution.error && (
-                  <div>
-                    <Label className="text-sm font-medium text-destructive">Fehlerdetails</Label>
-                    <div className="mt-2 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
-                      <pre className="text-xs text-destructive overflow-auto">
-                        {selectedExecution.error}
-                      </pre>
-                    </div>
-                  </div>
-                )}
-              </div>
-            )}
-            
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setDetailsDialogOpen(false)}>
-                Schließen
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-      </div>
-    </Layout>
-  );
-};
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
 
-export default History;
\ No newline at end of file
+export const Constants = {
+  public: {
+    Enums: {
+      user_role: ["ADMIN", "CLIENT", "SUPPORT", "BILLING", "WEBHOOK_EDITOR"],
+    },
+  },
+} as const
@@ -0,0 +1,35 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Invokes a Supabase Edge Function and throws an Error carrying the
+ * function's own `error` message when it responds with a non-2xx status.
+ */
+export async function invokeFunction<T>(name: string, body?: FormData | Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      let message = error.message;
+      try {
+        const errorBody = await error.context.json();
+        if (errorBody && typeof errorBody.error === 'string') {
+          message = errorBody.error;
+        }
+      } catch {
+        // Keep the generic message
+      }
+      throw new Error(message);
+    }
+    throw error;
+  }
+
+  return data as T;
+}
+
+/**
+ * Public URL of an Edge Function, e.g. to show in API examples. The client
+ * keeps the project URL private, the REST endpoint shares its origin.
+ */
+export const functionUrl = (name: string) =>
+  `${supabase.from('api_tokens').url.origin}/functions/v1/${name}`;
@@ -0,0 +1,24 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Private bucket, readable per client folder (see storage policies)
+export const EXECUTION_FILES_BUCKET = 'execution-files';
+
+export const fetchExecutionFile = async (path: string, contentType?: string | null) => {
+  const { data, error } = await supabase.storage.from(EXECUTION_FILES_BUCKET).download(path);
+  if (error) throw error;
+
+  // Storage may report a generic type, the execution row knows the original one
+  return contentType ? new Blob([data], { type: contentType }) : data;
+};
+
+export const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,183 @@
+import type { Json } from "@/integrations/supabase/types";
+import type { IoType } from "@/lib/types";
+
+export type InputFieldType = 'text' | 'multiline' | 'number' | 'select' | 'date' | 'checkbox' | 'file';
+
+/**
+ * One input field of a webhook (webhooks.input_schema). The edge functions
+ * keep their own copy in _shared/input-schema.ts and validate the values
+ * again before calling the webhook. A type rather than an interface, so the
+ * fields can be stored as Json.
+ */
+export type InputField = {
+  name: string;
+  label: string;
+  type: InputFieldType;
+  required?: boolean;
+  description?: string;
+  options?: string[];
+  min?: number;
+  max?: number;
+};
+
+export type InputValue = string | number | boolean | File;
+
+export type InputValues = Record<string, InputValue | undefined>;
+
+export const INPUT_FIELD_TYPES: InputFieldType[] = ['text', 'multiline', 'number', 'select', 'date', 'checkbox', 'file'];
+
+export const INPUT_FIELD_TYPE_LABELS: Record<InputFieldType, string> = {
+  text: 'Text',
+  multiline: 'Mehrzeiliger Text',
+  number: 'Zahl',
+  select: 'Auswahl',
+  date: 'Datum',
+  checkbox: 'Checkbox',
+  file: 'Datei',
+};
+
+// Sent next to the fields, see readExecutionRequest and callWebhook
+const RESERVED_NAMES = ['webhook_id', 'callback_url'];
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Reads the fields from the database column. Entries without a name or
+ * with an unknown type are skipped.
+ */
+export const parseInputSchema = (schema: Json | null | undefined): InputField[] => {
+  if (!Array.isArray(schema)) return [];
+
+  return schema.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    const field = entry as unknown as InputField;
+    if (typeof field.name !== 'string' || !INPUT_FIELD_TYPES.includes(field.type)) return [];
+    return [{ ...field, label: field.label || field.name }];
+  });
+};
+
+// Webhooks with input fields only receive a file if one of the fields asks for it
+export const inputTypeOf = (fields: InputField[]): IoType =>
+  fields.some((field) => field.type === 'file') ? 'FILE' : 'TEXT';
+
+/**
+ * Checks the fields defined in the webhook editor. Returns the first
+ * problem as message, or null if the fields can be saved.
+ */
+export const validateInputSchema = (fields: InputField[]): string | null => {
+  const names = new Set<string>();
+
+  for (const [index, field] of fields.entries()) {
+    const position = `Feld ${index + 1}`;
+
+    if (!FIELD_NAME_PATTERN.test(field.name)) {
+      return `${position}: Der Name darf nur Buchstaben, Ziffern und _ enthalten und nicht mit einer Ziffer beginnen`;
+    }
+    if (RESERVED_NAMES.includes(field.name)) {
+      return `${position}: Der Name ${field.name} ist reserviert`;
+    }
+    if (names.has(field.name)) {
+      return `${position}: Der Name ${field.name} ist bereits vergeben`;
+    }
+    names.add(field.name);
+
+    if (!field.label.trim()) {
+      return `${position}: Bitte geben Sie eine Bezeichnung ein`;
+    }
+    if (field.type === 'select' && !field.options?.length) {
+      return `${position}: Eine Auswahl braucht mindestens eine Option`;
+    }
+    if (field.type === 'number' && field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      return `${position}: Das Minimum ist größer als das Maximum`;
+    }
+  }
+
+  return null;
+};
+
+const isEmpty = (value: InputValue | undefined) =>
+  value === undefined || (typeof value === 'string' && !value.trim());
+
+/**
+ * Validates the values of the execution form. Returns the error message per
+ * field name, an empty object if all values are valid.
+ */
+export const validateInputValues = (fields: InputField[], values: InputValues) => {
+  const errors: Record<string, string> = {};
+
+  for (const field of fields) {
+    const value = values[field.name];
+
+    if (field.type === 'checkbox') {
+      if (field.required && value !== true) errors[field.name] = 'Bitte bestätigen Sie dieses Feld';
+      continue;
+    }
+
+    if (isEmpty(value)) {
+      if (field.required) errors[field.name] = 'Pflichtfeld';
+      continue;
+    }
+
+    if (field.type === 'number') {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        errors[field.name] = 'Bitte geben Sie eine Zahl ein';
+      } else if (field.min !== undefined && number < field.min) {
+        errors[field.name] = `Mindestens ${field.min}`;
+      } else if (field.max !== undefined && number > field.max) {
+        errors[field.name] = `Höchstens ${field.max}`;
+      }
+    } else if (field.type === 'select' && !field.options?.includes(value as string)) {
+      errors[field.name] = 'Bitte wählen Sie eine der Optionen';
+    } else if (field.type === 'file' && !(value instanceof File)) {
+      errors[field.name] = 'Bitte wählen Sie eine Datei aus';
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Request body for execute-webhook: JSON with the values under `fields`, or
+ * multipart/form-data with one part per field as soon as a file is involved.
+ * Empty optional fields are left out.
+ */
+export const toExecutionBody = (webhookId: string, fields: InputField[], values: InputValues) => {
+  const entries = fields.flatMap((field) => {
+    const value = values[field.name];
+    if (field.type === 'checkbox') return [[field.name, value === true] as const];
+    if (isEmpty(value)) return [];
+    return [[field.name, field.type === 'number' ? Number(value) : value] as const];
+  });
+
+  if (!entries.some(([, value]) => value instanceof File)) {
+    return { webhook_id: webhookId, fields: Object.fromEntries(entries) };
+  }
+
+  const formData = new FormData();
+  formData.append('webhook_id', webhookId);
+  for (const [name, value] of entries) {
+    formData.append(name, value instanceof File ? value : String(value));
+  }
+  return formData;
+};
+
+/**
+ * Tidies the fields from the editor before validating and saving them:
+ * trims the texts, drops empty options and settings that do not apply to
+ * the type of a field.
+ */
+export const cleanInputSchema = (fields: InputField[]): InputField[] =>
+  fields.map((field) => {
+    const cleaned: InputField = { name: field.name.trim(), label: field.label.trim(), type: field.type };
+    if (field.required) cleaned.required = true;
+    if (field.description?.trim()) cleaned.description = field.description.trim();
+    if (field.type === 'select') {
+      cleaned.options = Array.from(new Set((field.options ?? []).map((option) => option.trim()).filter(Boolean)));
+    }
+    if (field.type === 'number') {
+      if (field.min !== undefined) cleaned.min = field.min;
+      if (field.max !== undefined) cleaned.max = field.max;
+    }
+    return cleaned;
+  });
@@ -0,0 +1,41 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export type UserRole = Enums<'user_role'>;
+
+export type Permission =
+  | 'users.manage'
+  | 'users.view'
+  | 'executions.view'
+  | 'webhooks.view'
+  | 'webhooks.manage'
+  | 'tokens.manage';
+
+export const USER_ROLES: UserRole[] = ['CLIENT', 'ADMIN', 'SUPPORT', 'BILLING', 'WEBHOOK_EDITOR'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: 'Administrator',
+  SUPPORT: 'Support',
+  BILLING: 'Abrechnung',
+  WEBHOOK_EDITOR: 'Webhook-Editor',
+  CLIENT: 'Client',
+};
+
+export const USER_ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  ADMIN: 'Vollzugriff einschließlich Benutzerverwaltung und Audit-Log',
+  SUPPORT: 'Liest alle Benutzer, Webhooks und Ausführungen, ändert nichts',
+  BILLING: 'Bucht Tokens und sieht die Kontoauszüge aller Clients',
+  WEBHOOK_EDITOR: 'Legt Webhooks an, bearbeitet und weist sie zu',
+  CLIENT: 'Nutzt die Webhooks des eigenen Clients',
+};
+
+/**
+ * Permissions of the staff roles. Mirrors has_permission in the database,
+ * which enforces them; the app only uses this map to show what is allowed.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: ['users.manage', 'users.view', 'executions.view', 'webhooks.view', 'webhooks.manage', 'tokens.manage'],
+  SUPPORT: ['users.view', 'executions.view', 'webhooks.view'],
+  BILLING: ['tokens.manage'],
+  WEBHOOK_EDITOR: ['webhooks.view', 'webhooks.manage'],
+  CLIENT: [],
+};
@@ -0,0 +1,42 @@
+/**
+ * React Query cache keys. Mutations invalidate by the first segment, so every
+ * list and detail query of a table starts with the table key.
+ */
+export const queryKeys = {
+  profile: (userId: string | undefined) => ['profile', userId] as const,
+  profiles: ['profiles'] as const,
+  // Auth accounts are listed next to the profiles and change with them
+  authUsers: ['profiles', 'auth'] as const,
+  invitations: ['invitations'] as const,
+  teamInvitations: (clientId: string | undefined) => ['invitations', 'team', clientId] as const,
+  clients: ['clients'] as const,
+  currentClient: (userId: string | undefined) => ['clients', 'current', userId] as const,
+  clientMembers: (clientId: string | undefined) => ['client-members', clientId] as const,
+  webhooks: ['webhooks'] as const,
+  webhookList: (scope: string | undefined) => ['webhooks', 'list', scope] as const,
+  webhook: (webhookId: string | undefined) => ['webhooks', 'detail', webhookId] as const,
+  webhookOptions: ['webhooks', 'options'] as const,
+  webhookTarget: (webhookId: string | undefined) => ['webhooks', 'target', webhookId] as const,
+  webhookAssignments: ['webhook-assignments'] as const,
+  webhookAssignmentsOf: (webhookId: string | undefined) => ['webhook-assignments', webhookId] as const,
+  executions: ['executions'] as const,
+  executionList: (scope: string | undefined, limit: number) => ['executions', 'list', scope, limit] as const,
+  executionHistories: ['executions', 'history'] as const,
+  executionHistory: (filters: object) => ['executions', 'history', filters] as const,
+  // Statistics change with every execution, so they live under the executions key
+  executionStats: (clientId: string | undefined) => ['executions', 'stats', 'totals', clientId] as const,
+  webhookStats: (clientId: string | undefined) => ['executions', 'stats', 'webhooks', clientId] as const,
+  clientStats: ['executions', 'stats', 'clients'] as const,
+  systemStats: ['executions', 'stats', 'system'] as const,
+  dailyUsage: (days: number, clientId: string | undefined) => ['executions', 'stats', 'daily', days, clientId] as const,
+  webhookLatency: (days: number, clientId: string | undefined) => ['executions', 'stats', 'latency', days, clientId] as const,
+  tokenTransactions: (clientId: string, limit: number) => ['token-transactions', clientId, limit] as const,
+  allTokenTransactions: ['token-transactions'] as const,
+  notifications: (userId: string) => ['notifications', userId] as const,
+  auditLogs: (filters: object) => ['audit-logs', filters] as const,
+  apiTokens: (userId: string | undefined) => ['api-tokens', userId] as const,
+  securitySettings: ['security-settings'] as const,
+  mfaFactors: (userId: string | undefined) => ['mfa-factors', userId] as const,
+  recoveryCodes: (userId: string | undefined) => ['mfa-recovery-codes', userId] as const,
+  sessions: (userId: string | undefined) => ['sessions', userId] as const,
+};
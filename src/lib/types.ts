@@ -0,0 +1,15 @@
+/*
+  Values of text columns that the database guards with check constraints.
+  The generated supabase types only know them as strings.
+*/
+
+export type ExecutionMode = 'SYNC' | 'ASYNC' | 'CALLBACK';
+
+export type ExecutionStatus = 'PENDING' | 'RUNNING' | 'SUCCESS' | 'ERROR' | 'TIMEOUT';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Input and output type of a webhook, also the request type of an execution
+export type IoType = 'TEXT' | 'FILE';
+
+export type TokenTransactionKind = 'GRANT' | 'DEBIT' | 'REFUND' | 'ADJUSTMENT' | 'EXPIRY';
@@ -0,0 +1,40 @@
+import type { ExecutionMode } from "@/lib/types";
+
+export const DEFAULT_RETRY_ON_STATUS = [502, 503, 504];
+
+// Synchronous runs answer within the edge function request, which is cut
+// after 150 seconds, so they need time left over for recording the result
+export const MAX_SYNC_TIMEOUT_MS = 120000;
+export const MAX_TIMEOUT_MS = 300000;
+
+export const getMaxTimeoutMs = (mode: ExecutionMode) =>
+  mode === 'SYNC' ? MAX_SYNC_TIMEOUT_MS : MAX_TIMEOUT_MS;
+
+export const formatStatusCodes = (codes: number[] | null | undefined) =>
+  (codes || []).join(', ');
+
+/**
+ * Parses a comma separated list of HTTP status codes ("502, 503").
+ * Returns null if any entry is not a valid status code.
+ */
+export const parseStatusCodes = (value: string): number[] | null => {
+  const entries = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  const codes = entries.map((entry) => Number(entry));
+
+  if (codes.some((code) => !Number.isInteger(code) || code < 100 || code > 599)) {
+    return null;
+  }
+
+  return Array.from(new Set(codes));
+};
+
+export const getExecutionModeText = (mode: ExecutionMode) => {
+  switch (mode) {
+    case 'ASYNC':
+      return 'Asynchron';
+    case 'CALLBACK':
+      return 'Mit Callback';
+    default:
+      return 'Synchron';
+  }
+};
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useAcceptInvitation } from "@/hooks/useData";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Supabase reports expired or already used links in the URL fragment
+const readLinkError = () => new URLSearchParams(window.location.hash.slice(1)).get('error_description');
+
+const AcceptInvite = () => {
+  const { user, loading, profile, profileLoading } = useAuth();
+  const navigate = useNavigate();
+  const acceptInvitationMutation = useAcceptInvitation();
+  const [password, setPassword] = useState("");
+  const [passwordConfirmation, setPasswordConfirmation] = useState("");
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [linkError] = useState(readLinkError);
+
+  // Invitation already accepted, e.g. when the link is opened twice
+  useEffect(() => {
+    if (profile) navigate('/');
+  }, [profile, navigate]);
+
+  const acceptInvitation = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Passwort zu kurz",
+        description: `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (password !== passwordConfirmation) {
+      toast({
+        title: "Passwörter stimmen nicht überein",
+        description: "Bitte geben Sie zweimal dasselbe Passwort ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      await acceptInvitationMutation.mutateAsync();
+
+      toast({
+        title: "Willkommen",
+        description: "Ihr Konto ist eingerichtet.",
+      });
+      navigate('/');
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast({
+        title: "Einladung konnte nicht angenommen werden",
+        description: error instanceof Error ? error.message : "Bitte wenden Sie sich an Ihren Administrator.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  if (loading || profileLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Einladung annehmen</CardTitle>
+          <CardDescription>
+            {user ? `Legen Sie ein Passwort für ${user.email} fest` : 'Der Einladungslink ist ungültig'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {user ? (
+            <form onSubmit={acceptInvitation} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">Passwort</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password-confirmation">Passwort wiederholen</Label>
+                <Input
+                  id="password-confirmation"
+                  type="password"
+                  value={passwordConfirmation}
+                  onChange={(e) => setPasswordConfirmation(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={savingPassword}>
+                {savingPassword ? "Speichere..." : "Konto einrichten"}
+              </Button>
+            </form>
+          ) : (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">
+                {linkError || "Der Link ist abgelaufen oder wurde bereits verwendet."} Bitten Sie Ihren
+                Administrator um eine neue Einladung.
+              </p>
+              <Button variant="outline" onClick={() => navigate('/auth')}>
+                Zur Anmeldung
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useAuditLogs, useProfiles, type AuditLogFilters } from "@/hooks/useData";
+import { toast } from "@/hooks/use-toast";
+import { Layout } from "@/components/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Eye, Loader2, RefreshCw, X } from "lucide-react";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+type AuditLogEntry = Tables<'audit_logs'>;
+
+// Select items cannot have an empty value
+const ALL = 'all';
+
+// Filters live in the URL so a filtered log can be shared as a link
+const FILTER_PARAMS = {
+  actorId: 'actor',
+  tableName: 'entity',
+  from: 'from',
+  to: 'to',
+} as const satisfies Record<keyof AuditLogFilters, string>;
+
+const ENTITY_LABELS: Record<string, string> = {
+  webhooks: 'Webhooks',
+  webhook_assignments: 'Webhook-Zuweisungen',
+  clients: 'Clients',
+  client_members: 'Client-Mitglieder',
+  profiles: 'Benutzer',
+  users: 'Benutzerkonten',
+  invitations: 'Einladungen',
+  token_transactions: 'Token-Buchungen',
+};
+
+const ACTIONS: Record<string, { label: string; variant: BadgeProps['variant'] }> = {
+  INSERT: { label: 'Erstellt', variant: 'default' },
+  UPDATE: { label: 'Geändert', variant: 'secondary' },
+  DELETE: { label: 'Gelöscht', variant: 'destructive' },
+};
+
+const readFilters = (searchParams: URLSearchParams) => {
+  const filters: Record<string, string> = {};
+  for (const [key, param] of Object.entries(FILTER_PARAMS)) {
+    const value = searchParams.get(param);
+    if (value) filters[key] = value;
+  }
+  return filters as AuditLogFilters;
+};
+
+const toSearchParams = (filters: AuditLogFilters) => {
+  const searchParams = new URLSearchParams();
+  for (const [key, param] of Object.entries(FILTER_PARAMS)) {
+    const value = filters[key as keyof AuditLogFilters];
+    if (value) searchParams.set(param, value);
+  }
+  return searchParams;
+};
+
+const asObject = (data: Json | null) =>
+  data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, Json> : {};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === undefined || value === null) return '–';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Fields of an entry with their values before and after the change. Updates
+ * only list the fields that changed.
+ */
+const getChanges = (entry: AuditLogEntry) => {
+  const oldData = asObject(entry.old_data);
+  const newData = asObject(entry.new_data);
+  const fields = Array.from(new Set([...Object.keys(oldData), ...Object.keys(newData)])).sort();
+
+  return fields
+    .filter((field) => entry.action !== 'UPDATE' || JSON.stringify(oldData[field]) !== JSON.stringify(newData[field]))
+    .map((field) => ({ field, before: oldData[field], after: newData[field] }));
+};
+
+const AuditLog = () => {
+  const { user, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+  const {
+    data,
+    isPending: loading,
+    isFetching,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useAuditLogs(filters);
+  const { data: profiles = [] } = useProfiles();
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const entries = useMemo(() => data?.pages.flat() ?? [], [data]);
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  useEffect(() => {
+    if (!error) return;
+    console.error('Error fetching audit log:', error);
+    toast({
+      title: "Fehler beim Laden des Audit-Logs",
+      description: error.message || "Das Audit-Log konnte nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [error]);
+
+  const updateFilters = (changes: Partial<AuditLogFilters>) => {
+    setSearchParams(toSearchParams({ ...filters, ...changes }), { replace: true });
+  };
+
+  if (!isAdmin && user) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Zugriff verweigert</CardTitle>
+              <CardDescription>
+                Nur Administratoren können das Audit-Log einsehen.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={() => navigate('/')}>
+                Zurück zum Dashboard
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Audit-Log</h1>
+            <p className="text-muted-foreground">Änderungen durch Administratoren und Mitarbeiter an Webhooks, Clients, Benutzern und Tokens</p>
+          </div>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Aktualisieren
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-5">
+              <div className="space-y-1">
+                <Label>Mitarbeiter</Label>
+                <Select
+                  value={filters.actorId ?? ALL}
+                  onValueChange={(value) => updateFilters({ actorId: value === ALL ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Alle Mitarbeiter</SelectItem>
+                    {profiles
+                      .filter((profile) => profile.role !== 'CLIENT')
+                      .map((profile) => (
+                        <SelectItem key={profile.user_id} value={profile.user_id}>
+                          {profile.email}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Bereich</Label>
+                <Select
+                  value={filters.tableName ?? ALL}
+                  onValueChange={(value) => updateFilters({ tableName: value === ALL ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Alle Bereiche</SelectItem>
+                    {Object.entries(ENTITY_LABELS).map(([tableName, label]) => (
+                      <SelectItem key={tableName} value={tableName}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="audit-from">Von</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filters.from ?? ''}
+                  max={filters.to}
+                  onChange={(event) => updateFilters({ from: event.target.value || undefined })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="audit-to">Bis</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filters.to ?? ''}
+                  min={filters.from}
+                  onChange={(event) => updateFilters({ to: event.target.value || undefined })}
+                />
+              </div>
+
+              {hasFilters && (
+                <div className="flex items-end">
+                  <Button variant="ghost" onClick={() => setSearchParams(new URLSearchParams(), { replace: true })}>
+                    <X className="h-4 w-4 mr-2" />
+                    Filter zurücksetzen
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Einträge</CardTitle>
+            <CardDescription>Neueste Änderungen zuerst</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">
+                {hasFilters ? 'Keine Einträge für diese Filter' : 'Noch keine Einträge vorhanden'}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Zeitpunkt</TableHead>
+                      <TableHead>Mitarbeiter</TableHead>
+                      <TableHead>Aktion</TableHead>
+                      <TableHead>Bereich</TableHead>
+                      <TableHead>Datensatz</TableHead>
+                      <TableHead>IP-Adresse</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="text-sm">{new Date(entry.created_at).toLocaleString('de-DE')}</TableCell>
+                        <TableCell className="text-sm">{entry.actor_email ?? entry.user_id ?? '–'}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTIONS[entry.action]?.variant ?? 'outline'}>
+                            {ACTIONS[entry.action]?.label ?? entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{ENTITY_LABELS[entry.table_name] ?? entry.table_name}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.record_id?.slice(0, 8) ?? '–'}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.ip_address ? String(entry.ip_address) : '–'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {hasNextPage && (
+                  <div className="flex justify-center">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Ältere Einträge laden
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+          <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+            {selectedEntry && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>
+                    {ENTITY_LABELS[selectedEntry.table_name] ?? selectedEntry.table_name}:{' '}
+                    {ACTIONS[selectedEntry.action]?.label ?? selectedEntry.action}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {new Date(selectedEntry.created_at).toLocaleString('de-DE')} durch{' '}
+                    {selectedEntry.actor_email ?? selectedEntry.user_id ?? 'unbekannt'}
+                    {selectedEntry.record_id && <>, Datensatz {selectedEntry.record_id}</>}
+                  </DialogDescription>
+                </DialogHeader>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Feld</TableHead>
+                      <TableHead>Vorher</TableHead>
+                      <TableHead>Nachher</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {getChanges(selectedEntry).map(({ field, before, after }) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">{field}</TableCell>
+                        <TableCell className="font-mono text-xs break-all">{formatValue(before)}</TableCell>
+                        <TableCell className="font-mono text-xs break-all">{formatValue(after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default AuditLog;
@@ -1,32 +1,54 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
+import { invokeFunction } from "@/lib/edge-functions";
 import { User, Session } from '@supabase/supabase-js';
+import { MailWarning, ShieldCheck } from "lucide-react";
 
 const Auth = () => {
   const [loading, setLoading] = useState(false);
   const [forgotPasswordLoading, setForgotPasswordLoading] = useState(false);
   const [forgotPasswordOpen, setForgotPasswordOpen] = useState(false);
   const [resetEmail, setResetEmail] = useState("");
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
+  const [resendLoading, setResendLoading] = useState(false);
+  const [mfaStep, setMfaStep] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const navigate = useNavigate();
 
+  // Continues to the app unless the account still needs its second factor
+  const completeSignIn = useCallback(async (session: Session | null) => {
+    if (!session) return;
+
+    const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (data?.nextLevel === 'aal2' && data.currentLevel !== 'aal2') {
+      setMfaStep(true);
+      return;
+    }
+
+    navigate('/');
+  }, [navigate]);
+
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        
-        if (session?.user) {
-          navigate('/');
+
+        // The second factor step navigates by itself. Deferred because
+        // supabase calls inside the listener can deadlock.
+        if (event !== 'TOKEN_REFRESHED' && event !== 'MFA_CHALLENGE_VERIFIED') {
+          setTimeout(() => completeSignIn(session), 0);
         }
       }
     );
@@ -35,20 +57,27 @@ const Auth = () => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      
-      if (session?.user) {
-        navigate('/');
-      }
+      completeSignIn(session);
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate]);
+  }, [completeSignIn]);
+
+  const cancelMfa = async () => {
+    await supabase.auth.signOut();
+    setMfaStep(false);
+  };
 
   const handleSignIn = async (email: string, password: string) => {
     setLoading(true);
+    setUnconfirmedEmail(null);
     const { error } = await supabase.auth.signInWithPassword({ email, password });
-    
-    if (error) {
+
+    // Users who may skip the confirmation are confirmed by the database when
+    // the flag is set, Auth turns everyone else away until they confirm
+    if (error?.code === 'email_not_confirmed') {
+      setUnconfirmedEmail(email);
+    } else if (error) {
       toast({
         title: "Anmeldung fehlgeschlagen",
         description: error.message,
@@ -58,6 +87,34 @@ const Auth = () => {
     setLoading(false);
   };
 
+  const handleResendConfirmation = async () => {
+    if (!unconfirmedEmail) return;
+
+    setResendLoading(true);
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email: unconfirmedEmail,
+        options: { emailRedirectTo: `${window.location.origin}/auth` },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "E-Mail gesendet",
+        description: `Wir haben den Bestätigungslink erneut an ${unconfirmedEmail} gesendet.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: error instanceof Error ? error.message : "Die E-Mail konnte nicht gesendet werden.",
+        variant: "destructive",
+      });
+    } finally {
+      setResendLoading(false);
+    }
+  };
+
   const handleForgotPassword = async () => {
     if (!resetEmail.trim()) {
       toast({
@@ -83,10 +140,10 @@ const Auth = () => {
 
       setForgotPasswordOpen(false);
       setResetEmail("");
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Fehler",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Die E-Mail konnte nicht gesendet werden.",
         variant: "destructive",
       });
     } finally {
@@ -102,57 +159,198 @@ const Auth = () => {
           <CardDescription>Melden Sie sich mit Ihrem Konto an</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            <AuthForm onSubmit={handleSignIn} loading={loading} />
-            
-            <div className="text-center">
-              <Dialog open={forgotPasswordOpen} onOpenChange={setForgotPasswordOpen}>
-                <DialogTrigger asChild>
-                  <Button variant="link" className="text-sm">
-                    Passwort vergessen?
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Passwort zurücksetzen</DialogTitle>
-                    <DialogDescription>
-                      Geben Sie Ihre E-Mail-Adresse ein und wir senden Ihnen einen Link zum Zurücksetzen Ihres Passworts.
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="reset-email">E-Mail-Adresse</Label>
-                      <Input
-                        id="reset-email"
-                        type="email"
-                        value={resetEmail}
-                        onChange={(e) => setResetEmail(e.target.value)}
-                        placeholder="name@example.com"
-                      />
-                    </div>
-                  </div>
-                  <DialogFooter>
-                    <Button variant="outline" onClick={() => setForgotPasswordOpen(false)}>
-                      Abbrechen
+          {mfaStep ? (
+            <MfaChallenge
+              onVerified={() => navigate('/')}
+              onRecovered={() => navigate('/settings')}
+              onCancel={cancelMfa}
+            />
+          ) : (
+            <div className="space-y-4">
+              {unconfirmedEmail && (
+                <Alert>
+                  <MailWarning className="h-4 w-4" />
+                  <AlertTitle>E-Mail-Adresse nicht bestätigt</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>
+                      Bitte bestätigen Sie zuerst Ihre E-Mail-Adresse über den Link, den wir an {unconfirmedEmail} gesendet
+                      haben. Danach können Sie sich anmelden.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={handleResendConfirmation} disabled={resendLoading}>
+                      {resendLoading ? "Sende..." : "Bestätigungs-E-Mail erneut senden"}
                     </Button>
-                    <Button onClick={handleForgotPassword} disabled={forgotPasswordLoading}>
-                      {forgotPasswordLoading ? "Sende..." : "Link senden"}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <AuthForm onSubmit={handleSignIn} loading={loading} />
+            
+              <div className="text-center">
+                <Dialog open={forgotPasswordOpen} onOpenChange={setForgotPasswordOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="link" className="text-sm">
+                      Passwort vergessen?
                     </Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
-            </div>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Passwort zurücksetzen</DialogTitle>
+                      <DialogDescription>
+                        Geben Sie Ihre E-Mail-Adresse ein und wir senden Ihnen einen Link zum Zurücksetzen Ihres Passworts.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="reset-email">E-Mail-Adresse</Label>
+                        <Input
+                          id="reset-email"
+                          type="email"
+                          value={resetEmail}
+                          onChange={(e) => setResetEmail(e.target.value)}
+                          placeholder="name@example.com"
+                        />
+                      </div>
+                    </div>
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setForgotPasswordOpen(false)}>
+                        Abbrechen
+                      </Button>
+                      <Button onClick={handleForgotPassword} disabled={forgotPasswordLoading}>
+                        {forgotPasswordLoading ? "Sende..." : "Link senden"}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </div>
             
-            <div className="text-center text-sm text-muted-foreground">
-              Kein Konto? Kontaktieren Sie Ihren Administrator.
+              <div className="text-center text-sm text-muted-foreground">
+                Kein Konto? Kontaktieren Sie Ihren Administrator.
+              </div>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
   );
 };
 
+interface MfaChallengeProps {
+  onVerified: () => void;
+  onRecovered: () => void;
+  onCancel: () => void;
+}
+
+const MfaChallenge = ({ onVerified, onRecovered, onCancel }: MfaChallengeProps) => {
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const verifyCode = async (value = code) => {
+    if (value.length !== 6) return;
+
+    setLoading(true);
+    try {
+      const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+      if (factorsError) throw factorsError;
+
+      const factor = factors.totp[0];
+      if (!factor) throw new Error("Keine Authenticator-App eingerichtet");
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code: value });
+      if (error) throw error;
+
+      onVerified();
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Code ungültig",
+        description: error instanceof Error ? error.message : "Bitte versuchen Sie es erneut.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const redeemRecoveryCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      await invokeFunction('mfa-recovery', { code: recoveryCode });
+      // The new session no longer lists the removed authenticator
+      const { error } = await supabase.auth.refreshSession();
+      if (error) throw error;
+
+      toast({
+        title: "Angemeldet mit Wiederherstellungscode",
+        description: "Ihre Authenticator-App wurde entfernt. Bitte richten Sie die Zwei-Faktor-Authentifizierung neu ein.",
+      });
+      onRecovered();
+    } catch (error) {
+      toast({
+        title: "Anmeldung fehlgeschlagen",
+        description: error instanceof Error ? error.message : "Der Wiederherstellungscode ist ungültig.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <ShieldCheck className="h-4 w-4" />
+        {useRecoveryCode
+          ? "Geben Sie einen Ihrer Wiederherstellungscodes ein."
+          : "Geben Sie den Code aus Ihrer Authenticator-App ein."}
+      </div>
+
+      {useRecoveryCode ? (
+        <form onSubmit={redeemRecoveryCode} className="space-y-4">
+          <Input
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            placeholder="xxxxx-xxxxx"
+            className="font-mono"
+            autoComplete="one-time-code"
+            required
+          />
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Prüfe..." : "Anmelden"}
+          </Button>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={verifyCode} disabled={loading}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <Button className="w-full" onClick={() => verifyCode()} disabled={loading || code.length !== 6}>
+            {loading ? "Prüfe..." : "Bestätigen"}
+          </Button>
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="link" className="px-0 text-sm" onClick={() => setUseRecoveryCode(!useRecoveryCode)}>
+          {useRecoveryCode ? "Authenticator-App verwenden" : "Wiederherstellungscode verwenden"}
+        </Button>
+        <Button variant="link" className="px-0 text-sm" onClick={onCancel}>
+          Abbrechen
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 interface AuthFormProps {
   onSubmit: (email: string, password: string) => void;
   loading: boolean;
@@ -1,80 +1,69 @@
-import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import type { LucideIcon } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import {
+  useClientStats,
+  useCurrentClient,
+  useExecutionStats,
+  useExecutions,
+  useSystemStats,
+  useWebhooks,
+  useWebhookStats,
+} from "@/hooks/useData";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Globe, Activity, Clock, Coins, Play } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Globe, Activity, Coins, Play, CheckCircle2, Users as UsersIcon, CalendarDays } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { TokenStatement } from "@/components/TokenStatement";
+import { UsageCharts } from "@/components/UsageCharts";
 
-interface DashboardStats {
-  totalWebhooks: number;
-  activeWebhooks: number;
-  totalExecutions: number;
-  recentExecutions: any[];
-  tokensBalance: number;
+const formatNumber = (value: number | null | undefined) => (value ?? 0).toLocaleString('de-DE');
+
+const formatDuration = (ms: number | null | undefined) => {
+  if (ms === null || ms === undefined) return '–';
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toLocaleString('de-DE', { maximumFractionDigits: 1 })} s`;
+};
+
+// Share of successful runs among finished ones
+const formatSuccessRate = (successful: number, finished: number) =>
+  finished > 0 ? `${Math.round((successful / finished) * 100)} %` : '–';
+
+interface StatCardProps {
+  title: string;
+  icon: LucideIcon;
+  value: string;
+  description: string;
 }
 
+const StatCard = ({ title, icon: Icon, value, description }: StatCardProps) => (
+  <Card>
+    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+      <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      <Icon className="h-4 w-4 text-muted-foreground" />
+    </CardHeader>
+    <CardContent>
+      <div className="text-2xl font-bold">{value}</div>
+      <p className="text-xs text-muted-foreground">{description}</p>
+    </CardContent>
+  </Card>
+);
+
 const Dashboard = () => {
-  const { user, isAdmin } = useAuth();
+  const { can } = useAuth();
+  // Support sees the system overview as well, the other staff roles their own client
+  const seesAll = can('executions.view');
   const navigate = useNavigate();
-  const [stats, setStats] = useState<DashboardStats>({
-    totalWebhooks: 0,
-    activeWebhooks: 0,
-    totalExecutions: 0,
-    recentExecutions: [],
-    tokensBalance: 0,
-  });
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (user) {
-      fetchDashboardData();
-    }
-  }, [user]);
-
-  const fetchDashboardData = async () => {
-    if (!user) return;
-
-    try {
-      // Get client data
-      const { data: clientData } = await supabase
-        .from('clients')
-        .select('id, tokens_balance')
-        .eq('user_id', user.id)
-        .single();
-
-      if (!clientData) return;
-
-      // Get webhooks count
-      const { data: webhooks } = await supabase
-        .from('webhooks')
-        .select('id, is_active')
-        .eq('client_id', clientData.id);
-
-      // Get executions count and recent executions
-      const { data: executions } = await supabase
-        .from('executions')
-        .select('id, status, requested_at, webhook_id, tokens_used')
-        .eq('client_id', clientData.id)
-        .order('requested_at', { ascending: false })
-        .limit(5);
-
-      setStats({
-        totalWebhooks: webhooks?.length || 0,
-        activeWebhooks: webhooks?.filter(w => w.is_active).length || 0,
-        totalExecutions: executions?.length || 0,
-        recentExecutions: executions || [],
-        tokensBalance: clientData.tokens_balance,
-      });
-    } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: client, isPending: clientLoading } = useCurrentClient();
+  const { data: executionStats, isPending: statsLoading } = useExecutionStats();
+  const { data: webhooks = [] } = useWebhooks();
+  const { data: webhookStats = [] } = useWebhookStats();
+  const { data: systemStats } = useSystemStats();
+  const { data: clientStats = [] } = useClientStats();
+  const { data: recentExecutions = [] } = useExecutions({ limit: 5 });
 
-  if (loading) {
+  if (clientLoading || statsLoading) {
     return (
       <div className="flex items-center justify-center h-96">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
@@ -82,68 +71,166 @@ const Dashboard = () => {
     );
   }
 
+  const totals = {
+    total: executionStats?.total_executions ?? 0,
+    successful: executionStats?.successful_executions ?? 0,
+    failed: executionStats?.failed_executions ?? 0,
+    thisMonth: executionStats?.executions_this_month ?? 0,
+    tokensSpent: executionStats?.tokens_spent_this_month ?? 0,
+  };
+
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
-        <p className="text-muted-foreground">Überblick über Ihre Webhook-Aktivitäten</p>
+        <p className="text-muted-foreground">
+          {seesAll ? "Überblick über das gesamte System" : "Überblick über Ihre Webhook-Aktivitäten"}
+        </p>
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Token-Guthaben</CardTitle>
-            <Coins className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{stats.tokensBalance}</div>
-            <p className="text-xs text-muted-foreground">Verfügbare Ausführungen</p>
-          </CardContent>
-        </Card>
+      {seesAll ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <StatCard
+            title="Benutzer"
+            icon={UsersIcon}
+            value={formatNumber(systemStats?.total_users)}
+            description={`${formatNumber(systemStats?.active_clients)} von ${formatNumber(systemStats?.total_clients)} Clients aktiv`}
+          />
+          <StatCard
+            title="Webhooks"
+            icon={Globe}
+            value={formatNumber(systemStats?.total_webhooks)}
+            description={`${formatNumber(systemStats?.active_webhooks)} aktiv`}
+          />
+          <StatCard
+            title="Ausführungen heute"
+            icon={CalendarDays}
+            value={formatNumber(systemStats?.executions_today)}
+            description={`${formatNumber(systemStats?.executions_this_month)} in diesem Monat, ${formatNumber(systemStats?.open_executions)} laufen`}
+          />
+          <StatCard
+            title="Tokens in diesem Monat"
+            icon={Coins}
+            value={formatNumber(systemStats?.tokens_spent_this_month)}
+            description={`${formatNumber(systemStats?.tokens_granted_this_month)} vergeben, ${formatNumber(systemStats?.tokens_outstanding)} Guthaben offen`}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <StatCard
+            title="Token-Guthaben"
+            icon={Coins}
+            value={formatNumber(client?.tokens_balance)}
+            description={`${formatNumber(totals.tokensSpent)} in diesem Monat verbraucht`}
+          />
+          <StatCard
+            title="Webhooks"
+            icon={Globe}
+            value={formatNumber(webhooks.length)}
+            description={`${formatNumber(webhooks.filter((webhook) => webhook.is_active).length)} aktiv`}
+          />
+          <StatCard
+            title="Ausführungen"
+            icon={Activity}
+            value={formatNumber(totals.total)}
+            description={`Gesamt ausgeführt, ${formatNumber(totals.thisMonth)} in diesem Monat`}
+          />
+          <StatCard
+            title="Erfolgsquote"
+            icon={CheckCircle2}
+            value={formatSuccessRate(totals.successful, totals.successful + totals.failed)}
+            description={`Ø Laufzeit ${formatDuration(executionStats?.avg_duration_ms)}`}
+          />
+        </div>
+      )}
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Webhooks</CardTitle>
-            <Globe className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{stats.totalWebhooks}</div>
-            <p className="text-xs text-muted-foreground">
-              {stats.activeWebhooks} aktiv
-            </p>
-          </CardContent>
-        </Card>
+      {/* Usage Trends */}
+      <UsageCharts seesAllClients={seesAll} />
 
+      {/* Usage per Client */}
+      {seesAll && (
         <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Ausführungen</CardTitle>
-            <Activity className="h-4 w-4 text-muted-foreground" />
+          <CardHeader>
+            <CardTitle>Nutzung pro Client</CardTitle>
+            <CardDescription>Ausführungen und verbrauchte Tokens im laufenden Monat</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalExecutions}</div>
-            <p className="text-xs text-muted-foreground">Gesamt ausgeführt</p>
+            {clientStats.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">
+                Noch keine Clients vorhanden
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead className="text-right">Ausführungen</TableHead>
+                    <TableHead className="text-right">Erfolgsquote</TableHead>
+                    <TableHead className="text-right">Tokens verbraucht</TableHead>
+                    <TableHead className="text-right">Guthaben</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {clientStats.map((row) => (
+                    <TableRow key={row.client_id}>
+                      <TableCell className="font-medium">{row.client_name}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.executions_this_month)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatSuccessRate(row.successful_executions_this_month, row.executions_this_month)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(row.tokens_spent_this_month)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.tokens_balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </CardContent>
         </Card>
+      )}
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Letzte Aktivität</CardTitle>
-            <Clock className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {stats.recentExecutions.length > 0 ? 'Aktiv' : 'Keine'}
-            </div>
-            <p className="text-xs text-muted-foreground">
-              {stats.recentExecutions.length > 0 
-                ? `${stats.recentExecutions.length} kürzlich`
-                : 'Ausführungen'
-              }
+      {/* Latency per Webhook */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhooks im Vergleich</CardTitle>
+          <CardDescription>Ausführungen, Erfolgsquote und durchschnittliche Laufzeit erfolgreicher Ausführungen</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {webhookStats.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              Noch keine Webhooks vorhanden
             </p>
-          </CardContent>
-        </Card>
-      </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Webhook</TableHead>
+                  <TableHead className="text-right">Ausführungen</TableHead>
+                  <TableHead className="text-right">Erfolgsquote</TableHead>
+                  <TableHead className="text-right">Ø Laufzeit</TableHead>
+                  <TableHead className="text-right">Zuletzt ausgeführt</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhookStats.map((row) => (
+                  <TableRow key={row.webhook_id}>
+                    <TableCell className="font-medium">{row.webhook_name}</TableCell>
+                    <TableCell className="text-right">{formatNumber(row.total_executions)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatSuccessRate(row.successful_executions, row.total_executions)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatDuration(row.avg_duration_ms)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {row.last_execution_at ? new Date(row.last_execution_at).toLocaleString('de-DE') : '–'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
 
       {/* Quick Actions */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -153,16 +240,16 @@ const Dashboard = () => {
             <CardDescription>Häufige Aufgaben mit einem Klick</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Button 
-              className="w-full justify-start" 
+            <Button
+              className="w-full justify-start"
               onClick={() => navigate('/webhooks/new')}
-             style={{ display: isAdmin ? 'flex' : 'none' }}
+             style={{ display: can('webhooks.manage') ? 'flex' : 'none' }}
             >
               <Globe className="mr-2 h-4 w-4" />
               Neuen Webhook erstellen
             </Button>
-            <Button 
-              variant="outline" 
+            <Button
+              variant="outline"
               className="w-full justify-start"
               onClick={() => navigate('/history')}
             >
@@ -179,18 +266,20 @@ const Dashboard = () => {
             <CardDescription>Die 5 neuesten Webhook-Ausführungen</CardDescription>
           </CardHeader>
           <CardContent>
-            {stats.recentExecutions.length === 0 ? (
+            {recentExecutions.length === 0 ? (
               <p className="text-muted-foreground text-center py-4">
                 Noch keine Ausführungen vorhanden
               </p>
             ) : (
               <div className="space-y-3">
-                {stats.recentExecutions.map((execution) => (
+                {recentExecutions.map((execution) => (
                   <div key={execution.id} className="flex items-center justify-between p-3 border rounded-lg">
                     <div className="flex items-center gap-3">
                       <Play className="h-4 w-4 text-muted-foreground" />
                       <div>
-                        <p className="text-sm font-medium">Webhook #{execution.webhook_id.slice(0, 8)}</p>
+                        <p className="text-sm font-medium">
+                          {execution.webhooks?.name ?? `Webhook #${execution.webhook_id.slice(0, 8)}`}
+                        </p>
                         <p className="text-xs text-muted-foreground">
                           {new Date(execution.requested_at).toLocaleString('de-DE')}
                         </p>
@@ -206,8 +295,21 @@ const Dashboard = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Token Statement */}
+      {!seesAll && client && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Token-Kontoauszug</CardTitle>
+            <CardDescription>Gutschriften, Verbrauch und Korrekturen Ihres Token-Guthabens</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TokenStatement clientId={client.id} limit={20} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
@@ -1,43 +1,56 @@
 import { useEffect, useState, useRef } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useCurrentClient, useExecuteWebhook, useWebhook } from "@/hooks/useData";
 import { toast } from "@/hooks/use-toast";
+import { isExecutionOpen, useExecutionProgress } from "@/hooks/useExecutionProgress";
+import { getExecutionModeText } from "@/lib/webhook-settings";
+import { fetchExecutionFile, saveBlob } from "@/lib/execution-files";
+import { parseInputSchema, toExecutionBody, validateInputValues, type InputValues } from "@/lib/input-schema";
 import { Layout } from "@/components/Layout";
+import { InputSchemaForm } from "@/components/InputSchema";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, Play, Download, FileText, Upload, Coins, Globe, History } from "lucide-react";
-
-interface Webhook {
-  id: string;
-  name: string;
-  description: string | null;
-  url: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  headers: any;
-  input_type: 'TEXT' | 'FILE';
-  output_type: 'TEXT' | 'FILE';
-  is_active: boolean;
-  tokens_cost: number;
-  created_at: string;
-  client_id: string;
+import { ArrowLeft, Play, Download, FileText, Upload, Coins, Globe, History, Timer, Loader2 } from "lucide-react";
+
+// Async webhooks only answer with queued, execution_id and status
+interface ExecutionResult {
+  queued: boolean;
+  success: boolean;
+  status: 'PENDING' | 'SUCCESS' | 'ERROR' | 'TIMEOUT';
+  execution_id: string | null;
+  status_code: number | null;
+  duration_ms: number;
+  response: string | null;
+  file: {
+    name: string;
+    contentType: string;
+    base64: string;
+  } | null;
+  error: string | null;
+  tokens_used: number;
+  tokens_balance: number | null;
 }
 
 const ExecuteWebhook = () => {
   const { webhookId } = useParams<{ webhookId: string }>();
-  const { user, isAdmin } = useAuth();
+  const { user, isAdmin, can } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const [webhook, setWebhook] = useState<Webhook | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [executing, setExecuting] = useState(false);
+  const { data: webhook, isPending: loading, error: webhookError } = useWebhook(webhookId);
+  const { data: client } = useCurrentClient();
+  const tokensBalance = client?.tokens_balance ?? 0;
+  const executeMutation = useExecuteWebhook<ExecutionResult>();
   const [textInput, setTextInput] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fieldValues, setFieldValues] = useState<InputValues>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [result, setResult] = useState<{
     success: boolean;
     response?: string;
@@ -45,99 +58,56 @@ const ExecuteWebhook = () => {
     downloadBlob?: Blob;
     fileName?: string;
   } | null>(null);
-  const [tokensBalance, setTokensBalance] = useState<number>(0);
+  const [now, setNow] = useState(Date.now());
 
-  useEffect(() => {
-    if (user && webhookId) {
-      fetchWebhook();
-      if (!isAdmin) {
-        fetchTokenBalance();
-      }
-    }
-  }, [user, webhookId, isAdmin]);
-
-  const fetchWebhook = async () => {
-    if (!user || !webhookId) return;
-
-    setLoading(true);
-    try {
-      if (isAdmin) {
-        // Admin can access any webhook
-        const { data: webhookData, error } = await supabase
-          .from('webhooks')
-          .select('*')
-          .eq('id', webhookId)
-          .single();
-
-        if (error) {
-          console.error('Admin webhook error:', error);
-          throw error;
-        }
-
-        setWebhook(webhookData);
-      } else {
-        // Get client data first for regular users  
-        const { data: clientData, error: clientError } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
-
-        if (clientError) {
-          console.error('Client data error:', clientError);
-          throw clientError;
-        }
-
-        if (!clientData) {
-          console.log('No client data found for user:', user.id);
-          setWebhook(null);
-          return;
-        }
-
-        // Get webhook for this client
-        const { data: webhookData, error: webhookError } = await supabase
-          .from('webhooks')
-          .select('*')
-          .eq('id', webhookId)
-          .eq('client_id', clientData.id)
-          .single();
-
-        if (webhookError) {
-          console.error('Client webhook error:', webhookError);
-          throw webhookError;
-        }
+  // Queued executions are tracked via ?execution=<id> so a reload resumes tracking
+  const trackedExecutionId = searchParams.get('execution');
+  const { execution: trackedExecution } = useExecutionProgress(trackedExecutionId);
+  const trackedStatusRef = useRef<string | null>(null);
+  const trackedExecutionOpen = !!trackedExecution && isExecutionOpen(trackedExecution.status);
+  const inputFields = parseInputSchema(webhook?.input_schema);
 
-        setWebhook(webhookData);
-      }
-    } catch (error) {
-      console.error('Error fetching webhook:', error);
-      toast({
-        title: "Fehler beim Laden des Webhooks",
-        description: (error && typeof error.message === 'string') ? error.message : "Der Webhook konnte nicht geladen werden.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (!webhookError) return;
+    console.error('Error fetching webhook:', webhookError);
+    toast({
+      title: "Fehler beim Laden des Webhooks",
+      description: webhookError.message || "Der Webhook konnte nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [webhookError]);
+
+  // Runs on every update of the execution, the ref handles each status change once
+  useEffect(() => {
+    if (!trackedExecution) return;
+
+    const previousStatus = trackedStatusRef.current;
+    trackedStatusRef.current = trackedExecution.status;
+    if (isExecutionOpen(trackedExecution.status) || previousStatus === trackedExecution.status) return;
+
+    if (trackedExecution.status === 'SUCCESS' && trackedExecution.output_file_path) {
+      const fileName = trackedExecution.output_file_name || 'download';
+      fetchExecutionFile(trackedExecution.output_file_path, trackedExecution.output_file_type)
+        .then((downloadBlob) => setResult({ success: true, downloadBlob, fileName }))
+        .catch((error) => {
+          console.error('Error fetching output file:', error);
+          setResult({ success: true, response: `Die Datei ${fileName} kann in der Historie heruntergeladen werden.` });
+        });
+    } else if (trackedExecution.status === 'SUCCESS') {
+      setResult({ success: true, response: trackedExecution.response });
+    } else {
+      setResult({ success: false, error: trackedExecution.error || 'Unbekannter Fehler' });
     }
-  };
 
-  const fetchTokenBalance = async () => {
-    if (!user) return;
+    // The completion toast comes from the notification (see NotificationBell),
+    // the token balance is refreshed by useExecutionProgress
+  }, [trackedExecution]);
 
-    try {
-      const { data: clientData } = await supabase
-        .from('clients')
-        .select('tokens_balance')
-        .eq('user_id', user.id)
-        .single();
-      
-      if (clientData) {
-        setTokensBalance(clientData.tokens_balance);
-      }
-    } catch (error) {
-      console.error('Error fetching token balance:', error);
-    }
-  };
+  useEffect(() => {
+    if (!trackedExecutionOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [trackedExecutionOpen]);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -160,16 +130,25 @@ const ExecuteWebhook = () => {
     }
 
     // Validate input
-    if (webhook.input_type === 'TEXT' && !textInput.trim()) {
+    if (inputFields.length) {
+      const errors = validateInputValues(inputFields, fieldValues);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length) {
+        toast({
+          title: "Eingaben unvollständig",
+          description: "Bitte prüfen Sie die markierten Felder.",
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (webhook.input_type === 'TEXT' && !textInput.trim()) {
       toast({
         title: "Text erforderlich",
         description: "Bitte geben Sie einen Text ein.",
         variant: "destructive",
       });
       return;
-    }
-
-    if (webhook.input_type === 'FILE' && !selectedFile) {
+    } else if (webhook.input_type === 'FILE' && !selectedFile) {
       toast({
         title: "Datei erforderlich",
         description: "Bitte wählen Sie eine Datei aus.",
@@ -178,179 +157,74 @@ const ExecuteWebhook = () => {
       return;
     }
 
-    setExecuting(true);
     setResult(null);
 
     try {
-      // Get client data for non-admin users
-      let clientId = null;
-      if (!isAdmin) {
-        const { data: clientData } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
-        clientId = clientData?.id;
-      }
-
-      // Prepare the request
-      const formData = new FormData();
-      let payload: any = {};
+      // The request to the target URL is made by the execute-webhook function,
+      // which also records the execution and charges the tokens
+      let body: FormData | Record<string, unknown>;
+      if (inputFields.length) {
+        body = toExecutionBody(webhook.id, inputFields, fieldValues);
+      } else {
+        const formData = new FormData();
+        formData.append('webhook_id', webhook.id);
 
-      if (webhook.input_type === 'TEXT') {
-        formData.append('text', textInput);
-        payload = { text: textInput };
-      } else if (webhook.input_type === 'FILE' && selectedFile) {
-        formData.append('file', selectedFile);
-        payload = { fileName: selectedFile.name, fileSize: selectedFile.size };
+        if (webhook.input_type === 'TEXT') {
+          formData.append('text', textInput);
+        } else if (webhook.input_type === 'FILE' && selectedFile) {
+          formData.append('file', selectedFile);
+        }
+        body = formData;
       }
 
-      // Add headers
-      const headers: Record<string, string> = {};
-      if (webhook.headers && typeof webhook.headers === 'object') {
-        Object.assign(headers, webhook.headers);
-      }
+      const execution = await executeMutation.mutateAsync(body);
 
-      // Execute the webhook
-      const startTime = Date.now();
-      let response: Response;
-      
-      if (webhook.method === 'GET') {
-        const url = new URL(webhook.url);
-        if (webhook.input_type === 'TEXT' && textInput) {
-          url.searchParams.append('text', textInput);
-        }
-        response = await fetch(url.toString(), {
-          method: 'GET',
-          headers
-        });
-      } else {
-        response = await fetch(webhook.url, {
-          method: webhook.method,
-          headers,
-          body: formData
+      if (execution.queued) {
+        setSearchParams({ execution: execution.execution_id });
+
+        toast({
+          title: "Ausführung gestartet",
+          description: "Der Webhook wird im Hintergrund ausgeführt. Sie können diese Seite verlassen, das Ergebnis erscheint in der Historie.",
         });
+        return;
       }
 
-      const endTime = Date.now();
-      const duration = endTime - startTime;
-
-      let responseData: string | null = null;
-      let downloadBlob: Blob | null = null;
-      let fileName = 'download';
-
-      if (response.ok) {
-        if (webhook.output_type === 'FILE') {
-          // Handle binary response
-          downloadBlob = await response.blob();
-          
-          // Try to get filename from headers
-          const contentDisposition = response.headers.get('content-disposition');
-          if (contentDisposition) {
-            const fileNameMatch = contentDisposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
-            if (fileNameMatch) {
-              fileName = fileNameMatch[1].replace(/['"]/g, '');
-            }
-          }
-          
-          // Use original filename if available
-          if (selectedFile) {
-            fileName = selectedFile.name;
-          }
-        } else {
-          // Handle text response
-          responseData = await response.text();
-        }
-
-        // Record successful execution
-        if (!isAdmin && clientId) {
-          try {
-            const { error: executionError } = await supabase
-              .from('executions')
-              .insert({
-                webhook_id: webhook.id,
-                client_id: clientId,
-                status: 'SUCCESS',
-                duration_ms: duration,
-                tokens_used: webhook.tokens_cost,
-                request_type: webhook.input_type,
-                status_code: response.status,
-                response: webhook.output_type === 'FILE' ? null : responseData,
-                payload: JSON.stringify(payload)
-              });
-
-            if (executionError) {
-              console.error('Error recording execution:', executionError);
-            }
-
-            // Deduct tokens on successful execution
-            const { error: tokenError } = await supabase
-              .from('clients')
-              .update({ 
-                tokens_balance: tokensBalance - webhook.tokens_cost 
-              })
-              .eq('id', clientId);
-
-            if (tokenError) {
-              console.error('Error deducting tokens:', tokenError);
-            } else {
-              setTokensBalance(prev => prev - webhook.tokens_cost);
-            }
-          } catch (recordError) {
-            console.error('Error recording execution:', recordError);
-          }
-        }
-
+      if (!execution.success) {
+        const errorMessage = execution.error || 'Unbekannter Fehler';
         setResult({
-          success: true,
-          response: responseData,
-          downloadBlob: downloadBlob || undefined,
-          fileName
+          success: false,
+          error: errorMessage
         });
 
         toast({
-          title: "Webhook erfolgreich ausgeführt",
-          description: !isAdmin ? `${webhook.tokens_cost} Token${webhook.tokens_cost !== 1 ? 's' : ''} verwendet` : "Ausführung erfolgreich",
+          title: execution.status === 'TIMEOUT' ? "Zeitüberschreitung" : "Webhook-Ausführung fehlgeschlagen",
+          description: !isAdmin ? `${errorMessage} Es wurden keine Tokens berechnet.` : errorMessage,
+          variant: "destructive",
         });
-      } else {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+        return;
+      }
+
+      let downloadBlob: Blob | undefined;
+      if (execution.file) {
+        const bytes = Uint8Array.from(atob(execution.file.base64), (char) => char.charCodeAt(0));
+        downloadBlob = new Blob([bytes], { type: execution.file.contentType });
       }
+
+      setResult({
+        success: true,
+        response: execution.response,
+        downloadBlob,
+        fileName: execution.file?.name || 'download'
+      });
+
+      toast({
+        title: "Webhook erfolgreich ausgeführt",
+        description: !isAdmin ? `${execution.tokens_used} Token${execution.tokens_used !== 1 ? 's' : ''} verwendet` : "Ausführung erfolgreich",
+      });
     } catch (error) {
       console.error('Webhook execution error:', error);
       
       const errorMessage = (error && typeof error.message === 'string') ? error.message : "Unbekannter Fehler";
-      
-      // Record failed execution (no token deduction)
-      if (!isAdmin) {
-        try {
-          const { data: clientData } = await supabase
-            .from('clients')
-            .select('id')
-            .eq('user_id', user.id)
-            .single();
-
-          if (clientData) {
-            const { error: executionError } = await supabase
-              .from('executions')
-              .insert({
-                webhook_id: webhook.id,
-                client_id: clientData.id,
-                status: 'ERROR',
-                tokens_used: 0, // No tokens used on failure
-                request_type: webhook.input_type,
-                error: errorMessage.length > 1000 ? errorMessage.substring(0, 1000) + '...' : errorMessage,
-                payload: JSON.stringify(payload)
-              });
-
-            if (executionError) {
-              console.error('Error recording failed execution:', executionError);
-            }
-          }
-        } catch (recordError) {
-          console.error('Error recording failed execution:', recordError);
-        }
-      }
 
       setResult({
         success: false,
@@ -362,8 +236,6 @@ const ExecuteWebhook = () => {
         description: errorMessage,
         variant: "destructive",
       });
-    } finally {
-      setExecuting(false);
     }
   };
 
@@ -371,16 +243,7 @@ const ExecuteWebhook = () => {
     if (!result?.downloadBlob) return;
 
     try {
-      const url = URL.createObjectURL(result.downloadBlob);
-
-      // Create download link
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = result.fileName || 'download';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      saveBlob(result.downloadBlob, result.fileName || 'download');
 
       toast({
         title: "Download gestartet",
@@ -396,7 +259,11 @@ const ExecuteWebhook = () => {
     }
   };
 
+  const executing = executeMutation.isPending;
   const hasInsufficientTokens = !isAdmin && webhook && tokensBalance < webhook.tokens_cost;
+  const isViewer = !isAdmin && client?.member_role === 'viewer';
+  // Staff can open every webhook, but only admins run those of other clients
+  const ofOtherClient = !isAdmin && can('webhooks.view') && webhook && webhook.client_id !== client?.id;
 
   if (loading) {
     return (
@@ -468,7 +335,7 @@ const ExecuteWebhook = () => {
             )}
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
               <div>
                 <Label className="text-sm font-medium">HTTP Methode</Label>
                 <Badge variant="outline" className="mt-1">{webhook.method}</Badge>
@@ -481,6 +348,12 @@ const ExecuteWebhook = () => {
                 <Label className="text-sm font-medium">Output Typ</Label>
                 <Badge variant="outline" className="mt-1">{webhook.output_type}</Badge>
               </div>
+              <div>
+                <Label className="text-sm font-medium">Ausführung</Label>
+                <Badge variant="outline" className="mt-1">
+                  {getExecutionModeText(webhook.execution_mode)}
+                </Badge>
+              </div>
               <div>
                 <Label className="text-sm font-medium">Token-Kosten</Label>
                 <div className="flex items-center gap-1 mt-1">
@@ -488,6 +361,13 @@ const ExecuteWebhook = () => {
                   <span className="text-sm">{webhook.tokens_cost}</span>
                 </div>
               </div>
+              <div>
+                <Label className="text-sm font-medium">Timeout</Label>
+                <div className="flex items-center gap-1 mt-1">
+                  <Timer className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm">{webhook.timeout_ms / 1000} s</span>
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -531,14 +411,26 @@ const ExecuteWebhook = () => {
           <CardHeader>
             <CardTitle>Webhook ausführen</CardTitle>
             <CardDescription>
-              {webhook.input_type === 'TEXT' 
-                ? 'Geben Sie den Text ein, der an den Webhook gesendet werden soll'
-                : 'Wählen Sie eine Datei aus, die an den Webhook gesendet werden soll'
+              {inputFields.length
+                ? 'Füllen Sie die Felder aus, die an den Webhook gesendet werden sollen'
+                : webhook.input_type === 'TEXT' 
+                  ? 'Geben Sie den Text ein, der an den Webhook gesendet werden soll'
+                  : 'Wählen Sie eine Datei aus, die an den Webhook gesendet werden soll'
               }
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {webhook.input_type === 'TEXT' ? (
+            {inputFields.length ? (
+              <InputSchemaForm
+                fields={inputFields}
+                values={fieldValues}
+                errors={fieldErrors}
+                onChange={(name, value) => {
+                  setFieldValues(prev => ({ ...prev, [name]: value }));
+                  setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+                }}
+              />
+            ) : webhook.input_type === 'TEXT' ? (
               <div>
                 <Label htmlFor="text-input">Text eingeben</Label>
                 <Textarea
@@ -580,7 +472,7 @@ const ExecuteWebhook = () => {
 
             <Button 
               onClick={executeWebhook} 
-              disabled={executing || !webhook.is_active || hasInsufficientTokens}
+              disabled={executing || !webhook.is_active || hasInsufficientTokens || isViewer || ofOtherClient}
               className="w-full"
             >
               {executing ? (
@@ -601,9 +493,45 @@ const ExecuteWebhook = () => {
                 Nicht genügend Tokens für die Ausführung
               </p>
             )}
+
+            {isViewer && (
+              <p className="text-sm text-center text-muted-foreground">
+                Als Betrachter können Sie Webhooks nicht ausführen
+              </p>
+            )}
+
+            {ofOtherClient && (
+              <p className="text-sm text-center text-muted-foreground">
+                Webhooks anderer Clients können nur Administratoren ausführen
+              </p>
+            )}
           </CardContent>
         </Card>
 
+        {/* Queued / Running Execution */}
+        {trackedExecution && trackedExecutionOpen && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                {trackedExecution.status === 'PENDING'
+                  ? 'In Warteschlange'
+                  : webhook.execution_mode === 'CALLBACK' ? 'Wartet auf Rückmeldung' : 'Wird ausgeführt'}
+              </CardTitle>
+              <CardDescription>
+                Gestartet am {new Date(trackedExecution.requested_at).toLocaleString('de-DE')} · 
+                seit {Math.max(0, Math.round((now - new Date(trackedExecution.requested_at).getTime()) / 1000))} s
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Die Ausführung läuft auf dem Server weiter, auch wenn Sie diese Seite schließen. 
+                Das Ergebnis finden Sie anschließend hier oder in der Historie.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Results */}
         {result && (
           <Card>
@@ -1,123 +1,128 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { toExecution, toExecutionSearchArgs, useClientMembers, useExecutionHistory, type Execution, type ExecutionFilters } from "@/hooks/useData";
 import { toast } from "@/hooks/use-toast";
 import { Layout } from "@/components/Layout";
+import { ExecutionFilterBar } from "@/components/ExecutionFilterBar";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Eye, RefreshCw, Download } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Eye, RefreshCw, Download, Loader2, FileSpreadsheet } from "lucide-react";
+import { isExecutionOpen } from "@/hooks/useExecutionProgress";
+import { fetchExecutionFile, saveBlob } from "@/lib/execution-files";
+import { invokeFunction } from "@/lib/edge-functions";
+import { queryKeys } from "@/lib/query-keys";
+import type { Tables } from "@/integrations/supabase/types";
 
-interface Execution {
-  id: string;
-  webhook_id: string;
-  client_id: string;
-  status: 'SUCCESS' | 'ERROR' | 'TIMEOUT';
-  requested_at: string;
-  duration_ms: number | null;
-  tokens_used: number;
-  request_type: 'TEXT' | 'FILE';
-  status_code: number | null;
-  response: string | null;
-  error: string | null;
-  payload: string | null;
-  webhooks: {
-    name: string;
-  };
-}
-
-const History = () => {
-  const { user, isAdmin } = useAuth();
-  const [executions, setExecutions] = useState<Execution[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedExecution, setSelectedExecution] = useState<Execution | null>(null);
-  const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
+// Control characters other than the whitespace ones (tab to carriage return) only occur in binary data
+const isBinaryCharCode = (code: number) =>
+  code <= 0x08 || (code >= 0x0e && code <= 0x1f) || (code >= 0x7f && code <= 0x9f);
 
-  useEffect(() => {
-    if (user) {
-      fetchExecutions();
-    }
-  }, [user]);
+const hasBinaryCharacters = (text: string) =>
+  Array.from(text).some((char) => isBinaryCharCode(char.charCodeAt(0)));
 
-  const fetchExecutions = async () => {
-    if (!user) return;
+// Filters live in the URL so a filtered history can be shared as a link
+const FILTER_PARAMS = {
+  webhookId: 'webhook',
+  status: 'status',
+  requestType: 'type',
+  clientId: 'client',
+  startedBy: 'member',
+  from: 'from',
+  to: 'to',
+  search: 'q',
+} as const satisfies Record<keyof ExecutionFilters, string>;
 
-    setLoading(true);
-    try {
-      if (isAdmin) {
-        // Admin can see all executions
-        const { data: executionsData, error } = await supabase
-          .from('executions')
-          .select(`
-            *,
-            webhooks (
-              name
-            )
-          `)
-          .order('requested_at', { ascending: false })
-          .limit(50);
+const readFilters = (searchParams: URLSearchParams) => {
+  const filters: Record<string, string> = {};
+  for (const [key, param] of Object.entries(FILTER_PARAMS)) {
+    const value = searchParams.get(param);
+    if (value) filters[key] = value;
+  }
+  return filters as ExecutionFilters;
+};
 
-        if (error) {
-          console.error('Admin executions error:', error);
-          throw error;
-        }
+const toSearchParams = (filters: ExecutionFilters) => {
+  const searchParams = new URLSearchParams();
+  for (const [key, param] of Object.entries(FILTER_PARAMS)) {
+    const value = filters[key as keyof ExecutionFilters];
+    if (value) searchParams.set(param, value);
+  }
+  return searchParams;
+};
 
-        setExecutions(executionsData || []);
-      } else {
-        // Get client data first for regular users
-        const { data: clientData, error: clientError } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
+const History = () => {
+  const { user, can } = useAuth();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+  // Only client owners get the members, to see who started a run
+  const { data: members = [] } = useClientMembers();
+  const {
+    data,
+    isPending: loading,
+    isFetching,
+    error,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useExecutionHistory(filters);
+  const executions = useMemo(() => data?.pages.flat() ?? [], [data]);
+  const hasFilters = Object.keys(filters).length > 0;
+  const [exporting, setExporting] = useState(false);
+  const [selectedExecutionId, setSelectedExecutionId] = useState<string | null>(null);
+  const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
 
-        if (clientError) {
-          console.error('Client data error:', clientError);
-          throw clientError;
-        }
+  // Read from the list so live updates reach the open details dialog as well
+  const selectedExecution = executions.find((execution) => execution.id === selectedExecutionId) ?? null;
 
-        if (!clientData) {
-          console.log('No client data found for user:', user.id);
-          setExecutions([]);
-          return;
-        }
+  useEffect(() => {
+    if (!error) return;
+    console.error('Error fetching executions:', error);
+    toast({
+      title: "Fehler beim Laden der Historie",
+      description: error.message || "Die Ausführungshistorie konnte nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [error]);
 
-        // Get executions with webhook names for this client
-        const { data: executionsData, error: executionsError } = await supabase
-          .from('executions')
-          .select(`
-            *,
-            webhooks (
-              name
-            )
-          `)
-          .eq('client_id', clientData.id)
-          .order('requested_at', { ascending: false })
-          .limit(50);
+  // Keep queued and running executions up to date without reloading the list
+  useEffect(() => {
+    if (!user) return;
 
-        if (executionsError) {
-          console.error('Client executions error:', executionsError);
-          throw executionsError;
+    const channel = supabase
+      .channel('history-executions')
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'executions' },
+        (payload) => {
+          const updated = payload.new as Tables<'executions'>;
+          queryClient.setQueriesData<InfiniteData<Execution[]>>({ queryKey: queryKeys.executionHistories }, (current) =>
+            current && {
+              ...current,
+              pages: current.pages.map((page) => page.map((execution) =>
+                execution.id === updated.id ? toExecution({ ...updated, webhooks: execution.webhooks }) : execution
+              )),
+            }
+          );
         }
+      )
+      .subscribe();
 
-        console.log('Found executions for client:', executionsData?.length || 0);
-        setExecutions(executionsData || []);
-      }
-    } catch (error) {
-      console.error('Error fetching executions:', error);
-      toast({
-        title: "Fehler beim Laden der Historie",
-        description: error?.message || "Die Ausführungshistorie konnte nicht geladen werden.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string): BadgeProps['variant'] => {
     switch (status) {
       case 'SUCCESS':
         return 'default';
@@ -138,67 +143,33 @@ const History = () => {
         return 'Fehler';
       case 'TIMEOUT':
         return 'Timeout';
+      case 'PENDING':
+        return 'In Warteschlange';
+      case 'RUNNING':
+        return 'Läuft';
       default:
         return status;
     }
   };
 
   const showExecutionDetails = (execution: Execution) => {
-    setSelectedExecution(execution);
+    setSelectedExecutionId(execution.id);
     setDetailsDialogOpen(true);
   };
 
-  const downloadBinaryResponse = (execution: Execution) => {
-    if (!execution.response) return;
-    
+  const downloadFile = async (execution: Execution, kind: 'input' | 'output') => {
+    const path = kind === 'input' ? execution.input_file_path : execution.output_file_path;
+    const fileName = (kind === 'input' ? execution.input_file_name : execution.output_file_name) || 'download';
+    const contentType = kind === 'input' ? execution.input_file_type : execution.output_file_type;
+    if (!path) return;
+
     try {
-      // Try to parse the response to get the actual binary data
-      let binaryData = execution.response;
-      
-      // If it's JSON wrapped, try to extract
-      try {
-        const parsed = JSON.parse(execution.response);
-        if (typeof parsed === 'string') {
-          binaryData = parsed;
-        }
-      } catch {
-        // Use response as is
-      }
-      
-      // Convert the binary string to a Blob
-      const bytes = new Uint8Array(binaryData.length);
-      for (let i = 0; i < binaryData.length; i++) {
-        bytes[i] = binaryData.charCodeAt(i);
-      }
-      
-      const blob = new Blob([bytes], { type: 'application/octet-stream' });
-      const url = URL.createObjectURL(blob);
-      
-      // Get filename from payload if available
-      let filename = 'download';
-      if (execution.payload) {
-        try {
-          const payload = JSON.parse(execution.payload);
-          if (payload.fileName) {
-            filename = payload.fileName;
-          }
-        } catch {
-          // Use default filename
-        }
-      }
-      
-      // Create download link
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
+      const blob = await fetchExecutionFile(path, contentType);
+      saveBlob(blob, fileName);
+
       toast({
         title: "Download gestartet",
-        description: `Datei ${filename} wird heruntergeladen.`,
+        description: `Datei ${fileName} wird heruntergeladen.`,
       });
     } catch (error) {
       console.error('Download error:', error);
@@ -209,6 +180,32 @@ const History = () => {
       });
     }
   };
+
+  // The export-executions function reads all matching executions, not only the loaded pages
+  const exportExecutions = async (format: 'csv' | 'xlsx') => {
+    setExporting(true);
+    try {
+      const file = await invokeFunction<Blob>('export-executions', {
+        format,
+        filters: toExecutionSearchArgs(filters),
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      const type = format === 'csv'
+        ? 'text/csv;charset=utf-8'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+      saveBlob(new Blob([file], { type }), `ausfuehrungen-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: "Export fehlgeschlagen",
+        description: error instanceof Error ? error.message : "Die Ausführungen konnten nicht exportiert werden.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const formatResponse = (response: string | null) => {
     if (!response) return 'Keine Antwort';
     
@@ -218,18 +215,13 @@ const History = () => {
       return JSON.stringify(parsed, null, 2);
     } catch {
       // If not JSON, check if it's binary data
-      if (response.includes('\\u0000') || response.includes('��') || /[\x00-\x08\x0E-\x1F\x7F-\x9F]/.test(response)) {
+      if (response.includes('\\u0000') || response.includes('��') || hasBinaryCharacters(response)) {
         return '[Binäre Datei empfangen - Inhalt kann nicht angezeigt werden]';
       }
       return response;
     }
   };
 
-  const isResponseBinary = (response: string | null) => {
-    if (!response) return false;
-    return response.includes('\\u0000') || response.includes('��') || /[\x00-\x08\x0E-\x1F\x7F-\x9F]/.test(response);
-  };
-
   return (
     <Layout>
       <div className="space-y-6">
@@ -238,12 +230,35 @@ const History = () => {
           <h1 className="text-3xl font-bold tracking-tight">Ausführungshistorie</h1>
           <p className="text-muted-foreground">Übersicht über alle Webhook-Ausführungen</p>
           </div>
-          <Button onClick={fetchExecutions} disabled={loading}>
-            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-            Aktualisieren
-          </Button>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={exporting}>
+                  {exporting
+                    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    : <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  }
+                  Exportieren
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportExecutions('csv')}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportExecutions('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Aktualisieren
+            </Button>
+          </div>
         </div>
 
+        <ExecutionFilterBar
+          filters={filters}
+          onChange={(next) => setSearchParams(toSearchParams(next), { replace: true })}
+          seesAllClients={can('executions.view')}
+        />
+
         {loading ? (
           <div className="flex items-center justify-center h-96">
             <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
@@ -253,7 +268,10 @@ const History = () => {
             <CardHeader>
               <CardTitle>Keine Ausführungen</CardTitle>
               <CardDescription>
-                Es wurden noch keine Webhooks ausgeführt.
+                {hasFilters
+                  ? "Keine Ausführungen entsprechen den gewählten Filtern."
+                  : "Es wurden noch keine Webhooks ausgeführt."
+                }
               </CardDescription>
             </CardHeader>
           </Card>
@@ -265,8 +283,9 @@ const History = () => {
                   <div className="flex items-center justify-between">
                     <div className="space-y-2">
                       <div className="flex items-center gap-3">
-                        <h3 className="font-semibold">{execution.webhooks.name}</h3>
-                        <Badge variant={getStatusColor(execution.status) as any}>
+                        <h3 className="font-semibold">{execution.webhooks?.name}</h3>
+                        <Badge variant={getStatusColor(execution.status)} className="gap-1">
+                          {isExecutionOpen(execution.status) && <Loader2 className="h-3 w-3 animate-spin" />}
                           {getStatusText(execution.status)}
                         </Badge>
                         {execution.status_code && (
@@ -287,6 +306,11 @@ const History = () => {
                           <span>{execution.duration_ms}ms</span>
                         )}
                         <span>{execution.tokens_used} Token verwendet</span>
+                        {members.length > 1 && execution.started_by && (
+                          <span>
+                            von {members.find((member) => member.user_id === execution.started_by)?.email ?? 'ehemaligem Mitglied'}
+                          </span>
+                        )}
                       </div>
                     </div>
                     
@@ -299,11 +323,11 @@ const History = () => {
                         <Eye className="h-4 w-4 mr-2" />
                         Details
                       </Button>
-                      {execution.status === 'SUCCESS' && isResponseBinary(execution.response) && (
+                      {execution.status === 'SUCCESS' && execution.output_file_path && (
                         <Button 
                           variant="outline" 
                           size="sm"
-                          onClick={() => downloadBinaryResponse(execution)}
+                          onClick={() => downloadFile(execution, 'output')}
                         >
                           <Download className="h-4 w-4 mr-2" />
                           Download
@@ -326,6 +350,15 @@ const History = () => {
                 </CardContent>
               </Card>
             ))}
+
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Ältere Ausführungen laden
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -346,7 +379,7 @@ const History = () => {
                   <div>
                     <Label className="text-sm font-medium">Status</Label>
                     <div className="mt-1">
-                      <Badge variant={getStatusColor(selectedExecution.status) as any}>
+                      <Badge variant={getStatusColor(selectedExecution.status)}>
                         {getStatusText(selectedExecution.status)}
                       </Badge>
                     </div>
@@ -382,21 +415,79 @@ const History = () => {
                         {JSON.stringify(JSON.parse(selectedExecution.payload), null, 2)}
                       </pre>
                     )}
+                    {selectedExecution.input_file_path && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => downloadFile(selectedExecution, 'input')}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Eingabedatei herunterladen ({selectedExecution.input_file_name})
+                      </Button>
+                    )}
                   </div>
                 </div>
 
+                {/* Attempts */}
+                {selectedExecution.attempts?.length > 0 && (
+                  <div>
+                    <Label className="text-sm font-medium">
+                      Versuche ({selectedExecution.attempts.length})
+                    </Label>
+                    <div className="mt-2 border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>#</TableHead>
+                            <TableHead>Zeitpunkt</TableHead>
+                            <TableHead>Status-Code</TableHead>
+                            <TableHead>Dauer</TableHead>
+                            <TableHead>Fehler</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {selectedExecution.attempts.map((attempt) => (
+                            <TableRow key={attempt.attempt}>
+                              <TableCell>{attempt.attempt}</TableCell>
+                              <TableCell className="whitespace-nowrap">
+                                {new Date(attempt.started_at).toLocaleTimeString('de-DE')}
+                              </TableCell>
+                              <TableCell>
+                                {attempt.status_code ? (
+                                  <Badge variant={attempt.status_code < 400 ? "outline" : "destructive"}>
+                                    HTTP {attempt.status_code}
+                                  </Badge>
+                                ) : '-'}
+                              </TableCell>
+                              <TableCell>{attempt.duration_ms}ms</TableCell>
+                              <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                                {attempt.error || '-'}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+
                 {/* Response */}
                 <div>
                   <Label className="text-sm font-medium">Antwort</Label>
                   <div className="mt-2 p-3 bg-muted rounded-lg">
-                    {isResponseBinary(selectedExecution.response) ? (
+                    {selectedExecution.output_file_path ? (
                       <div className="text-center py-4">
                         <div className="text-muted-foreground mb-2">
-                          📁 Binäre Datei empfangen
+                          📁 Datei empfangen
                         </div>
-                        <p className="text-xs text-muted-foreground">
-                          Der Webhook hat eine Datei zurückgegeben. Der Inhalt kann nicht als Text angezeigt werden.
+                        <p className="text-xs text-muted-foreground mb-3">
+                          {selectedExecution.output_file_name} ({selectedExecution.output_file_type})
                         </p>
+                        <Button variant="outline" size="sm" onClick={() => downloadFile(selectedExecution, 'output')}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Herunterladen
+                        </Button>
                       </div>
                     ) : (
                       <pre className="text-xs overflow-auto max-h-96">
@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useCreateWebhook, useProfiles } from "@/hooks/useData";
 import { toast } from "@/hooks/use-toast";
 import { Layout } from "@/components/Layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,8 +10,12 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { InputSchemaEditor } from "@/components/InputSchema";
 import { ArrowLeft } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { DEFAULT_RETRY_ON_STATUS, formatStatusCodes, getMaxTimeoutMs, parseStatusCodes } from "@/lib/webhook-settings";
+import type { ExecutionMode } from "@/lib/types";
+import { cleanInputSchema, inputTypeOf, validateInputSchema, type InputField } from "@/lib/input-schema";
 
 interface User {
   user_id: string;
@@ -22,11 +26,10 @@ interface User {
 }
 
 const NewWebhook = () => {
-  const { user, isAdmin } = useAuth();
+  const { can } = useAuth();
   const navigate = useNavigate();
-  const [users, setUsers] = useState<User[]>([]);
-  const [usersLoading, setUsersLoading] = useState(true);
-  const [isCreating, setIsCreating] = useState(false);
+  const { data: profiles = [], isPending: usersLoading, error: usersError } = useProfiles();
+  const createWebhookMutation = useCreateWebhook();
   const [form, setForm] = useState({
     name: '',
     description: '',
@@ -34,20 +37,44 @@ const NewWebhook = () => {
     method: 'POST' as 'GET' | 'POST' | 'PUT' | 'DELETE',
     headers: '{}',
     input_type: 'TEXT' as 'TEXT' | 'FILE',
+    input_fields: [] as InputField[],
     output_type: 'TEXT' as 'TEXT' | 'FILE',
     tokens_cost: 1,
+    timeout_ms: 30000,
+    retry_max_attempts: 1,
+    retry_backoff_ms: 1000,
+    retry_on_status: formatStatusCodes(DEFAULT_RETRY_ON_STATUS),
+    execution_mode: 'SYNC' as ExecutionMode,
+    callback_timeout_minutes: 60,
     is_active: true,
     selected_user_id: ''
   });
 
   useEffect(() => {
-    if (user && isAdmin) {
-      fetchUsers();
-    }
-  }, [user, isAdmin]);
+    if (!usersError) return;
+    console.error('Error fetching users:', usersError);
+    toast({
+      title: "Fehler beim Laden der Benutzer",
+      description: "Die Benutzerliste konnte nicht geladen werden.",
+      variant: "destructive"
+    });
+  }, [usersError]);
+
+  // Only clients with a client record can own webhooks
+  const users: User[] = profiles
+    .filter(profile => profile.role === 'CLIENT')
+    .map(profile => ({
+      user_id: profile.user_id,
+      email: profile.email,
+      role: profile.role,
+      client_id: profile.clients?.[0]?.id,
+      client_name: profile.clients?.[0]?.name || profile.email.split('@')[0]
+    }))
+    .filter(user => user.client_id)
+    .sort((a, b) => a.email.localeCompare(b.email));
 
-  // Redirect non-admin users
-  if (!isAdmin) {
+  // Only admins and webhook editors create webhooks
+  if (!can('webhooks.manage')) {
     return (
       <Layout>
         <div className="flex items-center justify-center h-96">
@@ -66,59 +93,56 @@ const NewWebhook = () => {
     );
   }
 
-  const fetchUsers = async () => {
-    setUsersLoading(true);
-    try {
-      // Get all users with their client information
-      const { data: usersData, error } = await supabase
-        .from('profiles')
-        .select(`
-          user_id,
-          email,
-          role,
-          clients (
-            id,
-            name
-          )
-        `)
-        .eq('role', 'CLIENT')
-        .order('email');
+  const createWebhook = async () => {
+    if (!form.name.trim() || !form.url.trim() || !form.selected_user_id.trim()) {
+      toast({
+        title: "Felder erforderlich",
+        description: "Name, URL und Benutzer sind erforderlich.",
+        variant: "destructive"
+      });
+      return;
+    }
 
-      if (error) throw error;
+    const maxTimeout = getMaxTimeoutMs(form.execution_mode);
+    if (form.timeout_ms < 1000 || form.timeout_ms > maxTimeout) {
+      toast({
+        title: "Ungültiger Timeout",
+        description: `Der Timeout muss zwischen 1.000 und ${maxTimeout.toLocaleString('de-DE')} ms liegen.`,
+        variant: "destructive"
+      });
+      return;
+    }
 
-      // Format users with client info
-      const formattedUsers = (usersData || []).map(user => ({
-        user_id: user.user_id,
-        email: user.email,
-        role: user.role,
-        client_id: (user.clients as any)?.[0]?.id,
-        client_name: (user.clients as any)?.[0]?.name || user.email.split('@')[0]
-      })).filter(user => user.client_id); // Only users with client records
+    const retryOnStatus = parseStatusCodes(form.retry_on_status);
+    if (!retryOnStatus) {
+      toast({
+        title: "Ungültige Status-Codes",
+        description: "Bitte geben Sie HTTP-Status-Codes durch Komma getrennt ein, z.B. 502, 503.",
+        variant: "destructive"
+      });
+      return;
+    }
 
-      setUsers(formattedUsers);
-    } catch (error) {
-      console.error('Error fetching users:', error);
+    if (form.callback_timeout_minutes < 1 || form.callback_timeout_minutes > 1440) {
       toast({
-        title: "Fehler beim Laden der Benutzer",
-        description: "Die Benutzerliste konnte nicht geladen werden.",
+        title: "Ungültige Callback-Frist",
+        description: "Die Frist für den Callback muss zwischen 1 und 1.440 Minuten liegen.",
         variant: "destructive"
       });
-    } finally {
-      setUsersLoading(false);
+      return;
     }
-  };
 
-  const createWebhook = async () => {
-    if (!form.name.trim() || !form.url.trim() || !form.selected_user_id.trim()) {
+    const inputFields = cleanInputSchema(form.input_fields);
+    const inputFieldsError = validateInputSchema(inputFields);
+    if (inputFieldsError) {
       toast({
-        title: "Felder erforderlich",
-        description: "Name, URL und Benutzer sind erforderlich.",
+        title: "Ungültige Eingabefelder",
+        description: inputFieldsError,
         variant: "destructive"
       });
       return;
     }
 
-    setIsCreating(true);
     try {
       // Validate headers JSON
       try {
@@ -133,22 +157,25 @@ const NewWebhook = () => {
         throw new Error('Ausgewählter Benutzer hat keinen Client-Datensatz.');
       }
 
-      const { error } = await supabase
-        .from('webhooks')
-        .insert({
-          name: form.name.trim(),
-          description: form.description.trim() || null,
-          url: form.url.trim(),
-          method: form.method,
-          headers: JSON.parse(form.headers),
-          input_type: form.input_type,
-          output_type: form.output_type,
-          tokens_cost: form.tokens_cost,
-          is_active: form.is_active,
-          client_id: selectedUser.client_id
-        });
-
-      if (error) throw error;
+      await createWebhookMutation.mutateAsync({
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        url: form.url.trim(),
+        method: form.method,
+        headers: JSON.parse(form.headers),
+        input_type: inputFields.length ? inputTypeOf(inputFields) : form.input_type,
+        input_schema: inputFields.length ? inputFields : null,
+        output_type: form.output_type,
+        tokens_cost: form.tokens_cost,
+        timeout_ms: form.timeout_ms,
+        retry_max_attempts: form.retry_max_attempts,
+        retry_backoff_ms: form.retry_backoff_ms,
+        retry_on_status: retryOnStatus,
+        execution_mode: form.execution_mode,
+        callback_timeout_ms: form.callback_timeout_minutes * 60000,
+        is_active: form.is_active,
+        client_id: selectedUser.client_id
+      });
 
       toast({
         title: "Webhook erstellt",
@@ -163,8 +190,6 @@ const NewWebhook = () => {
         description: (error && typeof error.message === 'string') ? error.message : "Der Webhook konnte nicht erstellt werden.",
         variant: "destructive"
       });
-    } finally {
-      setIsCreating(false);
     }
   };
 
@@ -271,8 +296,9 @@ const NewWebhook = () => {
               <div>
                 <Label>Input-Typ</Label>
                 <Select 
-                  value={form.input_type} 
+                  value={form.input_fields.length ? inputTypeOf(form.input_fields) : form.input_type} 
                   onValueChange={(value: 'TEXT' | 'FILE') => setForm(prev => ({ ...prev, input_type: value }))}
+                  disabled={form.input_fields.length > 0}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -300,17 +326,129 @@ const NewWebhook = () => {
               </div>
             </div>
 
-            <div>
-              <Label htmlFor="tokens">Token-Kosten</Label>
-              <Input
-                id="tokens"
-                type="number"
-                min="1"
-                value={form.tokens_cost}
-                onChange={(e) => setForm(prev => ({ ...prev, tokens_cost: parseInt(e.target.value) || 1 }))}
+            <div className="space-y-2">
+              <Label>Eingabefelder</Label>
+              <InputSchemaEditor
+                fields={form.input_fields}
+                onChange={(fields) => setForm(prev => ({ ...prev, input_fields: fields }))}
+                idPrefix="new"
               />
+              <p className="text-xs text-muted-foreground">
+                Mit Eingabefeldern füllen Benutzer vor der Ausführung ein Formular aus; der Input-Typ ergibt sich dann 
+                aus den Feldern. Die Werte werden als JSON gesendet, mit Dateifeldern als multipart/form-data und bei GET als Query-Parameter.
+              </p>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="tokens">Token-Kosten</Label>
+                <Input
+                  id="tokens"
+                  type="number"
+                  min="1"
+                  value={form.tokens_cost}
+                  onChange={(e) => setForm(prev => ({ ...prev, tokens_cost: parseInt(e.target.value) || 1 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="timeout">Timeout (ms)</Label>
+                <Input
+                  id="timeout"
+                  type="number"
+                  min="1000"
+                  max={getMaxTimeoutMs(form.execution_mode)}
+                  step="1000"
+                  value={form.timeout_ms}
+                  onChange={(e) => setForm(prev => ({ ...prev, timeout_ms: parseInt(e.target.value) || 30000 }))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Zwischen 1.000 und {getMaxTimeoutMs(form.execution_mode).toLocaleString('de-DE')} ms
+                  {form.execution_mode === 'SYNC' && ', länger nur asynchron'}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Wiederholungen</Label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="retry-attempts" className="text-xs text-muted-foreground">Max. Versuche</Label>
+                  <Input
+                    id="retry-attempts"
+                    type="number"
+                    min="1"
+                    max="5"
+                    value={form.retry_max_attempts}
+                    onChange={(e) => setForm(prev => ({ ...prev, retry_max_attempts: Math.min(5, Math.max(1, parseInt(e.target.value) || 1)) }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="retry-backoff" className="text-xs text-muted-foreground">Wartezeit (ms)</Label>
+                  <Input
+                    id="retry-backoff"
+                    type="number"
+                    min="0"
+                    max="60000"
+                    step="500"
+                    value={form.retry_backoff_ms}
+                    onChange={(e) => setForm(prev => ({ ...prev, retry_backoff_ms: Math.min(60000, Math.max(0, parseInt(e.target.value) || 0)) }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="retry-status" className="text-xs text-muted-foreground">Status-Codes</Label>
+                  <Input
+                    id="retry-status"
+                    value={form.retry_on_status}
+                    onChange={(e) => setForm(prev => ({ ...prev, retry_on_status: e.target.value }))}
+                    placeholder="502, 503, 504"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Bei diesen Status-Codes und bei Verbindungsfehlern wird die Anfrage wiederholt. 
+                Die Wartezeit verdoppelt sich mit jedem weiteren Versuch. 1 Versuch = keine Wiederholung.
+              </p>
+            </div>
+
+            <div>
+              <Label>Ausführungsmodus</Label>
+              <Select 
+                value={form.execution_mode} 
+                onValueChange={(value: ExecutionMode) => setForm(prev => ({ ...prev, execution_mode: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="SYNC">Synchron</SelectItem>
+                  <SelectItem value="ASYNC">Asynchron</SelectItem>
+                  <SelectItem value="CALLBACK">Mit Callback</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Asynchrone Webhooks laufen im Hintergrund weiter, auch wenn der Benutzer die Seite verlässt. 
+                Mit Callback bestätigt der Endpunkt nur den Empfang und sendet das Ergebnis später an die 
+                mitgeschickte Callback-URL (Header X-Callback-Url bzw. Feld callback_url).
+              </p>
+            </div>
+
+            {form.execution_mode === 'CALLBACK' && (
+              <div>
+                <Label htmlFor="callback-timeout">Frist für den Callback (Minuten)</Label>
+                <Input
+                  id="callback-timeout"
+                  type="number"
+                  min="1"
+                  max="1440"
+                  value={form.callback_timeout_minutes}
+                  onChange={(e) => setForm(prev => ({ ...prev, callback_timeout_minutes: parseInt(e.target.value) || 60 }))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Kommt bis dahin kein Ergebnis, wird die Ausführung als Timeout gewertet und die Tokens erstattet.
+                </p>
+              </div>
+            )}
+
             <div>
               <Label htmlFor="headers">HTTP Headers (JSON)</Label>
               <Textarea
@@ -333,8 +471,8 @@ const NewWebhook = () => {
             </div>
 
             <div className="flex gap-4">
-              <Button onClick={createWebhook} disabled={isCreating}>
-                {isCreating ? (
+              <Button onClick={createWebhook} disabled={createWebhookMutation.isPending}>
+                {createWebhookMutation.isPending ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
                     Erstelle...
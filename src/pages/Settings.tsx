@@ -1,7 +1,17 @@
 import { Layout } from "@/components/Layout";
+import { ApiTokens } from "@/components/ApiTokens";
+import { MfaSettings } from "@/components/MfaSettings";
+import { ActiveSessions } from "@/components/ActiveSessions";
+import { AppearanceSettings, EmailSettings, NotificationSettings, PasswordSettings } from "@/components/AccountSettings";
+import { useAuth } from "@/hooks/useAuth";
+import { CLIENT_MEMBER_ROLE_LABELS, useCurrentClient } from "@/hooks/useData";
+import { USER_ROLE_LABELS } from "@/lib/permissions";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
 const Settings = () => {
+  const { user, profile } = useAuth();
+  const { data: client } = useCurrentClient();
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -12,18 +22,118 @@ const Settings = () => {
 
         <Card>
           <CardHeader>
-            <CardTitle>Kontoeinstellungen</CardTitle>
+            <CardTitle>Konto</CardTitle>
+            <CardDescription>Ihre Zugangsdaten und Ihr Token-Guthaben</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <dt className="text-sm text-muted-foreground">E-Mail-Adresse</dt>
+                <dd className="font-medium break-all">{user?.email}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-muted-foreground">Rolle</dt>
+                <dd className="font-medium">
+                  {profile && profile.role !== 'CLIENT'
+                    ? USER_ROLE_LABELS[profile.role]
+                    : client ? CLIENT_MEMBER_ROLE_LABELS[client.member_role] : 'Client'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-muted-foreground">Client</dt>
+                <dd className="font-medium">{client?.name ?? '–'}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-muted-foreground">Token-Guthaben</dt>
+                <dd className="font-medium">{client ? client.tokens_balance.toLocaleString('de-DE') : '–'}</dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Passwort</CardTitle>
+              <CardDescription>Ändern Sie das Passwort für die Anmeldung</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PasswordSettings />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>E-Mail-Adresse</CardTitle>
+              <CardDescription>Die neue Adresse muss per E-Mail bestätigt werden</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmailSettings />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Benachrichtigungen</CardTitle>
+            <CardDescription>Wählen Sie, worüber Sie benachrichtigt werden</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NotificationSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sprache und Darstellung</CardTitle>
+            <CardDescription>Sprache der Benachrichtigungen und Farbschema der Oberfläche</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AppearanceSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Zwei-Faktor-Authentifizierung</CardTitle>
             <CardDescription>
-              Hier können Sie Ihre persönlichen Einstellungen verwalten
+              Zusätzlicher Schutz bei der Anmeldung durch eine Authenticator-App
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-muted-foreground">Wird bald implementiert...</p>
+            <MfaSettings />
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Aktive Sitzungen</CardTitle>
+            <CardDescription>
+              Geräte, auf denen Sie angemeldet sind
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ActiveSessions />
+          </CardContent>
+        </Card>
+
+        {/* API tokens run webhooks on behalf of a client, viewers run nothing */}
+        {client && client.member_role !== 'viewer' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>API-Tokens</CardTitle>
+              <CardDescription>
+                Persönliche Zugangsschlüssel für die programmatische Ausführung Ihrer Webhooks
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ApiTokens />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </Layout>
   );
 };
 
-export default Settings;
\ No newline at end of file
+export default Settings;
@@ -0,0 +1,446 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CLIENT_MEMBER_ROLE_LABELS,
+  useClientMembers,
+  useCurrentClient,
+  useInviteTeamMember,
+  useRemoveClientMember,
+  useRevokeTeamInvitation,
+  useSetClientMemberRole,
+  useTeamInvitations,
+  type ClientMember,
+  type ClientMemberRole,
+} from "@/hooks/useData";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { History, MailPlus, UserMinus } from "lucide-react";
+
+const ROLE_DESCRIPTIONS: Record<ClientMemberRole, string> = {
+  owner: 'Führt Webhooks aus, sieht alle Ausführungen und verwaltet das Team',
+  member: 'Führt Webhooks aus und sieht die eigenen Ausführungen',
+  viewer: 'Sieht Webhooks, Guthaben und alle Ausführungen, führt aber nichts aus',
+};
+
+// Hours until the invitation link can no longer be accepted
+const VALIDITY_OPTIONS = [
+  { value: '1', label: '1 Stunde' },
+  { value: '6', label: '6 Stunden' },
+  { value: '12', label: '12 Stunden' },
+  { value: '24', label: '24 Stunden' },
+];
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString('de-DE') : '–';
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback;
+
+const Team = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: client, isPending: clientLoading } = useCurrentClient();
+  const { data: members = [], isPending: membersLoading, error: membersError } = useClientMembers();
+  const { data: invitations = [] } = useTeamInvitations();
+  const setRoleMutation = useSetClientMemberRole();
+  const removeMemberMutation = useRemoveClientMember();
+  const inviteMutation = useInviteTeamMember();
+  const revokeInvitationMutation = useRevokeTeamInvitation();
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ClientMemberRole>('member');
+  const [validHours, setValidHours] = useState('24');
+  const [memberToRemove, setMemberToRemove] = useState<ClientMember | null>(null);
+  const [invitationToRevoke, setInvitationToRevoke] = useState<Tables<'invitations'> | null>(null);
+
+  const isOwner = client?.member_role === 'owner';
+
+  useEffect(() => {
+    if (!membersError) return;
+    console.error('Error fetching client members:', membersError);
+    toast({
+      title: "Fehler beim Laden des Teams",
+      description: membersError.message || "Die Mitglieder konnten nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [membersError]);
+
+  const openInviteDialog = () => {
+    setEmail('');
+    setRole('member');
+    setValidHours('24');
+    setInviteDialogOpen(true);
+  };
+
+  const invite = async () => {
+    if (!email.trim()) {
+      toast({
+        title: "E-Mail erforderlich",
+        description: "Bitte geben Sie die E-Mail-Adresse Ihres Kollegen ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await inviteMutation.mutateAsync({ email: email.trim(), role, validHours: Number(validHours) });
+      toast({
+        title: "Einladung gesendet",
+        description: `${email.trim()} erhält eine E-Mail mit einem Link zur Kontoeinrichtung.`,
+      });
+      setInviteDialogOpen(false);
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      toast({
+        title: "Fehler beim Einladen",
+        description: errorMessage(error, "Die Einladung konnte nicht gesendet werden."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeRole = async (member: ClientMember, newRole: ClientMemberRole) => {
+    if (!client) return;
+
+    try {
+      await setRoleMutation.mutateAsync({ clientId: client.id, userId: member.user_id, role: newRole });
+      toast({
+        title: "Rolle geändert",
+        description: `${member.email} ist jetzt ${CLIENT_MEMBER_ROLE_LABELS[newRole]}.`,
+      });
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      toast({
+        title: "Fehler",
+        description: errorMessage(error, "Die Rolle konnte nicht geändert werden."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeMember = async () => {
+    if (!client || !memberToRemove) return;
+
+    try {
+      await removeMemberMutation.mutateAsync({ clientId: client.id, userId: memberToRemove.user_id });
+      toast({
+        title: "Mitglied entfernt",
+        description: `${memberToRemove.email} hat keinen Zugriff mehr auf ${client.name}.`,
+      });
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        title: "Fehler",
+        description: errorMessage(error, "Das Mitglied konnte nicht entfernt werden."),
+        variant: "destructive",
+      });
+    } finally {
+      setMemberToRemove(null);
+    }
+  };
+
+  const revokeInvitation = async () => {
+    if (!invitationToRevoke) return;
+
+    try {
+      await revokeInvitationMutation.mutateAsync(invitationToRevoke.id);
+      toast({
+        title: "Einladung widerrufen",
+        description: `Die Einladung an ${invitationToRevoke.email} kann nicht mehr angenommen werden.`,
+      });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Fehler beim Widerrufen",
+        description: errorMessage(error, "Die Einladung konnte nicht widerrufen werden."),
+        variant: "destructive",
+      });
+    } finally {
+      setInvitationToRevoke(null);
+    }
+  };
+
+  if (!clientLoading && !isOwner) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Zugriff verweigert</CardTitle>
+              <CardDescription>
+                Nur Inhaber eines Clients können das Team verwalten.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={() => navigate('/')}>
+                Zurück zum Dashboard
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Team</h1>
+            <p className="text-muted-foreground">
+              Mitglieder von {client?.name}, die Webhooks und das Token-Guthaben teilen
+            </p>
+          </div>
+          <Button onClick={openInviteDialog} disabled={!client}>
+            <MailPlus className="h-4 w-4 mr-2" />
+            Kollegen einladen
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Mitglieder</CardTitle>
+            <CardDescription>
+              Ausführungen und verbrauchte Tokens im laufenden Monat
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {membersLoading ? (
+              <p className="text-sm text-muted-foreground">Lade Mitglieder...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>E-Mail</TableHead>
+                    <TableHead>Rolle</TableHead>
+                    <TableHead>Mitglied seit</TableHead>
+                    <TableHead className="text-right">Ausführungen</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead>Letzte Ausführung</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => {
+                    const isSelf = member.user_id === user?.id;
+
+                    return (
+                      <TableRow key={member.user_id}>
+                        <TableCell className="font-medium">
+                          {member.email ?? member.user_id}
+                          {isSelf && <Badge variant="outline" className="ml-2">Sie</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => changeRole(member, value as ClientMemberRole)}
+                            disabled={isSelf || setRoleMutation.isPending}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(CLIENT_MEMBER_ROLE_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm">{new Date(member.joined_at).toLocaleDateString('de-DE')}</TableCell>
+                        <TableCell className="text-right">{member.executions_this_month.toLocaleString('de-DE')}</TableCell>
+                        <TableCell className="text-right">{member.tokens_spent_this_month.toLocaleString('de-DE')}</TableCell>
+                        <TableCell className="text-sm">{formatDate(member.last_execution_at)}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/history?member=${member.user_id}`)}
+                            >
+                              <History className="h-4 w-4 mr-2" />
+                              Ausführungen
+                            </Button>
+                            {!isSelf && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setMemberToRemove(member)}
+                                aria-label="Mitglied entfernen"
+                              >
+                                <UserMinus className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="mt-4 grid gap-2 text-sm text-muted-foreground md:grid-cols-3">
+              {Object.entries(ROLE_DESCRIPTIONS).map(([value, description]) => (
+                <p key={value}>
+                  <span className="font-medium text-foreground">{CLIENT_MEMBER_ROLE_LABELS[value as ClientMemberRole]}:</span>{' '}
+                  {description}
+                </p>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Offene Einladungen</CardTitle>
+              <CardDescription>
+                Eingeladene Kollegen, die ihr Konto noch nicht eingerichtet haben
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>E-Mail</TableHead>
+                    <TableHead>Rolle</TableHead>
+                    <TableHead>Gültig bis</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => (
+                    <TableRow key={invitation.id}>
+                      <TableCell className="font-medium">{invitation.email}</TableCell>
+                      <TableCell>{CLIENT_MEMBER_ROLE_LABELS[invitation.member_role as ClientMemberRole]}</TableCell>
+                      <TableCell className="text-sm">{formatDate(invitation.expires_at)}</TableCell>
+                      <TableCell>
+                        {new Date(invitation.expires_at) <= new Date()
+                          ? <Badge variant="secondary">Abgelaufen</Badge>
+                          : <Badge variant="outline">Offen</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setInvitationToRevoke(invitation)}>
+                          Widerrufen
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Kollegen einladen</DialogTitle>
+            <DialogDescription>
+              Die eingeladene Person legt über den Link in der E-Mail ein Passwort fest und tritt
+              {client ? ` ${client.name}` : ' Ihrem Client'} bei.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="team-invite-email">E-Mail</Label>
+              <Input
+                id="team-invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="kollege@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-invite-role">Rolle</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as ClientMemberRole)}>
+                <SelectTrigger id="team-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CLIENT_MEMBER_ROLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-invite-validity">Gültigkeit des Links</Label>
+              <Select value={validHours} onValueChange={setValidHours}>
+                <SelectTrigger id="team-invite-validity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VALIDITY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteDialogOpen(false)}>
+              Abbrechen
+            </Button>
+            <Button onClick={invite} disabled={inviteMutation.isPending}>
+              {inviteMutation.isPending ? "Sende..." : "Einladung senden"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mitglied entfernen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {memberToRemove?.email} verliert den Zugriff auf die Webhooks und das Guthaben von
+              {client ? ` ${client.name}` : ' Ihrem Client'}. Die API-Tokens des Mitglieds werden
+              widerrufen, seine bisherigen Ausführungen bleiben erhalten.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={removeMember} disabled={removeMemberMutation.isPending}>
+              Entfernen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!invitationToRevoke} onOpenChange={(open) => !open && setInvitationToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Einladung widerrufen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Der Link in der Einladung an {invitationToRevoke?.email} wird ungültig. Sie können die
+              Adresse später erneut einladen.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={revokeInvitation} disabled={revokeInvitationMutation.isPending}>
+              Widerrufen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default Team;
@@ -1,6 +1,22 @@
 import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import {
+  useAdjustTokens,
+  useAuthUsers,
+  useClients,
+  useCreateUser,
+  useDeleteClient,
+  useDeleteUser,
+  useProfiles,
+  useResetUserMfa,
+  useSecuritySettings,
+  useSetRequireAdminMfa,
+  useSetUserAssignments,
+  useUpdateProfile,
+  useUpdateUserAccount,
+  useWebhookAssignments,
+  useWebhookOptions,
+} from "@/hooks/useData";
 import { toast } from "@/hooks/use-toast";
 import { Layout } from "@/components/Layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,19 +26,26 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Mail, Calendar, Shield, User, Globe, Users as UsersIcon, Settings, Trash2, Coins } from "lucide-react";
+import { Plus, Mail, Calendar, Shield, User, Globe, Users as UsersIcon, Settings, Trash2, Coins, ReceiptText } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { useNavigate } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { TokenStatement } from "@/components/TokenStatement";
+import { InviteUserDialog, PendingInvitations } from "@/components/Invitations";
+import { USER_ROLES, USER_ROLE_DESCRIPTIONS, USER_ROLE_LABELS, type UserRole } from "@/lib/permissions";
 
 interface UserProfile {
   id: string;
   email: string;
-  role: 'ADMIN' | 'CLIENT';
+  role: UserRole;
   created_at: string;
   user_id: string;
+  skip_email_verification: boolean;
   webhooks_count?: number;
   email_confirmed?: boolean;
+  mfa_enabled?: boolean;
 }
 
 interface Client {
@@ -36,20 +59,24 @@ interface Client {
   webhooks_count?: number;
 }
 
-interface Webhook {
-  id: string;
-  name: string;
-  is_active: boolean;
-}
-
 const Users = () => {
-  const { user, isAdmin } = useAuth();
+  const { user, can } = useAuth();
   const navigate = useNavigate();
-  const [users, setUsers] = useState<UserProfile[]>([]);
-  const [clients, setClients] = useState<Client[]>([]);
-  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [clientsLoading, setClientsLoading] = useState(true);
+  const { data: profiles = [], isPending: loading, error: usersError } = useProfiles();
+  const { data: clients = [], isPending: clientsLoading, error: clientsError } = useClients();
+  const { data: webhooks = [] } = useWebhookOptions();
+  const { data: assignments = [] } = useWebhookAssignments();
+  const { data: authUsers } = useAuthUsers();
+  const { data: securitySettings } = useSecuritySettings();
+  const createUserMutation = useCreateUser();
+  const deleteUserMutation = useDeleteUser();
+  const deleteClientMutation = useDeleteClient();
+  const adjustTokensMutation = useAdjustTokens();
+  const updateProfileMutation = useUpdateProfile();
+  const updateUserAccountMutation = useUpdateUserAccount();
+  const setUserAssignmentsMutation = useSetUserAssignments();
+  const setRequireAdminMfaMutation = useSetRequireAdminMfa();
+  const resetUserMfaMutation = useResetUserMfa();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isAssignDialogOpen, setIsAssignDialogOpen] = useState(false);
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
@@ -57,33 +84,60 @@ const Users = () => {
   const [selectedWebhooks, setSelectedWebhooks] = useState<string[]>([]);
   const [newUserEmail, setNewUserEmail] = useState("");
   const [newUserPassword, setNewUserPassword] = useState("");
-  const [newUserRole, setNewUserRole] = useState<'ADMIN' | 'CLIENT'>('CLIENT');
-  const [isCreating, setIsCreating] = useState(false);
-  const [isAssigning, setIsAssigning] = useState(false);
-  const [isUpdatingSettings, setIsUpdatingSettings] = useState(false);
+  const [newUserRole, setNewUserRole] = useState<UserRole>('CLIENT');
+  const [newUserConfirmed, setNewUserConfirmed] = useState(true);
   const [newPassword, setNewPassword] = useState("");
   const [emailConfirmed, setEmailConfirmed] = useState(false);
   const [deleteUserDialogOpen, setDeleteUserDialogOpen] = useState(false);
   const [tokenDialogOpen, setTokenDialogOpen] = useState(false);
-  const [newTokenBalance, setNewTokenBalance] = useState("");
-  const [isDeletingUser, setIsDeletingUser] = useState(false);
-  const [isUpdatingTokens, setIsUpdatingTokens] = useState(false);
+  const [tokenKind, setTokenKind] = useState<'GRANT' | 'ADJUSTMENT' | 'EXPIRY'>('GRANT');
+  const [tokenAmount, setTokenAmount] = useState("");
+  const [tokenReason, setTokenReason] = useState("");
   const [skipEmailVerification, setSkipEmailVerification] = useState(false);
+  const [userRole, setUserRole] = useState<UserRole>('CLIENT');
   const [deleteClientToo, setDeleteClientToo] = useState(false);
   const [deleteClientDialogOpen, setDeleteClientDialogOpen] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-  const [isDeletingClient, setIsDeletingClient] = useState(false);
+  const [statementDialogOpen, setStatementDialogOpen] = useState(false);
+
+  const users: UserProfile[] = profiles.map((profile) => ({
+    ...profile,
+    webhooks_count: assignments.filter((assignment) => assignment.user_id === profile.user_id).length,
+    email_confirmed: Boolean(authUsers?.get(profile.user_id)?.email_confirmed_at),
+    mfa_enabled: authUsers?.get(profile.user_id)?.mfa_enabled ?? false
+  }));
+
+  // Token dialog shows the client of the selected user
+  const tokenClient = selectedUser ? clients.find((client) => client.user_id === selectedUser.user_id) : undefined;
+  const currentTokenBalance = tokenClient?.tokens_balance ?? null;
 
   useEffect(() => {
-    if (user && isAdmin) {
-      fetchUsers();
-      fetchClients();
-      fetchWebhooks();
-    }
-  }, [user, isAdmin]);
+    if (!usersError) return;
+    console.error('Error fetching users:', usersError);
+    toast({
+      title: "Fehler beim Laden der Benutzer",
+      description: usersError.message || "Die Benutzer konnten nicht geladen werden.",
+      variant: "destructive"
+    });
+  }, [usersError]);
 
-  // Don't redirect non-admins, just show access denied message
-  if (!isAdmin && user) {
+  useEffect(() => {
+    if (!clientsError) return;
+    console.error('Error fetching clients:', clientsError);
+    toast({
+      title: "Fehler beim Laden der Clients",
+      description: clientsError.message || "Die Clients konnten nicht geladen werden.",
+      variant: "destructive"
+    });
+  }, [clientsError]);
+
+  // Support reads everything here, billing only books tokens, the rest needs users.manage
+  const canManageUsers = can('users.manage');
+  const canViewUsers = can('users.view');
+  const canManageTokens = can('tokens.manage');
+
+  // Don't redirect other users, just show access denied message
+  if (!canViewUsers && !canManageTokens && user) {
     return (
       <Layout>
         <div className="space-y-6">
@@ -91,7 +145,7 @@ const Users = () => {
             <CardHeader>
               <CardTitle>Zugriff verweigert</CardTitle>
               <CardDescription>
-                Nur Administratoren können Benutzer verwalten.
+                Nur Administratoren, Support und Abrechnung haben Zugriff auf die Benutzer.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -105,123 +159,6 @@ const Users = () => {
     );
   }
 
-  const fetchUsers = async () => {
-    try {
-      const { data: usersData, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      
-      // Get webhook assignment counts for each user
-      const usersWithCounts = await Promise.all(
-        (usersData || []).map(async (user) => {
-          try {
-            // For now, set webhooks_count to 0 since webhook_assignments table might not exist
-            return {
-              ...user,
-              webhooks_count: 0,
-              email_confirmed: true // Default to true for now
-            };
-          } catch (error) {
-            console.error('Error fetching assignments for user:', user.user_id, error);
-            return {
-              ...user,
-              webhooks_count: 0,
-              email_confirmed: true
-            };
-          }
-        })
-      );
-      
-      setUsers(usersWithCounts);
-    } catch (error) {
-      console.error('Error fetching users:', error);
-      toast({
-        title: "Fehler beim Laden der Benutzer",
-        description: error?.message || "Die Benutzer konnten nicht geladen werden.",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchClients = async () => {
-    try {
-      const { data: clientsData, error } = await supabase
-        .from('clients')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      
-      // Get profile information and webhook counts for each client
-      const clientsWithDetails = await Promise.all(
-        (clientsData || []).map(async (client) => {
-          try {
-            // Get profile info
-            const { data: profileData } = await supabase
-              .from('profiles')
-              .select('email')
-              .eq('user_id', client.user_id)
-              .single();
-
-            // Get webhook count
-            const { data: webhooksData } = await supabase
-              .from('webhooks')
-              .select('id')
-              .eq('client_id', client.id);
-
-            return {
-              ...client,
-              email: profileData?.email || 'No email',
-              webhooks_count: webhooksData?.length || 0
-            };
-          } catch (error) {
-            console.error('Error fetching client details:', client.id, error);
-            return {
-              ...client,
-              email: 'No email',
-              webhooks_count: 0
-            };
-          }
-        })
-      );
-      
-      setClients(clientsWithDetails);
-    } catch (error) {
-      console.error('Error fetching clients:', error);
-      toast({
-        title: "Fehler beim Laden der Clients",
-        description: error?.message || "Die Clients konnten nicht geladen werden.",
-        variant: "destructive"
-      });
-    } finally {
-      setClientsLoading(false);
-    }
-  };
-
-  const fetchWebhooks = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('webhooks')
-        .select('id, name, is_active')
-        .order('name');
-
-      if (error) throw error;
-      setWebhooks(data || []);
-    } catch (error) {
-      console.error('Error fetching webhooks:', error);
-      toast({
-        title: "Fehler beim Laden der Webhooks",
-        description: "Die Webhooks konnten nicht geladen werden.",
-        variant: "destructive"
-      });
-    }
-  };
-
   const createUser = async () => {
     if (!newUserEmail.trim() || !newUserPassword.trim()) {
       toast({
@@ -232,55 +169,14 @@ const Users = () => {
       return;
     }
 
-    setIsCreating(true);
     try {
-      // Use regular signup instead of admin.createUser
-      const { data: authData, error: authError } = await supabase.auth.signUp({
+      await createUserMutation.mutateAsync({
         email: newUserEmail,
         password: newUserPassword,
-        options: {
-          emailRedirectTo: `${window.location.origin}/`,
-          data: {
-            email_confirm: false
-          }
-        }
+        role: newUserRole,
+        emailConfirmed: newUserConfirmed
       });
 
-      if (authError) throw authError;
-
-      if (authData.user) {
-        // Wait a moment for the user to be fully created
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Create profile
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert({
-            user_id: authData.user.id,
-            email: newUserEmail,
-            role: newUserRole
-          });
-
-        if (profileError) {
-          console.error('Profile creation error:', profileError);
-          throw new Error(`Profil konnte nicht erstellt werden: ${profileError.message}`);
-        }
-
-        // Create client record
-        const { error: clientError } = await supabase
-          .from('clients')
-          .insert({
-            user_id: authData.user.id,
-            name: newUserEmail.split('@')[0],
-            tokens_balance: 100
-          });
-
-        if (clientError) {
-          console.error('Client creation error:', clientError);
-          throw new Error(`Client-Datensatz konnte nicht erstellt werden: ${clientError.message}`);
-        }
-      }
-
       toast({
         title: "Benutzer erstellt",
         description: `Benutzer ${newUserEmail} wurde erfolgreich erstellt.`
@@ -289,57 +185,35 @@ const Users = () => {
       setNewUserEmail("");
       setNewUserPassword("");
       setNewUserRole('CLIENT');
+      setNewUserConfirmed(true);
       setIsCreateDialogOpen(false);
-      await fetchUsers();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error creating user:', error);
       toast({
         title: "Fehler beim Erstellen des Benutzers",
-        description: error?.message || "Der Benutzer konnte nicht erstellt werden.",
+        description: error instanceof Error ? error.message : "Der Benutzer konnte nicht erstellt werden.",
         variant: "destructive"
       });
-    } finally {
-      setIsCreating(false);
     }
   };
 
-  const openAssignDialog = async (user: UserProfile) => {
+  const openAssignDialog = (user: UserProfile) => {
     setSelectedUser(user);
+    setSelectedWebhooks(
+      assignments
+        .filter((assignment) => assignment.user_id === user.user_id)
+        .map((assignment) => assignment.webhook_id)
+    );
     setIsAssignDialogOpen(true);
-    
-    // For now, set empty assignments since webhook_assignments table might not exist
-    setSelectedWebhooks([]);
   };
 
   const openSettingsDialog = (user: UserProfile) => {
     setSelectedUser(user);
     setNewPassword("");
     setEmailConfirmed(user.email_confirmed || false);
-    setSkipEmailVerification(false); // Will be set after fetching user data
+    setSkipEmailVerification(user.skip_email_verification);
+    setUserRole(user.role);
     setIsSettingsDialogOpen(true);
-    
-    // Fetch current skip_email_verification value from database
-    fetchUserSkipEmailVerification(user.user_id);
-  };
-
-  const fetchUserSkipEmailVerification = async (userId: string) => {
-    try {
-      // First check if the column exists by trying to select it
-      const { data } = await supabase
-        .from('profiles')
-        .select('skip_email_verification')
-        .eq('user_id', userId)
-        .single();
-      
-      if (data) {
-        setSkipEmailVerification(data.skip_email_verification);
-      } else {
-        setSkipEmailVerification(false);
-      }
-    } catch (error) {
-      console.error('Column skip_email_verification does not exist yet:', error);
-      setSkipEmailVerification(false);
-    }
   };
 
   const openDeleteUserDialog = (user: UserProfile) => {
@@ -353,30 +227,19 @@ const Users = () => {
     setDeleteClientDialogOpen(true);
   };
 
+  const openStatementDialog = (client: Client) => {
+    setSelectedClient(client);
+    setStatementDialogOpen(true);
+  };
+
   const openTokenDialog = (user: UserProfile) => {
     setSelectedUser(user);
-    // Get current token balance
-    fetchUserTokenBalance(user.user_id);
+    setTokenKind('GRANT');
+    setTokenAmount("");
+    setTokenReason("");
     setTokenDialogOpen(true);
   };
 
-  const fetchUserTokenBalance = async (userId: string) => {
-    try {
-      const { data } = await supabase
-        .from('clients')
-        .select('tokens_balance')
-        .eq('user_id', userId)
-        .single();
-      
-      if (data) {
-        setNewTokenBalance(data.tokens_balance.toString());
-      }
-    } catch (error) {
-      console.error('Error fetching token balance:', error);
-      setNewTokenBalance("0");
-    }
-  };
-
   const deleteUser = async () => {
     if (!selectedUser) return;
 
@@ -390,106 +253,35 @@ const Users = () => {
       return;
     }
 
-    setIsDeletingUser(true);
     try {
-      // First, delete client record if checkbox is checked
-      if (deleteClientToo) {
-        const { error: clientError } = await supabase
-          .from('clients')
-          .delete()
-          .eq('user_id', selectedUser.user_id);
-
-        if (clientError) throw clientError;
-      }
-
-      // Delete any webhook assignments for this user
-      try {
-        const { error: assignmentError } = await supabase
-          .from('webhook_assignments')
-          .delete()
-          .eq('user_id', selectedUser.user_id);
-        
-        if (assignmentError && assignmentError.code !== 'PGRST116') {
-          console.warn('Error deleting webhook assignments:', assignmentError);
-        }
-      } catch (error) {
-        console.warn('Webhook assignments table might not exist:', error);
-      }
-
-      // Delete the profile record
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .delete()
-        .eq('user_id', selectedUser.user_id);
-
-      if (profileError) throw profileError;
-
-      // Try to sign out the user if they're currently signed in
-      // Note: We can't delete from auth.users table directly from client-side
-      // The auth.users record will remain, but the profile is deleted
-      try {
-        // If this is implemented via Edge Function in the future, call it here
-        console.log('Profile deleted, auth.users record remains (requires admin API)');
-      } catch (error) {
-        console.warn('Could not delete auth user:', error);
-      }
+      await deleteUserMutation.mutateAsync({
+        userId: selectedUser.user_id,
+        deleteClient: deleteClientToo
+      });
 
       toast({
         title: "Benutzer gelöscht",
-        description: `Profil für ${selectedUser.email} wurde gelöscht.${deleteClientToo ? ' Client-Datensatz wurde ebenfalls gelöscht.' : ''} Der Benutzer kann sich nicht mehr anmelden.`,
+        description: `Das Konto von ${selectedUser.email} wurde gelöscht.${deleteClientToo ? ' Client-Datensatz wurde ebenfalls gelöscht.' : ''}`,
       });
 
       setDeleteUserDialogOpen(false);
       setSelectedUser(null);
       setDeleteClientToo(false);
-      
-      // Refresh both lists
-      await Promise.all([fetchUsers(), fetchClients()]);
-      
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting user:', error);
       toast({
         title: "Fehler beim Löschen",
-        description: error.message || "Das Benutzerprofil konnte nicht gelöscht werden.",
+        description: error instanceof Error ? error.message : "Das Benutzerkonto konnte nicht gelöscht werden.",
         variant: "destructive",
       });
-    } finally {
-      setIsDeletingUser(false);
     }
   };
 
   const deleteClient = async () => {
     if (!selectedClient) return;
 
-    setIsDeletingClient(true);
     try {
-      // Delete all webhooks for this client first
-      const { error: webhooksError } = await supabase
-        .from('webhooks')
-        .delete()
-        .eq('client_id', selectedClient.id);
-
-      if (webhooksError) {
-        console.warn('Error deleting webhooks:', webhooksError);
-      }
-
-      // Delete all executions for this client
-      const { error: executionsError } = await supabase
-        .from('executions')
-        .delete()
-        .eq('client_id', selectedClient.id);
-
-      if (executionsError) {
-        console.warn('Error deleting executions:', executionsError);
-      }
-
-      // Delete the client record
-      const { error: clientError } = await supabase
-        .from('clients')
-        .delete()
-        .eq('id', selectedClient.id);
-
-      if (clientError) throw clientError;
+      await deleteClientMutation.mutateAsync(selectedClient.id);
 
       toast({
         title: "Client gelöscht",
@@ -498,27 +290,30 @@ const Users = () => {
 
       setDeleteClientDialogOpen(false);
       setSelectedClient(null);
-      
-      // Refresh both lists since webhooks were deleted
-      await Promise.all([fetchUsers(), fetchClients()]);
-      
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting client:', error);
       toast({
         title: "Fehler beim Löschen",
-        description: error.message || "Der Client konnte nicht gelöscht werden.",
+        description: error instanceof Error ? error.message : "Der Client konnte nicht gelöscht werden.",
         variant: "destructive",
       });
-    } finally {
-      setIsDeletingClient(false);
     }
   };
 
-  const updateTokenBalance = async () => {
-    if (!selectedUser || !newTokenBalance.trim()) return;
+  const adjustTokenBalance = async () => {
+    if (!selectedUser || !tokenAmount.trim()) return;
 
-    const tokenAmount = parseInt(newTokenBalance);
-    if (isNaN(tokenAmount) || tokenAmount < 0) {
+    if (!tokenClient) {
+      toast({
+        title: "Kein Client-Datensatz",
+        description: `Für ${selectedUser.email} existiert kein Client-Datensatz.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const amount = parseInt(tokenAmount);
+    if (isNaN(amount) || amount === 0 || (tokenKind !== 'ADJUSTMENT' && amount < 0)) {
       toast({
         title: "Ungültige Eingabe",
         description: "Bitte geben Sie eine gültige Anzahl von Tokens ein.",
@@ -527,104 +322,130 @@ const Users = () => {
       return;
     }
 
-    setIsUpdatingTokens(true);
-    try {
-      const { error } = await supabase
-        .from('clients')
-        .update({ tokens_balance: tokenAmount })
-        .eq('user_id', selectedUser.user_id);
+    if (!tokenReason.trim()) {
+      toast({
+        title: "Grund erforderlich",
+        description: "Bitte geben Sie einen Grund für die Buchung an.",
+        variant: "destructive",
+      });
+      return;
+    }
 
-      if (error) throw error;
+    try {
+      const balance = await adjustTokensMutation.mutateAsync({
+        clientId: tokenClient.id,
+        kind: tokenKind,
+        amount,
+        reason: tokenReason.trim(),
+      });
 
       toast({
         title: "Token-Guthaben aktualisiert",
-        description: `Token-Guthaben für ${selectedUser.email} wurde auf ${tokenAmount} gesetzt.`,
+        description: `Neues Token-Guthaben für ${selectedUser.email}: ${balance}.`,
       });
 
       setTokenDialogOpen(false);
       setSelectedUser(null);
-      setNewTokenBalance("");
-      await fetchUsers();
-      await fetchClients();
-    } catch (error: any) {
+      setTokenAmount("");
+      setTokenReason("");
+    } catch (error) {
       console.error('Error updating token balance:', error);
       toast({
         title: "Fehler beim Aktualisieren",
-        description: error.message || "Das Token-Guthaben konnte nicht aktualisiert werden.",
+        description: error instanceof Error ? error.message : "Das Token-Guthaben konnte nicht aktualisiert werden.",
         variant: "destructive",
       });
-    } finally {
-      setIsUpdatingTokens(false);
     }
   };
 
   const updateUserSettings = async () => {
     if (!selectedUser) return;
 
-    setIsUpdatingSettings(true);
-    try {
-      // Try to update skip_email_verification, but handle if column doesn't exist
-      try {
-        const { error: skipEmailError } = await supabase
-          .from('profiles')
-          .update({ skip_email_verification: skipEmailVerification })
-          .eq('user_id', selectedUser.user_id);
+    const password = newPassword.trim();
+    const confirmEmail = emailConfirmed && !selectedUser.email_confirmed;
 
-        if (skipEmailError) {
-          if (skipEmailError.code === '42703' || skipEmailError.code === 'PGRST204') {
-            throw new Error('Die skip_email_verification Spalte existiert noch nicht in der Datenbank. Bitte warten Sie, bis die Migration ausgeführt wurde.');
-          }
-          throw new Error(`Skip Email Verification konnte nicht aktualisiert werden: ${skipEmailError.message}`);
-        }
-        
-        toast({
-          title: "Einstellungen aktualisiert",
-          description: `Skip Email Verification wurde ${skipEmailVerification ? 'aktiviert' : 'deaktiviert'}.`
-        });
-      } catch (columnError: any) {
-        console.error('Column does not exist:', columnError);
-        toast({
-          title: "Spalte nicht gefunden",
-          description: "Die skip_email_verification Spalte existiert noch nicht. Migration wird ausgeführt...",
-          variant: "destructive"
+    try {
+      if (password || confirmEmail) {
+        await updateUserAccountMutation.mutateAsync({
+          userId: selectedUser.user_id,
+          password: password || undefined,
+          emailConfirmed: confirmEmail
         });
-        throw columnError;
       }
 
-      // Update password if provided
-      if (newPassword.trim()) {
-        // Password update requires admin API - show info message
-        console.log('Password update requested but requires admin API');
-      }
-
-      // Email confirmation update requires admin API
-      if (emailConfirmed !== (selectedUser.email_confirmed || false)) {
-        console.log('Email confirmation update requested but requires admin API');
+      if (skipEmailVerification !== selectedUser.skip_email_verification || userRole !== selectedUser.role) {
+        await updateProfileMutation.mutateAsync({
+          userId: selectedUser.user_id,
+          skip_email_verification: skipEmailVerification,
+          role: userRole
+        });
       }
 
-      await fetchUsers(); // Refresh user list
+      toast({
+        title: "Einstellungen aktualisiert",
+        description: `Die Einstellungen für ${selectedUser.email} wurden gespeichert.`
+      });
 
       setIsSettingsDialogOpen(false);
       setSelectedUser(null);
       setNewPassword("");
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating user settings:', error);
       toast({
         title: "Fehler beim Aktualisieren",
-        description: error.message || "Die Einstellungen konnten nicht aktualisiert werden.",
+        description: error instanceof Error ? error.message : "Die Einstellungen konnten nicht aktualisiert werden.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleRequireAdminMfa = async (required: boolean) => {
+    try {
+      await setRequireAdminMfaMutation.mutateAsync(required);
+      toast({
+        title: "Sicherheitseinstellung gespeichert",
+        description: required
+          ? "Administratoren und Mitarbeiter müssen sich jetzt mit einem zweiten Faktor anmelden."
+          : "Administratoren und Mitarbeiter können sich wieder nur mit dem Passwort anmelden."
+      });
+    } catch (error) {
+      console.error('Error updating security settings:', error);
+      toast({
+        title: "Fehler beim Speichern",
+        description: error instanceof Error ? error.message : "Die Einstellung konnte nicht gespeichert werden.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const resetUserMfa = async () => {
+    if (!selectedUser) return;
+
+    try {
+      await resetUserMfaMutation.mutateAsync(selectedUser.user_id);
+      setSelectedUser({ ...selectedUser, mfa_enabled: false });
+      toast({
+        title: "Zwei-Faktor-Authentifizierung zurückgesetzt",
+        description: `${selectedUser.email} meldet sich beim nächsten Mal nur mit dem Passwort an.`
+      });
+    } catch (error) {
+      console.error('Error resetting MFA:', error);
+      toast({
+        title: "Fehler beim Zurücksetzen",
+        description: error instanceof Error ? error.message : "Die Zwei-Faktor-Authentifizierung konnte nicht zurückgesetzt werden.",
         variant: "destructive"
       });
-    } finally {
-      setIsUpdatingSettings(false);
     }
   };
 
   const saveWebhookAssignments = async () => {
     if (!selectedUser) return;
     
-    setIsAssigning(true);
     try {
-      // For now, just show success message since webhook_assignments table might not exist
+      await setUserAssignmentsMutation.mutateAsync({
+        userId: selectedUser.user_id,
+        webhookIds: selectedWebhooks,
+      });
       toast({
         title: "Zuweisungen gespeichert",
         description: `${selectedWebhooks.length} Webhooks wurden ${selectedUser.email} zugewiesen.`
@@ -633,15 +454,13 @@ const Users = () => {
       setIsAssignDialogOpen(false);
       setSelectedUser(null);
       setSelectedWebhooks([]);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving assignments:', error);
       toast({
         title: "Fehler beim Speichern",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Die Zuweisungen konnten nicht gespeichert werden.",
         variant: "destructive"
       });
-    } finally {
-      setIsAssigning(false);
     }
   };
 
@@ -673,6 +492,28 @@ const Users = () => {
           </p>
         </div>
 
+        {canManageUsers && (
+          <Card>
+            <CardContent className="flex items-center justify-between gap-4 pt-6">
+              <div>
+                <Label htmlFor="require-admin-mfa" className="font-medium">
+                  Zwei-Faktor-Authentifizierung für Administratoren und Mitarbeiter verlangen
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Benutzer mit einer anderen Rolle als Client müssen ohne Authenticator-App diese vor der weiteren
+                  Nutzung einrichten.
+                </p>
+              </div>
+              <Switch
+                id="require-admin-mfa"
+                checked={securitySettings?.require_admin_mfa ?? false}
+                onCheckedChange={toggleRequireAdminMfa}
+                disabled={!securitySettings || setRequireAdminMfaMutation.isPending}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         <Tabs defaultValue="users" className="space-y-6">
           <div className="flex items-center justify-between">
             <TabsList>
@@ -680,69 +521,86 @@ const Users = () => {
               <TabsTrigger value="clients">Clients</TabsTrigger>
             </TabsList>
             
-            <div>
-              <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Neuer Benutzer
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Neuen Benutzer erstellen</DialogTitle>
-                    <DialogDescription>
-                      Erstellen Sie ein neues Benutzerkonto. Der Benutzer erhält eine E-Mail mit den Anmeldedaten.
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4">
-                    <div>
-                      <Label htmlFor="email">E-Mail-Adresse</Label>
-                      <Input
-                        id="email"
-                        type="email"
-                        value={newUserEmail}
-                        onChange={(e) => setNewUserEmail(e.target.value)}
-                        placeholder="benutzer@beispiel.de"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="password">Passwort</Label>
-                      <Input
-                        id="password"
-                        type="password"
-                        value={newUserPassword}
-                        onChange={(e) => setNewUserPassword(e.target.value)}
-                        placeholder="Sicheres Passwort"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="role">Rolle</Label>
-                      <Select value={newUserRole} onValueChange={(value: 'ADMIN' | 'CLIENT') => setNewUserRole(value)}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="CLIENT">Client</SelectItem>
-                          <SelectItem value="ADMIN">Administrator</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-                  <DialogFooter>
-                    <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                      Abbrechen
-                    </Button>
-                    <Button onClick={createUser} disabled={isCreating}>
-                      {isCreating ? "Erstelle..." : "Benutzer erstellen"}
+            {canManageUsers && (
+              <div className="flex gap-2">
+                <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Neuer Benutzer
                     </Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
-            </div>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Neuen Benutzer erstellen</DialogTitle>
+                      <DialogDescription>
+                        Erstellen Sie ein Konto mit Passwort, z.B. für Administratoren. Client-Benutzer laden Sie besser ein,
+                        dann legen sie ihr Passwort selbst fest.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                      <div>
+                        <Label htmlFor="email">E-Mail-Adresse</Label>
+                        <Input
+                          id="email"
+                          type="email"
+                          value={newUserEmail}
+                          onChange={(e) => setNewUserEmail(e.target.value)}
+                          placeholder="benutzer@beispiel.de"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="password">Passwort</Label>
+                        <Input
+                          id="password"
+                          type="password"
+                          value={newUserPassword}
+                          onChange={(e) => setNewUserPassword(e.target.value)}
+                          placeholder="Sicheres Passwort"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="role">Rolle</Label>
+                        <Select value={newUserRole} onValueChange={(value: UserRole) => setNewUserRole(value)}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground mt-1">{USER_ROLE_DESCRIPTIONS[newUserRole]}</p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="new-user-confirmed"
+                          checked={newUserConfirmed}
+                          onCheckedChange={(checked) => setNewUserConfirmed(checked as boolean)}
+                        />
+                        <Label htmlFor="new-user-confirmed" className="text-sm">
+                          E-Mail-Adresse als bestätigt markieren
+                        </Label>
+                      </div>
+                    </div>
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                        Abbrechen
+                      </Button>
+                      <Button onClick={createUser} disabled={createUserMutation.isPending}>
+                        {createUserMutation.isPending ? "Erstelle..." : "Benutzer erstellen"}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+                <InviteUserDialog />
+              </div>
+            )}
           </div>
 
           <TabsContent value="users" className="space-y-6">
+            {canViewUsers && <PendingInvitations />}
             {loading ? (
               <div className="flex items-center justify-center h-96">
                 <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
@@ -756,10 +614,12 @@ const Users = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <Button onClick={() => setIsCreateDialogOpen(true)}>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Ersten Benutzer erstellen
-                  </Button>
+                  {canManageUsers && (
+                    <Button onClick={() => setIsCreateDialogOpen(true)}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Ersten Benutzer erstellen
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             ) : (
@@ -769,16 +629,21 @@ const Users = () => {
                     <CardHeader>
                       <div className="flex items-center justify-between">
                         <CardTitle className="text-lg flex items-center gap-2">
-                          {userProfile.role === 'ADMIN' ? (
+                          {userProfile.role !== 'CLIENT' ? (
                             <Shield className="h-5 w-5 text-orange-500" />
                           ) : (
                             <User className="h-5 w-5 text-blue-500" />
                           )}
                           {userProfile.email}
                         </CardTitle>
-                        <Badge variant={userProfile.role === 'ADMIN' ? "default" : "secondary"}>
-                          {userProfile.role === 'ADMIN' ? 'Administrator' : 'Client'}
-                        </Badge>
+                        <div className="flex gap-2">
+                          {userProfile.mfa_enabled && (
+                            <Badge variant="outline">2FA</Badge>
+                          )}
+                          <Badge variant={userProfile.role !== 'CLIENT' ? "default" : "secondary"}>
+                            {USER_ROLE_LABELS[userProfile.role]}
+                          </Badge>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent>
@@ -801,32 +666,48 @@ const Users = () => {
                         </div>
                         
                         <div className="flex gap-2 pt-2 flex-wrap">
-                          <Button 
-                            size="sm" 
-                            variant="outline"
-                            onClick={() => openTokenDialog(userProfile)}
-                          >
-                            <Coins className="h-4 w-4 mr-2" />
-                            Tokens
-                          </Button>
-                          <Button 
-                            size="sm" 
-                            variant="outline"
-                            onClick={() => openSettingsDialog(userProfile)}
-                          >
-                            <Settings className="h-4 w-4 mr-2" />
-                            Einstellungen
-                          </Button>
-                          <Button 
-                            size="sm" 
-                            variant="destructive"
-                            onClick={() => openDeleteUserDialog(userProfile)}
-                            disabled={userProfile.user_id === user?.id}
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Löschen
-                          </Button>
-                          {userProfile.role === 'CLIENT' && (
+                          {canManageTokens && (
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => openTokenDialog(userProfile)}
+                            >
+                              <Coins className="h-4 w-4 mr-2" />
+                              Tokens
+                            </Button>
+                          )}
+                          {userProfile.role === 'CLIENT' && can('webhooks.manage') && (
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={() => openAssignDialog(userProfile)}
+                            >
+                              <Globe className="h-4 w-4 mr-2" />
+                              Webhooks ({userProfile.webhooks_count})
+                            </Button>
+                          )}
+                          {canManageUsers && (
+                            <>
+                              <Button 
+                                size="sm" 
+                                variant="outline"
+                                onClick={() => openSettingsDialog(userProfile)}
+                              >
+                                <Settings className="h-4 w-4 mr-2" />
+                                Einstellungen
+                              </Button>
+                              <Button 
+                                size="sm" 
+                                variant="destructive"
+                                onClick={() => openDeleteUserDialog(userProfile)}
+                                disabled={userProfile.user_id === user?.id}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Löschen
+                              </Button>
+                            </>
+                          )}
+                          {userProfile.role === 'CLIENT' && canManageUsers && (
                             <Button 
                               size="sm" 
                               variant="outline"
@@ -900,12 +781,22 @@ const Users = () => {
                         <div className="flex gap-2 pt-2 flex-wrap">
                           <Button 
                             size="sm" 
-                            variant="destructive"
-                            onClick={() => openDeleteClientDialog(client)}
+                            variant="outline"
+                            onClick={() => openStatementDialog(client)}
                           >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Client löschen
+                            <ReceiptText className="h-4 w-4 mr-2" />
+                            Kontoauszug
                           </Button>
+                          {canManageUsers && (
+                            <Button 
+                              size="sm" 
+                              variant="destructive"
+                              onClick={() => openDeleteClientDialog(client)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Client löschen
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -964,9 +855,9 @@ const Users = () => {
               </Button>
               <Button 
                 onClick={saveWebhookAssignments} 
-                disabled={isAssigning}
+                disabled={setUserAssignmentsMutation.isPending}
               >
-                {isAssigning ? "Speichere..." : "Speichern"}
+                {setUserAssignmentsMutation.isPending ? "Speichere..." : "Speichern"}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -982,6 +873,29 @@ const Users = () => {
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
+              <div>
+                <Label htmlFor="user-role">Rolle</Label>
+                <Select
+                  value={userRole}
+                  onValueChange={(value: UserRole) => setUserRole(value)}
+                  disabled={selectedUser?.user_id === user?.id}
+                >
+                  <SelectTrigger id="user-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {selectedUser?.user_id === user?.id
+                    ? 'Ihre eigene Rolle können Sie nicht ändern'
+                    : USER_ROLE_DESCRIPTIONS[userRole]}
+                </p>
+              </div>
+
               <div>
                 <Label htmlFor="new-password">Neues Passwort</Label>
                 <Input
@@ -1000,12 +914,18 @@ const Users = () => {
                 <Checkbox
                   id="email-confirmed"
                   checked={emailConfirmed}
+                  disabled={selectedUser?.email_confirmed}
                   onCheckedChange={(checked) => setEmailConfirmed(checked as boolean)}
                 />
                 <Label htmlFor="email-confirmed" className="text-sm">
                   E-Mail bestätigt
                 </Label>
               </div>
+              {selectedUser?.email_confirmed && (
+                <p className="text-xs text-muted-foreground">
+                  Eine bestätigte E-Mail-Adresse kann nicht zurückgesetzt werden.
+                </p>
+              )}
               
               <div className="flex items-center space-x-2">
                 <Checkbox
@@ -1014,13 +934,30 @@ const Users = () => {
                   onCheckedChange={(checked) => setSkipEmailVerification(checked as boolean)}
                 />
                 <Label htmlFor="skip-email-verification" className="text-sm">
-                  Skip E-Mail Verification (Beta)
+                  E-Mail-Bestätigung überspringen
                 </Label>
               </div>
               <p className="text-xs text-muted-foreground">
-                Wenn aktiviert, kann sich der Benutzer ohne E-Mail-Bestätigung anmelden. 
-                (Erfordert Datenbank-Migration)
+                Wenn aktiviert, kann sich der Benutzer ohne E-Mail-Bestätigung anmelden. Die Adresse wird dabei
+                als bestätigt markiert.
               </p>
+
+              <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div>
+                  <p className="text-sm font-medium">Zwei-Faktor-Authentifizierung</p>
+                  <p className="text-xs text-muted-foreground">
+                    {selectedUser?.mfa_enabled ? 'Authenticator-App eingerichtet' : 'Nicht eingerichtet'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={resetUserMfa}
+                  disabled={!selectedUser?.mfa_enabled || resetUserMfaMutation.isPending}
+                >
+                  {resetUserMfaMutation.isPending ? "Setze zurück..." : "Zurücksetzen"}
+                </Button>
+              </div>
             </div>
             <DialogFooter>
               <Button 
@@ -1031,9 +968,9 @@ const Users = () => {
               </Button>
               <Button 
                 onClick={updateUserSettings} 
-                disabled={isUpdatingSettings}
+                disabled={updateProfileMutation.isPending || updateUserAccountMutation.isPending}
               >
-                {isUpdatingSettings ? "Speichere..." : "Speichern"}
+                {updateProfileMutation.isPending || updateUserAccountMutation.isPending ? "Speichere..." : "Speichern"}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -1045,8 +982,8 @@ const Users = () => {
             <DialogHeader>
               <DialogTitle>Benutzer löschen</DialogTitle>
               <DialogDescription>
-                Sind Sie sicher, dass Sie das Profil für {selectedUser?.email} löschen möchten? 
-                Der Benutzer kann sich danach nicht mehr anmelden. Diese Aktion kann nicht rückgängig gemacht werden.
+                Sind Sie sicher, dass Sie das Konto von {selectedUser?.email} löschen möchten? 
+                Anmeldedaten, Profil und Webhook-Zuweisungen werden entfernt. Diese Aktion kann nicht rückgängig gemacht werden.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
@@ -1061,7 +998,8 @@ const Users = () => {
                 </Label>
               </div>
               <p className="text-xs text-muted-foreground">
-                Wenn aktiviert, wird auch der zugehörige Client-Datensatz mit allen Webhooks, Ausführungen und Token-Guthaben gelöscht.
+                Wenn aktiviert, wird auch der zugehörige Client-Datensatz mit allen Webhooks, Ausführungen und Token-Guthaben gelöscht. 
+                Andernfalls bleibt der Client erhalten und geht an ein anderes Mitglied über.
               </p>
             </div>
             <DialogFooter>
@@ -1074,9 +1012,9 @@ const Users = () => {
               <Button 
                 variant="destructive"
                 onClick={deleteUser} 
-                disabled={isDeletingUser}
+                disabled={deleteUserMutation.isPending}
               >
-                {isDeletingUser ? "Lösche..." : "Profil löschen"}
+                {deleteUserMutation.isPending ? "Lösche..." : "Benutzer löschen"}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -1103,9 +1041,27 @@ const Users = () => {
               <Button 
                 variant="destructive"
                 onClick={deleteClient} 
-                disabled={isDeletingClient}
+                disabled={deleteClientMutation.isPending}
               >
-                {isDeletingClient ? "Lösche..." : "Client löschen"}
+                {deleteClientMutation.isPending ? "Lösche..." : "Client löschen"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Token Statement Dialog */}
+        <Dialog open={statementDialogOpen} onOpenChange={setStatementDialogOpen}>
+          <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Kontoauszug</DialogTitle>
+              <DialogDescription>
+                Token-Buchungen für {selectedClient?.name} (aktuelles Guthaben: {selectedClient?.tokens_balance})
+              </DialogDescription>
+            </DialogHeader>
+            {selectedClient && <TokenStatement clientId={selectedClient.id} limit={200} />}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStatementDialogOpen(false)}>
+                Schließen
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -1117,24 +1073,53 @@ const Users = () => {
             <DialogHeader>
               <DialogTitle>Token-Guthaben verwalten</DialogTitle>
               <DialogDescription>
-                Token-Guthaben für {selectedUser?.email} ändern
+                Token-Buchung für {selectedUser?.email} erfassen
+                {currentTokenBalance !== null && ` (aktuelles Guthaben: ${currentTokenBalance})`}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="token-balance">Neues Token-Guthaben</Label>
+                <Label htmlFor="token-kind">Buchungsart</Label>
+                <Select value={tokenKind} onValueChange={(value: 'GRANT' | 'ADJUSTMENT' | 'EXPIRY') => setTokenKind(value)}>
+                  <SelectTrigger id="token-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="GRANT">Gutschrift</SelectItem>
+                    <SelectItem value="ADJUSTMENT">Korrektur</SelectItem>
+                    <SelectItem value="EXPIRY">Verfall</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="token-amount">Anzahl Tokens</Label>
                 <Input
-                  id="token-balance"
+                  id="token-amount"
                   type="number"
-                  min="0"
-                  value={newTokenBalance}
-                  onChange={(e) => setNewTokenBalance(e.target.value)}
+                  min={tokenKind === 'ADJUSTMENT' ? undefined : "1"}
+                  value={tokenAmount}
+                  onChange={(e) => setTokenAmount(e.target.value)}
                   placeholder="Anzahl Tokens"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Geben Sie die neue Anzahl von Tokens für diesen Benutzer ein
+                  {tokenKind === 'ADJUSTMENT'
+                    ? 'Positive Werte erhöhen, negative Werte verringern das Guthaben'
+                    : tokenKind === 'GRANT'
+                      ? 'Diese Anzahl wird dem Guthaben gutgeschrieben'
+                      : 'Diese Anzahl verfällt und wird vom Guthaben abgezogen'
+                  }
                 </p>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="token-reason">Grund</Label>
+                <Textarea
+                  id="token-reason"
+                  value={tokenReason}
+                  onChange={(e) => setTokenReason(e.target.value)}
+                  placeholder="z.B. Paket 500 Tokens, Rechnung 2025-08"
+                  rows={2}
+                />
+              </div>
             </div>
             <DialogFooter>
               <Button 
@@ -1144,10 +1129,10 @@ const Users = () => {
                 Abbrechen
               </Button>
               <Button 
-                onClick={updateTokenBalance} 
-                disabled={isUpdatingTokens || !newTokenBalance.trim()}
+                onClick={adjustTokenBalance} 
+                disabled={adjustTokensMutation.isPending || !tokenAmount.trim() || !tokenReason.trim()}
               >
-                {isUpdatingTokens ? "Speichere..." : "Token-Guthaben setzen"}
+                {adjustTokensMutation.isPending ? "Speichere..." : "Buchung erfassen"}
               </Button>
             </DialogFooter>
           </DialogContent>
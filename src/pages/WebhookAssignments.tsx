@@ -1,55 +1,36 @@
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useProfiles, useSetWebhookAssignments, useWebhook, useWebhookAssignments } from "@/hooks/useData";
 import { Layout } from "@/components/Layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
 import { ArrowLeft, Plus, Trash2, Search } from "lucide-react";
 
-interface Webhook {
-  id: string;
-  name: string;
-  description?: string;
-}
-
-interface Assignment {
-  id: string;
-  user_id: string;
-  assigned_at: string;
-  is_active: boolean;
-  user_email?: string;
-}
-
-interface User {
-  user_id: string;
-  email: string;
-  role: string;
-}
-
 const WebhookAssignments = () => {
   const { webhookId } = useParams<{ webhookId: string }>();
-  const { user, isAdmin } = useAuth();
+  const { can } = useAuth();
   const navigate = useNavigate();
-  
-  const [webhook, setWebhook] = useState<Webhook | null>(null);
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
-  const [availableUsers, setAvailableUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: webhook, isPending: webhookLoading } = useWebhook(webhookId);
+  const { data: assignments = [], isPending: assignmentsLoading, error } = useWebhookAssignments(webhookId);
+  const { data: profiles = [] } = useProfiles();
+  const setAssignmentsMutation = useSetWebhookAssignments();
   const [searchEmail, setSearchEmail] = useState("");
 
   useEffect(() => {
-    if (user && webhookId && isAdmin) {
-      fetchData();
-    }
-  }, [user, webhookId, isAdmin]);
-
-  // Redirect non-admin users
-  if (!isAdmin) {
+    if (!error) return;
+    console.error('Error fetching webhook assignments:', error);
+    toast({
+      title: "Fehler",
+      description: error.message || "Daten konnten nicht geladen werden",
+      variant: "destructive",
+    });
+  }, [error]);
+
+  // Only admins and webhook editors manage assignments
+  if (!can('webhooks.manage')) {
     return (
       <Layout>
         <div className="space-y-6">
@@ -57,7 +38,7 @@ const WebhookAssignments = () => {
             <CardHeader>
               <CardTitle>Zugriff verweigert</CardTitle>
               <CardDescription>
-                Nur Administratoren können Webhook-Zuweisungen verwalten.
+                Nur Administratoren und Webhook-Editoren können Webhook-Zuweisungen verwalten.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -72,125 +53,45 @@ const WebhookAssignments = () => {
     );
   }
 
-  const fetchData = async () => {
-    if (!webhookId) return;
-
-    try {
-      // Fetch webhook details
-      const { data: webhookData } = await supabase
-        .from('webhooks')
-        .select('id, name, description')
-        .eq('id', webhookId)
-        .single();
-
-      if (webhookData) {
-        setWebhook(webhookData);
-      }
+  const assignedUserIds = assignments.map((assignment) => assignment.user_id);
 
-      // Fetch current assignments
-      const { data: assignmentsData } = await supabase
-        .from('webhook_assignments')
-        .select(`
-          id,
-          user_id,
-          assigned_at,
-          is_active,
-          profiles!inner(email)
-        `)
-        .eq('webhook_id', webhookId)
-        .eq('is_active', true);
-
-      if (assignmentsData) {
-        const formattedAssignments = assignmentsData.map(assignment => ({
-          id: assignment.id,
-          user_id: assignment.user_id,
-          assigned_at: assignment.assigned_at,
-          is_active: assignment.is_active,
-          user_email: (assignment.profiles as any)?.email
-        }));
-        setAssignments(formattedAssignments);
-      }
-
-      // Fetch available users (not already assigned)
-      const assignedUserIds = assignmentsData?.map(a => a.user_id) || [];
-      const { data: usersData } = await supabase
-        .from('profiles')
-        .select('user_id, email, role')
-        .eq('role', 'CLIENT')
-        .not('user_id', 'in', `(${assignedUserIds.join(',')})`);
-
-      setAvailableUsers(usersData || []);
-    } catch (error) {
-      console.error('Error fetching data:', error);
-      toast({
-        title: "Fehler",
-        description: "Daten konnten nicht geladen werden",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const assignUser = async (userId: string) => {
-    if (!webhookId || !user) return;
+  const saveAssignments = async (userIds: string[], successTitle: string, successDescription: string) => {
+    if (!webhookId) return;
 
     try {
-      const { error } = await supabase
-        .from('webhook_assignments')
-        .insert({
-          webhook_id: webhookId,
-          user_id: userId,
-          assigned_by: user.id,
-          is_active: true
-        });
-
-      if (error) throw error;
-
+      await setAssignmentsMutation.mutateAsync({ webhookId, userIds });
       toast({
-        title: "Benutzer zugewiesen",
-        description: "Der Webhook wurde erfolgreich zugewiesen.",
+        title: successTitle,
+        description: successDescription,
       });
-
-      fetchData(); // Refresh data
-    } catch (error: any) {
+    } catch (error) {
+      console.error('Error saving webhook assignments:', error);
       toast({
-        title: "Fehler bei Zuweisung",
-        description: error.message,
+        title: "Fehler beim Speichern der Zuweisungen",
+        description: error instanceof Error ? error.message : "Die Zuweisungen konnten nicht gespeichert werden.",
         variant: "destructive",
       });
     }
   };
 
-  const removeAssignment = async (assignmentId: string) => {
-    try {
-      const { error } = await supabase
-        .from('webhook_assignments')
-        .update({ is_active: false })
-        .eq('id', assignmentId);
-
-      if (error) throw error;
+  const assignUser = (userId: string) =>
+    saveAssignments([...assignedUserIds, userId], "Benutzer zugewiesen", "Der Webhook wurde erfolgreich zugewiesen.");
 
-      toast({
-        title: "Zuweisung entfernt",
-        description: "Die Webhook-Zuweisung wurde entfernt.",
-      });
-
-      fetchData(); // Refresh data
-    } catch (error: any) {
-      toast({
-        title: "Fehler beim Entfernen",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
-  };
+  const removeAssignment = (userId: string) =>
+    saveAssignments(
+      assignedUserIds.filter((id) => id !== userId),
+      "Zuweisung entfernt",
+      "Die Webhook-Zuweisung wurde entfernt.",
+    );
 
-  const filteredUsers = availableUsers.filter(user =>
-    user.email.toLowerCase().includes(searchEmail.toLowerCase())
+  // Only clients can run webhooks, admins have access to all of them anyway
+  const availableUsers = profiles.filter((profile) =>
+    profile.role === 'CLIENT'
+    && !assignedUserIds.includes(profile.user_id)
+    && profile.email.toLowerCase().includes(searchEmail.toLowerCase())
   );
 
-  if (loading) {
+  if (webhookLoading || assignmentsLoading) {
     return (
       <Layout>
         <div className="flex items-center justify-center h-96">
@@ -243,7 +144,8 @@ const WebhookAssignments = () => {
             <CardHeader>
               <CardTitle>Aktuelle Zuweisungen</CardTitle>
               <CardDescription>
-                Benutzer, die Zugriff auf diesen Webhook haben
+                Benutzer, die diesen Webhook zusätzlich zum besitzenden Client ausführen dürfen.
+                Ausführungen werden dem Client des ausführenden Benutzers berechnet.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -256,15 +158,18 @@ const WebhookAssignments = () => {
                   {assignments.map((assignment) => (
                     <div key={assignment.id} className="flex items-center justify-between p-3 border rounded-lg">
                       <div>
-                        <p className="font-medium">{assignment.user_email}</p>
-                        <p className="text-sm text-muted-foreground">
-                          Zugewiesen am {new Date(assignment.assigned_at).toLocaleDateString('de-DE')}
-                        </p>
+                        <p className="font-medium">{assignment.profiles?.email ?? assignment.user_id}</p>
+                        {assignment.assigned_at && (
+                          <p className="text-sm text-muted-foreground">
+                            Zugewiesen am {new Date(assignment.assigned_at).toLocaleDateString('de-DE')}
+                          </p>
+                        )}
                       </div>
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => removeAssignment(assignment.id)}
+                        onClick={() => removeAssignment(assignment.user_id)}
+                        disabled={setAssignmentsMutation.isPending}
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -295,23 +200,19 @@ const WebhookAssignments = () => {
                   />
                 </div>
 
-                {filteredUsers.length === 0 ? (
+                {availableUsers.length === 0 ? (
                   <p className="text-center py-8 text-muted-foreground">
                     {searchEmail ? "Keine Benutzer gefunden" : "Alle Benutzer bereits zugewiesen"}
                   </p>
                 ) : (
                   <div className="space-y-3 max-h-96 overflow-y-auto">
-                    {filteredUsers.map((user) => (
+                    {availableUsers.map((user) => (
                       <div key={user.user_id} className="flex items-center justify-between p-3 border rounded-lg">
-                        <div>
-                          <p className="font-medium">{user.email}</p>
-                          <Badge variant="outline" className="text-xs">
-                            {user.role}
-                          </Badge>
-                        </div>
+                        <p className="font-medium">{user.email}</p>
                         <Button
                           size="sm"
                           onClick={() => assignUser(user.user_id)}
+                          disabled={setAssignmentsMutation.isPending}
                         >
                           <Plus className="h-4 w-4 mr-2" />
                           Zuweisen
@@ -329,4 +230,4 @@ const WebhookAssignments = () => {
   );
 };
 
-export default WebhookAssignments;
\ No newline at end of file
+export default WebhookAssignments;
@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useCurrentClient, useDeleteWebhook, useUpdateWebhook, useWebhooks, useWebhookTarget, type WebhookWithClient } from "@/hooks/useData";
 import { toast } from "@/hooks/use-toast";
 import { Layout } from "@/components/Layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,130 +11,61 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { InputSchemaEditor } from "@/components/InputSchema";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Plus, Globe, Play, Edit, Trash2, Coins, RefreshCw } from "lucide-react";
+import { Plus, Globe, Play, Edit, Trash2, Coins, RefreshCw, Users } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { formatStatusCodes, getExecutionModeText, getMaxTimeoutMs, parseStatusCodes } from "@/lib/webhook-settings";
+import type { ExecutionMode } from "@/lib/types";
+import { cleanInputSchema, inputTypeOf, parseInputSchema, validateInputSchema, type InputField } from "@/lib/input-schema";
 
-interface Webhook {
-  id: string;
-  name: string;
-  description: string | null;
-  url: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  headers: any;
-  input_type: 'TEXT' | 'FILE';
-  output_type: 'TEXT' | 'FILE';
-  is_active: boolean;
-  tokens_cost: number;
-  created_at: string;
-  client_id: string;
-  clients?: {
-    id: string;
-    name: string;
-    user_id: string;
-    profiles?: {
-      email: string;
-    };
-  };
-}
+type Webhook = WebhookWithClient;
+
+// URL and headers (as JSON text) are only set once edited, until then the dialog shows the loaded target
+type EditedWebhook = Webhook & {
+  url?: string;
+  headers?: string;
+};
 
 const Webhooks = () => {
-  const { user, isAdmin } = useAuth();
+  const { isAdmin, can } = useAuth();
+  const { data: client } = useCurrentClient();
+  const seesAll = can('webhooks.view');
+  const canManage = can('webhooks.manage');
   const navigate = useNavigate();
-  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const { data: webhooks = [], isPending: loading, isFetching, error, refetch } = useWebhooks();
+  const updateWebhookMutation = useUpdateWebhook();
+  const deleteWebhookMutation = useDeleteWebhook();
+  const [editingWebhook, setEditingWebhook] = useState<EditedWebhook | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [webhookToDelete, setWebhookToDelete] = useState<Webhook | null>(null);
-  const [isUpdating, setIsUpdating] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [editRetryOnStatus, setEditRetryOnStatus] = useState('');
+  const [editInputFields, setEditInputFields] = useState<InputField[]>([]);
+  const { data: editTarget } = useWebhookTarget(editDialogOpen ? editingWebhook?.id : undefined);
+  const editUrl = editingWebhook?.url ?? editTarget?.url ?? '';
+  const editHeaders = editingWebhook?.headers ?? (editTarget ? JSON.stringify(editTarget.headers || {}, null, 2) : '');
 
   useEffect(() => {
-    if (user) {
-      fetchWebhooks();
-    }
-  }, [user, isAdmin]);
-
-  const fetchWebhooks = async () => {
-    if (!user) return;
+    if (!error) return;
+    console.error('Error fetching webhooks:', error);
+    toast({
+      title: "Fehler beim Laden der Webhooks",
+      description: error.message || "Die Webhooks konnten nicht geladen werden.",
+      variant: "destructive",
+    });
+  }, [error]);
 
-    setLoading(true);
-    try {
-      if (isAdmin) {
-        // Admin can see all webhooks with client information
-        const { data: webhooksData, error } = await supabase
-          .from('webhooks')
-          .select(`
-            *,
-            clients!inner (
-              id,
-              name,
-              user_id,
-              profiles!inner (
-                email
-              )
-            )
-          `)
-          .order('created_at', { ascending: false });
-
-        if (error) {
-          console.error('Admin webhooks error:', error);
-          throw error;
-        }
-
-        setWebhooks(webhooksData || []);
-      } else {
-        // Get client data first for regular users
-        const { data: clientData, error: clientError } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
-
-        if (clientError) {
-          console.error('Client data error:', clientError);
-          throw clientError;
-        }
-
-        if (!clientData) {
-          console.log('No client data found for user:', user.id);
-          setWebhooks([]);
-          return;
-        }
-
-        // Get webhooks for this client
-        const { data: webhooksData, error: webhooksError } = await supabase
-          .from('webhooks')
-          .select('*')
-          .eq('client_id', clientData.id)
-          .order('created_at', { ascending: false });
-
-        if (webhooksError) {
-          console.error('Client webhooks error:', webhooksError);
-          throw webhooksError;
-        }
-
-        setWebhooks(webhooksData || []);
-      }
-    } catch (error: any) {
-      console.error('Error fetching webhooks:', error);
-      toast({
-        title: "Fehler beim Laden der Webhooks",
-        description: error?.message || "Die Webhooks konnten nicht geladen werden.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Admins run every webhook, everyone else only those of their own client or assigned to them
+  const canRun = (webhook: Webhook) =>
+    webhook.is_active
+    && (isAdmin || ((!seesAll || webhook.client_id === client?.id) && client?.member_role !== 'viewer'));
 
   const openEditDialog = (webhook: Webhook) => {
-    setEditingWebhook({
-      ...webhook,
-      headers: JSON.stringify(webhook.headers || {}, null, 2)
-    });
+    setEditingWebhook(webhook);
+    setEditRetryOnStatus(formatStatusCodes(webhook.retry_on_status));
+    setEditInputFields(parseInputSchema(webhook.input_schema));
     setEditDialogOpen(true);
   };
 
@@ -146,32 +77,54 @@ const Webhooks = () => {
   const updateWebhook = async () => {
     if (!editingWebhook) return;
 
-    setIsUpdating(true);
     try {
+      const maxTimeout = getMaxTimeoutMs(editingWebhook.execution_mode);
+      if (editingWebhook.timeout_ms < 1000 || editingWebhook.timeout_ms > maxTimeout) {
+        throw new Error(`Der Timeout muss zwischen 1.000 und ${maxTimeout.toLocaleString('de-DE')} ms liegen`);
+      }
+
+      const retryOnStatus = parseStatusCodes(editRetryOnStatus);
+      if (!retryOnStatus) {
+        throw new Error('Status-Codes müssen durch Komma getrennte HTTP-Status-Codes sein, z.B. 502, 503');
+      }
+
+      if (editingWebhook.callback_timeout_ms < 60000 || editingWebhook.callback_timeout_ms > 86400000) {
+        throw new Error('Die Frist für den Callback muss zwischen 1 und 1.440 Minuten liegen');
+      }
+
+      const inputFields = cleanInputSchema(editInputFields);
+      const inputFieldsError = validateInputSchema(inputFields);
+      if (inputFieldsError) {
+        throw new Error(inputFieldsError);
+      }
+
       // Validate headers JSON
       let parsedHeaders = {};
       try {
-        parsedHeaders = JSON.parse(editingWebhook.headers as string);
+        parsedHeaders = JSON.parse(editHeaders);
       } catch {
         throw new Error('Headers müssen gültiges JSON sein');
       }
 
-      const { error } = await supabase
-        .from('webhooks')
-        .update({
-          name: editingWebhook.name,
-          description: editingWebhook.description || null,
-          url: editingWebhook.url,
-          method: editingWebhook.method,
-          headers: parsedHeaders,
-          input_type: editingWebhook.input_type,
-          output_type: editingWebhook.output_type,
-          tokens_cost: editingWebhook.tokens_cost,
-          is_active: editingWebhook.is_active
-        })
-        .eq('id', editingWebhook.id);
-
-      if (error) throw error;
+      await updateWebhookMutation.mutateAsync({
+        id: editingWebhook.id,
+        name: editingWebhook.name,
+        description: editingWebhook.description || null,
+        url: editUrl,
+        method: editingWebhook.method,
+        headers: parsedHeaders,
+        input_type: inputFields.length ? inputTypeOf(inputFields) : editingWebhook.input_type,
+        input_schema: inputFields.length ? inputFields : null,
+        output_type: editingWebhook.output_type,
+        tokens_cost: editingWebhook.tokens_cost,
+        timeout_ms: editingWebhook.timeout_ms,
+        retry_max_attempts: editingWebhook.retry_max_attempts,
+        retry_backoff_ms: editingWebhook.retry_backoff_ms,
+        retry_on_status: retryOnStatus,
+        execution_mode: editingWebhook.execution_mode,
+        callback_timeout_ms: editingWebhook.callback_timeout_ms,
+        is_active: editingWebhook.is_active
+      });
 
       toast({
         title: "Webhook aktualisiert",
@@ -180,30 +133,21 @@ const Webhooks = () => {
 
       setEditDialogOpen(false);
       setEditingWebhook(null);
-      await fetchWebhooks();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating webhook:', error);
       toast({
         title: "Fehler beim Aktualisieren",
-        description: error?.message || "Der Webhook konnte nicht aktualisiert werden.",
+        description: error instanceof Error ? error.message : "Der Webhook konnte nicht aktualisiert werden.",
         variant: "destructive",
       });
-    } finally {
-      setIsUpdating(false);
     }
   };
 
   const deleteWebhook = async () => {
     if (!webhookToDelete) return;
 
-    setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from('webhooks')
-        .delete()
-        .eq('id', webhookToDelete.id);
-
-      if (error) throw error;
+      await deleteWebhookMutation.mutateAsync(webhookToDelete.id);
 
       toast({
         title: "Webhook gelöscht",
@@ -212,16 +156,13 @@ const Webhooks = () => {
 
       setDeleteDialogOpen(false);
       setWebhookToDelete(null);
-      await fetchWebhooks();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting webhook:', error);
       toast({
         title: "Fehler beim Löschen",
-        description: error?.message || "Der Webhook konnte nicht gelöscht werden.",
+        description: error instanceof Error ? error.message : "Der Webhook konnte nicht gelöscht werden.",
         variant: "destructive",
       });
-    } finally {
-      setIsDeleting(false);
     }
   };
 
@@ -242,18 +183,18 @@ const Webhooks = () => {
           <div>
             <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
             <p className="text-muted-foreground">
-              {isAdmin 
+              {seesAll 
                 ? "Verwalten Sie alle Webhooks im System" 
                 : "Ihre verfügbaren Webhooks"
               }
             </p>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="outline" onClick={fetchWebhooks} disabled={loading}>
-              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
               Aktualisieren
             </Button>
-            {isAdmin && (
+            {canManage && (
               <Button onClick={() => navigate('/webhooks/new')}>
                 <Plus className="mr-2 h-4 w-4" />
                 Neuer Webhook
@@ -267,13 +208,13 @@ const Webhooks = () => {
             <CardHeader>
               <CardTitle>Keine Webhooks</CardTitle>
               <CardDescription>
-                {isAdmin 
+                {seesAll 
                   ? "Es wurden noch keine Webhooks erstellt. Erstellen Sie den ersten Webhook."
                   : "Ihnen wurden noch keine Webhooks zugewiesen. Kontaktieren Sie Ihren Administrator."
                 }
               </CardDescription>
             </CardHeader>
-            {isAdmin && (
+            {canManage && (
               <CardContent>
                 <Button onClick={() => navigate('/webhooks/new')}>
                   <Plus className="mr-2 h-4 w-4" />
@@ -302,11 +243,11 @@ const Webhooks = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {isAdmin && webhook.clients && (
+                    {seesAll && webhook.clients && (
                       <div className="p-2 bg-muted rounded-lg">
                         <p className="text-sm font-medium">Client:</p>
                         <p className="text-sm text-muted-foreground">
-                          {webhook.clients.name} ({webhook.clients.profiles?.email})
+                          {webhook.clients.name}{webhook.clients.profiles && ` (${webhook.clients.profiles.email})`}
                         </p>
                       </div>
                     )}
@@ -315,6 +256,9 @@ const Webhooks = () => {
                       <Badge variant="outline">{webhook.method}</Badge>
                       <Badge variant="outline">{webhook.input_type}</Badge>
                       <Badge variant="outline">{webhook.output_type}</Badge>
+                      {webhook.execution_mode !== 'SYNC' && (
+                        <Badge variant="secondary">{getExecutionModeText(webhook.execution_mode)}</Badge>
+                      )}
                     </div>
                     
                     <div className="flex items-center gap-2 text-sm">
@@ -326,12 +270,12 @@ const Webhooks = () => {
                       <Button 
                         size="sm" 
                         onClick={() => navigate(`/execute/${webhook.id}`)}
-                        disabled={!webhook.is_active}
+                        disabled={!canRun(webhook)}
                       >
                         <Play className="h-4 w-4 mr-2" />
                         Ausführen
                       </Button>
-                      {isAdmin && (
+                      {canManage && (
                         <>
                           <Button 
                             size="sm" 
@@ -341,6 +285,14 @@ const Webhooks = () => {
                             <Edit className="h-4 w-4 mr-2" />
                             Bearbeiten
                           </Button>
+                          <Button 
+                            size="sm" 
+                            variant="outline"
+                            onClick={() => navigate(`/webhooks/${webhook.id}/assignments`)}
+                          >
+                            <Users className="h-4 w-4 mr-2" />
+                            Zuweisungen
+                          </Button>
                           <Button 
                             size="sm" 
                             variant="destructive"
@@ -406,7 +358,7 @@ const Webhooks = () => {
                   <Input
                     id="edit-url"
                     type="url"
-                    value={editingWebhook.url}
+                    value={editUrl}
                     onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, url: e.target.value } : null)}
                   />
                 </div>
@@ -425,10 +377,11 @@ const Webhooks = () => {
                   <div>
                     <Label>Input-Typ</Label>
                     <Select 
-                      value={editingWebhook.input_type} 
+                      value={editInputFields.length ? inputTypeOf(editInputFields) : editingWebhook.input_type} 
                       onValueChange={(value: 'TEXT' | 'FILE') => 
                         setEditingWebhook(prev => prev ? { ...prev, input_type: value } : null)
                       }
+                      disabled={editInputFields.length > 0}
                     >
                       <SelectTrigger>
                         <SelectValue />
@@ -458,22 +411,115 @@ const Webhooks = () => {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Eingabefelder</Label>
+                  <InputSchemaEditor fields={editInputFields} onChange={setEditInputFields} idPrefix="edit" />
+                  <p className="text-xs text-muted-foreground">
+                    Mit Eingabefeldern ergibt sich der Input-Typ aus den Feldern.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="edit-tokens">Token-Kosten</Label>
+                    <Input
+                      id="edit-tokens"
+                      type="number"
+                      min="1"
+                      value={editingWebhook.tokens_cost}
+                      onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, tokens_cost: parseInt(e.target.value) || 1 } : null)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="edit-timeout">Timeout (ms)</Label>
+                    <Input
+                      id="edit-timeout"
+                      type="number"
+                      min="1000"
+                      max={getMaxTimeoutMs(editingWebhook.execution_mode)}
+                      step="1000"
+                      value={editingWebhook.timeout_ms}
+                      onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, timeout_ms: parseInt(e.target.value) || 30000 } : null)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Wiederholungen</Label>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="edit-retry-attempts" className="text-xs text-muted-foreground">Max. Versuche</Label>
+                      <Input
+                        id="edit-retry-attempts"
+                        type="number"
+                        min="1"
+                        max="5"
+                        value={editingWebhook.retry_max_attempts}
+                        onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, retry_max_attempts: Math.min(5, Math.max(1, parseInt(e.target.value) || 1)) } : null)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="edit-retry-backoff" className="text-xs text-muted-foreground">Wartezeit (ms)</Label>
+                      <Input
+                        id="edit-retry-backoff"
+                        type="number"
+                        min="0"
+                        max="60000"
+                        step="500"
+                        value={editingWebhook.retry_backoff_ms}
+                        onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, retry_backoff_ms: Math.min(60000, Math.max(0, parseInt(e.target.value) || 0)) } : null)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="edit-retry-status" className="text-xs text-muted-foreground">Status-Codes</Label>
+                      <Input
+                        id="edit-retry-status"
+                        value={editRetryOnStatus}
+                        onChange={(e) => setEditRetryOnStatus(e.target.value)}
+                        placeholder="502, 503, 504"
+                      />
+                    </div>
+                  </div>
+                </div>
+
                 <div>
-                  <Label htmlFor="edit-tokens">Token-Kosten</Label>
-                  <Input
-                    id="edit-tokens"
-                    type="number"
-                    min="1"
-                    value={editingWebhook.tokens_cost}
-                    onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, tokens_cost: parseInt(e.target.value) || 1 } : null)}
-                  />
+                  <Label>Ausführungsmodus</Label>
+                  <Select 
+                    value={editingWebhook.execution_mode} 
+                    onValueChange={(value: ExecutionMode) => 
+                      setEditingWebhook(prev => prev ? { ...prev, execution_mode: value } : null)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="SYNC">Synchron</SelectItem>
+                      <SelectItem value="ASYNC">Asynchron</SelectItem>
+                      <SelectItem value="CALLBACK">Mit Callback</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
 
+                {editingWebhook.execution_mode === 'CALLBACK' && (
+                  <div>
+                    <Label htmlFor="edit-callback-timeout">Frist für den Callback (Minuten)</Label>
+                    <Input
+                      id="edit-callback-timeout"
+                      type="number"
+                      min="1"
+                      max="1440"
+                      value={Math.round(editingWebhook.callback_timeout_ms / 60000)}
+                      onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, callback_timeout_ms: (parseInt(e.target.value) || 60) * 60000 } : null)}
+                    />
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="edit-headers">HTTP Headers (JSON)</Label>
                   <Textarea
                     id="edit-headers"
-                    value={editingWebhook.headers as string}
+                    value={editHeaders}
                     onChange={(e) => setEditingWebhook(prev => prev ? { ...prev, headers: e.target.value } : null)}
                     rows={4}
                     className="font-mono text-sm"
@@ -495,8 +541,8 @@ const Webhooks = () => {
               <Button variant="outline" onClick={() => setEditDialogOpen(false)}>
                 Abbrechen
               </Button>
-              <Button onClick={updateWebhook} disabled={isUpdating}>
-                {isUpdating ? "Speichere..." : "Speichern"}
+              <Button onClick={updateWebhook} disabled={!editTarget || updateWebhookMutation.isPending}>
+                {updateWebhookMutation.isPending ? "Speichere..." : "Speichern"}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -516,10 +562,10 @@ const Webhooks = () => {
               <AlertDialogCancel>Abbrechen</AlertDialogCancel>
               <AlertDialogAction 
                 onClick={deleteWebhook}
-                disabled={isDeleting}
+                disabled={deleteWebhookMutation.isPending}
                 className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
               >
-                {isDeleting ? "Lösche..." : "Löschen"}
+                {deleteWebhookMutation.isPending ? "Lösche..." : "Löschen"}
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
@@ -0,0 +1,59 @@
+import { encode as encodeHex } from "https://deno.land/std@0.168.0/encoding/hex.ts";
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+
+// A dedicated secret can be rotated without touching the service role key
+const SIGNING_SECRET = Deno.env.get('CALLBACK_SIGNING_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const sign = async (executionId: string, expires: number) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(SIGNING_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, textEncoder.encode(`${executionId}.${expires}`));
+  return textDecoder.decode(encodeHex(new Uint8Array(signature)));
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+/**
+ * Builds the URL the remote system posts the final result of an execution to.
+ * The signature covers the execution id and the expiry, so the URL can neither
+ * be reused for another execution nor extended. It is one-time because the
+ * callback is rejected once the execution is completed.
+ */
+export const createCallbackUrl = async (executionId: string, expiresAt: Date) => {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const url = new URL(`${SUPABASE_URL}/functions/v1/webhook-callback`);
+  url.searchParams.set('execution_id', executionId);
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', await sign(executionId, expires));
+  return url.toString();
+};
+
+export type CallbackTokenCheck = 'valid' | 'invalid' | 'expired';
+
+export const verifyCallbackUrl = async (url: URL): Promise<CallbackTokenCheck> => {
+  const executionId = url.searchParams.get('execution_id');
+  const expires = Number(url.searchParams.get('expires'));
+  const signature = url.searchParams.get('signature');
+
+  if (!executionId || !signature || !Number.isInteger(expires)) return 'invalid';
+  if (!timingSafeEqual(signature, await sign(executionId, expires))) return 'invalid';
+  if (expires * 1000 < Date.now()) return 'expired';
+
+  return 'valid';
+};
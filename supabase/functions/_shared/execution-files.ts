@@ -0,0 +1,55 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const EXECUTION_FILES_BUCKET = 'execution-files';
+
+export type ExecutionFileKind = 'input' | 'output';
+
+export interface ExecutionFile {
+  name: string;
+  contentType: string;
+  body: Blob | Uint8Array;
+}
+
+// Keep the original name in the execution row, the object key only needs to be safe
+const toObjectName = (name: string) => name.replace(/[^\w.-]+/g, '_').slice(-200) || 'file';
+
+/**
+ * Uploads an input or output file of an execution to the execution-files
+ * bucket (<client_id>/<execution_id>/<kind>/<name>) and links it from the
+ * execution row. Storage policies grant read access by the client folder.
+ */
+export const storeExecutionFile = async (
+  supabase: SupabaseClient,
+  clientId: string,
+  executionId: string,
+  kind: ExecutionFileKind,
+  file: ExecutionFile,
+) => {
+  const path = `${clientId}/${executionId}/${kind}/${toObjectName(file.name)}`;
+  const size = file.body instanceof Blob ? file.body.size : file.body.byteLength;
+
+  const { error: uploadError } = await supabase.storage
+    .from(EXECUTION_FILES_BUCKET)
+    .upload(path, file.body, { contentType: file.contentType, upsert: true });
+
+  if (uploadError) {
+    console.error(`Error storing ${kind} file:`, uploadError);
+    return null;
+  }
+
+  const { error: updateError } = await supabase
+    .from('executions')
+    .update({
+      [`${kind}_file_path`]: path,
+      [`${kind}_file_name`]: file.name,
+      [`${kind}_file_type`]: file.contentType,
+      [`${kind}_file_size`]: size,
+    })
+    .eq('id', executionId);
+
+  if (updateError) {
+    console.error(`Error linking ${kind} file:`, updateError);
+  }
+
+  return path;
+};
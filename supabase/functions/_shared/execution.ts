@@ -0,0 +1,287 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createCallbackUrl } from "./callback-token.ts";
+import { jsonResponse } from "./cors.ts";
+import { storeExecutionFile } from "./execution-files.ts";
+import { validateInputValues } from "./input-schema.ts";
+import { callWebhookWithRetry, describeInput, hasInputFields, inputFileOf, type WebhookInput, type WebhookRecord } from "./webhook-request.ts";
+
+export type ExecutionStatus = 'PENDING' | 'RUNNING' | 'SUCCESS' | 'ERROR' | 'TIMEOUT';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Keeps the function alive for a background task after the response was sent
+export const runInBackground = (promise: Promise<unknown>) => {
+  EdgeRuntime.waitUntil(promise);
+};
+
+/**
+ * Calls the webhook and, if the run is recorded (executionId set), moves the
+ * execution through RUNNING to its final status via complete_execution,
+ * which refunds the reserved tokens unless the run succeeded.
+ *
+ * Input and output files of recorded runs are kept in the execution-files
+ * bucket under the client that ran the webhook, which is not necessarily the
+ * owner of an assigned webhook. CALLBACK webhooks stay RUNNING after a successful acknowledgement until the
+ * remote system posts the result to the webhook-callback function.
+ */
+export const runExecution = async (
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  input: WebhookInput,
+  executionId: string | null,
+  clientId: string | null,
+) => {
+  let callbackUrl: string | undefined;
+  if (executionId) {
+    const startedAt = new Date();
+    const update: Record<string, string> = { status: 'RUNNING', started_at: startedAt.toISOString() };
+
+    if (webhook.execution_mode === 'CALLBACK') {
+      const expiresAt = new Date(startedAt.getTime() + webhook.callback_timeout_ms);
+      callbackUrl = await createCallbackUrl(executionId, expiresAt);
+      update.callback_expires_at = expiresAt.toISOString();
+    }
+
+    const { error: startError } = await supabase
+      .from('executions')
+      .update(update)
+      .eq('id', executionId)
+      .eq('status', 'PENDING');
+
+    if (startError) {
+      console.error('Error marking execution as running:', startError);
+    }
+
+    const inputFile = inputFileOf(input);
+    if (inputFile && clientId) {
+      await storeExecutionFile(supabase, clientId, executionId, 'input', {
+        name: inputFile.name,
+        contentType: inputFile.type || 'application/octet-stream',
+        body: inputFile,
+      });
+    }
+  }
+
+  const result = await callWebhookWithRetry(webhook, input, callbackUrl);
+
+  if (executionId && callbackUrl && result.ok) {
+    // Only the acknowledgement so far, the result follows via callback
+    const { error: ackError } = await supabase
+      .from('executions')
+      .update({ attempts: result.attempts, status_code: result.statusCode })
+      .eq('id', executionId);
+
+    if (ackError) {
+      console.error('Error storing callback acknowledgement:', ackError);
+    }
+
+    const status: ExecutionStatus = 'RUNNING';
+    return { result, status, tokensBalance: null as number | null };
+  }
+
+  if (executionId && clientId && result.file) {
+    const path = await storeExecutionFile(supabase, clientId, executionId, 'output', {
+      name: result.file.name,
+      contentType: result.file.contentType,
+      body: result.file.bytes,
+    });
+
+    // Background runs have no other way to hand out the file
+    if (!path && webhook.execution_mode !== 'SYNC') {
+      result.ok = false;
+      result.file = null;
+      result.error = 'Die Ergebnisdatei konnte nicht gespeichert werden';
+    }
+  }
+
+  const status: ExecutionStatus = result.ok ? 'SUCCESS' : result.timedOut ? 'TIMEOUT' : 'ERROR';
+
+  let tokensBalance: number | null = null;
+  if (executionId) {
+    const { data, error: completeError } = await supabase.rpc('complete_execution', {
+      p_execution_id: executionId,
+      p_status: status,
+      p_status_code: result.statusCode,
+      p_duration_ms: result.durationMs,
+      p_response: result.response,
+      p_error: result.error,
+      p_attempts: result.attempts,
+    });
+
+    if (completeError) {
+      console.error('Error completing execution:', completeError);
+    } else {
+      tokensBalance = data;
+    }
+  }
+
+  return { result, status, tokensBalance };
+};
+
+// Columns of WebhookRecord, including URL and headers - never send them to the caller
+export const WEBHOOK_COLUMNS = 'id, name, url, method, headers, input_type, input_schema, output_type, is_active, tokens_cost, timeout_ms, retry_max_attempts, retry_backoff_ms, retry_on_status, execution_mode, callback_timeout_ms, client_id';
+
+// Postgres error codes raised by reserve_execution
+const RESERVE_ERROR_STATUS: Record<string, number> = {
+  P0001: 409,
+  P0002: 404,
+  P0003: 402,
+};
+
+/**
+ * Reads the webhook id and the input of an execution request. Accepts
+ * multipart/form-data with `webhook_id` and `text` or `file`, and JSON
+ * `{ "webhook_id": ..., "text": ... }` for text input. Values of input
+ * fields come as JSON `{ "webhook_id": ..., "fields": { ... } }` or as one
+ * multipart part per field; which of them apply is only known once the
+ * webhook is loaded.
+ */
+export const readExecutionRequest = async (req: Request) => {
+  const input: WebhookInput = {};
+
+  if (req.headers.get('content-type')?.includes('application/json')) {
+    const body = await req.json();
+    if (typeof body?.text === 'string') input.text = body.text;
+    if (body?.fields && typeof body.fields === 'object' && !Array.isArray(body.fields)) input.fields = body.fields;
+    return { webhookId: typeof body?.webhook_id === 'string' ? body.webhook_id : null, input };
+  }
+
+  const formData = await req.formData();
+  const text = formData.get('text');
+  const file = formData.get('file');
+  if (typeof text === 'string') input.text = text;
+  if (file instanceof File) input.file = file;
+
+  input.fields = {};
+  for (const [name, value] of formData.entries()) {
+    if (name !== 'webhook_id' && !(name in input.fields)) input.fields[name] = value;
+  }
+  return { webhookId: formData.get('webhook_id') as string | null, input };
+};
+
+/**
+ * Client the user belongs to, with the user's role in it. The members of a
+ * client share its balance.
+ */
+export const findMembership = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from('client_members')
+    .select('role, clients!inner (id, tokens_balance)')
+    .eq('user_id', userId)
+    .maybeSingle<{ role: 'owner' | 'member' | 'viewer'; clients: { id: string; tokens_balance: number } }>();
+
+  if (error) {
+    console.error('Error loading client membership:', error);
+    return null;
+  }
+  return data ? { role: data.role, client: data.clients } : null;
+};
+
+/**
+ * Whether the user may run the webhook: it belongs to the user's client and
+ * the user is not just a viewer there, or it is assigned to the user.
+ */
+export const canAccessWebhook = async (supabase: SupabaseClient, webhookId: string, userId: string) => {
+  const { data, error } = await supabase.rpc('can_access_webhook', {
+    p_webhook_id: webhookId,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    console.error('Error checking webhook access:', error);
+    return false;
+  }
+  return data === true;
+};
+
+/**
+ * Validates the input, reserves the tokens and runs the webhook, then answers
+ * the request. Without a client the run is an admin test run, which is
+ * neither recorded nor charged.
+ */
+export const startExecution = async (
+  supabase: SupabaseClient,
+  webhook: WebhookRecord,
+  input: WebhookInput,
+  client: { id: string; tokens_balance: number } | null,
+  userId: string,
+) => {
+  if (!webhook.is_active) {
+    return jsonResponse({ error: 'Webhook ist nicht aktiv' }, 409);
+  }
+
+  if (client && client.tokens_balance < webhook.tokens_cost) {
+    return jsonResponse({ error: 'Nicht genügend Tokens' }, 402);
+  }
+
+  if (hasInputFields(webhook)) {
+    const validation = validateInputValues(webhook.input_schema!, input.fields ?? {});
+    if ('error' in validation) {
+      return jsonResponse({ error: validation.error }, 400);
+    }
+    input = { fields: validation.values };
+  } else {
+    if (webhook.input_type === 'TEXT' && !input.text?.trim()) {
+      return jsonResponse({ error: 'Text erforderlich' }, 400);
+    }
+
+    if (webhook.input_type === 'FILE' && !input.file) {
+      return jsonResponse({ error: 'Datei erforderlich' }, 400);
+    }
+
+    input = { text: input.text, file: input.file };
+  }
+
+  const payload = describeInput(webhook, input);
+
+  // Reserve the tokens and record the execution before calling out, so two
+  // parallel requests can never spend the same balance
+  let executionId: string | null = null;
+  if (client) {
+    const { data, error: reserveError } = await supabase.rpc('reserve_execution', {
+      p_webhook_id: webhook.id,
+      p_client_id: client.id,
+      p_payload: JSON.stringify(payload),
+      p_started_by: userId,
+    });
+
+    if (reserveError) {
+      console.error('Error reserving execution:', reserveError);
+      return jsonResponse({ error: reserveError.message }, RESERVE_ERROR_STATUS[reserveError.code] ?? 500);
+    }
+    executionId = data;
+  }
+
+  // Admin test runs are not recorded and therefore always run synchronously
+  if (executionId && webhook.execution_mode !== 'SYNC') {
+    runInBackground(runExecution(supabase, webhook, input, executionId, client?.id ?? null));
+
+    return jsonResponse({
+      queued: true,
+      execution_id: executionId,
+      status: 'PENDING',
+    }, 202);
+  }
+
+  const { result, status, tokensBalance } = await runExecution(supabase, webhook, input, executionId, client?.id ?? null);
+
+  return jsonResponse({
+    queued: false,
+    success: result.ok,
+    status,
+    execution_id: executionId,
+    status_code: result.statusCode,
+    duration_ms: result.durationMs,
+    response: result.response,
+    file: result.file ? {
+      name: result.file.name,
+      contentType: result.file.contentType,
+      base64: encodeBase64(result.file.bytes),
+    } : null,
+    error: result.error,
+    attempts: result.attempts,
+    tokens_used: client && result.ok ? webhook.tokens_cost : 0,
+    tokens_balance: tokensBalance,
+  });
+};
@@ -0,0 +1,84 @@
+export type InputFieldType = 'text' | 'multiline' | 'number' | 'select' | 'date' | 'checkbox' | 'file';
+
+// Mirrors InputField in src/lib/input-schema.ts
+export interface InputField {
+  name: string;
+  label: string;
+  type: InputFieldType;
+  required?: boolean;
+  description?: string;
+  options?: string[];
+  min?: number;
+  max?: number;
+}
+
+export type InputValue = string | number | boolean | File;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+// Multipart requests carry every value as string
+const toBoolean = (value: unknown) =>
+  value === true || value === 'true' || value === 'on' || value === '1';
+
+/**
+ * Validates the raw values of an execution request against the fields of
+ * the webhook and converts them to their types (numbers, booleans). Values
+ * of unknown fields are dropped, empty optional fields left out.
+ */
+export const validateInputValues = (
+  fields: InputField[],
+  raw: Record<string, unknown>,
+): { values: Record<string, InputValue> } | { error: string } => {
+  const values: Record<string, InputValue> = {};
+
+  for (const field of fields) {
+    const value = raw[field.name];
+    const label = field.label || field.name;
+
+    if (field.type === 'checkbox') {
+      values[field.name] = toBoolean(value);
+      if (field.required && !values[field.name]) {
+        return { error: `${label} muss bestätigt werden` };
+      }
+      continue;
+    }
+
+    if (isEmpty(value)) {
+      if (field.required) return { error: `${label} ist erforderlich` };
+      continue;
+    }
+
+    switch (field.type) {
+      case 'file':
+        if (!(value instanceof File)) return { error: `${label} muss eine Datei sein` };
+        values[field.name] = value;
+        break;
+      case 'number': {
+        const number = typeof value === 'string' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number)) {
+          return { error: `${label} muss eine Zahl sein` };
+        }
+        if ((field.min !== undefined && number < field.min) || (field.max !== undefined && number > field.max)) {
+          return { error: `${label} liegt außerhalb des erlaubten Bereichs` };
+        }
+        values[field.name] = number;
+        break;
+      }
+      default: {
+        if (typeof value !== 'string') return { error: `${label} muss ein Text sein` };
+        if (field.type === 'select' && !field.options?.includes(value)) {
+          return { error: `${label} enthält keine der erlaubten Optionen` };
+        }
+        if (field.type === 'date' && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+          return { error: `${label} muss ein Datum im Format JJJJ-MM-TT sein` };
+        }
+        values[field.name] = value;
+      }
+    }
+  }
+
+  return { values };
+};
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// The link Auth sends expires with otp_expiry (config.toml), which is at most
+// a day, so an invitation cannot be valid for longer
+export const MAX_INVITATION_HOURS = 24;
+
+/**
+ * Closes invitations that were not accepted. Accounts of invitees who never
+ * accepted have no profile and are removed, so their link stops working.
+ */
+export const closeInvitations = async (supabase: SupabaseClient, invitations: { id: string; user_id: string | null }[]) => {
+  for (const invitation of invitations) {
+    const { error } = await supabase
+      .from('invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitation.id);
+    if (error) throw error;
+
+    if (!invitation.user_id) continue;
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('user_id', invitation.user_id)
+      .maybeSingle();
+
+    if (!profile) {
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(invitation.user_id);
+      if (deleteError) throw deleteError;
+    }
+  }
+};
+
+/**
+ * Closes the open or expired invitations of an address, so a new one can
+ * replace them.
+ */
+export const closeOpenInvitations = async (supabase: SupabaseClient, email: string) => {
+  const { data, error } = await supabase
+    .from('invitations')
+    .select('id, user_id')
+    .ilike('email', email)
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+  if (error) throw error;
+
+  await closeInvitations(supabase, data ?? []);
+};
@@ -0,0 +1,26 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Service role client - bypasses RLS, only use after the caller has been authorized
+export const createServiceClient = () =>
+  createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+// Client acting as the calling user, so RLS and auth.uid() apply
+export const createUserClient = (req: Request) =>
+  createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: {
+      headers: { Authorization: req.headers.get('Authorization') ?? '' },
+    },
+  });
+
+export const getRequestUser = async (req: Request) => {
+  const { data: { user }, error } = await createUserClient(req).auth.getUser();
+  if (error || !user) return null;
+  return user;
+};
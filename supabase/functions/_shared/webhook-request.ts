@@ -0,0 +1,287 @@
+import type { InputField } from "./input-schema.ts";
+
+export interface WebhookRecord {
+  id: string;
+  name: string;
+  url: string;
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers: Record<string, string> | null;
+  input_type: 'TEXT' | 'FILE';
+  input_schema: InputField[] | null;
+  output_type: 'TEXT' | 'FILE';
+  is_active: boolean;
+  tokens_cost: number;
+  timeout_ms: number;
+  retry_max_attempts: number;
+  retry_backoff_ms: number;
+  retry_on_status: number[];
+  execution_mode: 'SYNC' | 'ASYNC' | 'CALLBACK';
+  callback_timeout_ms: number;
+  client_id: string;
+}
+
+// Webhooks with input fields only use `fields`, validated by startExecution before the call
+export interface WebhookInput {
+  text?: string;
+  file?: File;
+  fields?: Record<string, unknown>;
+}
+
+export interface WebhookOutputFile {
+  name: string;
+  contentType: string;
+  bytes: Uint8Array;
+}
+
+export interface WebhookAttempt {
+  attempt: number;
+  status_code: number | null;
+  duration_ms: number;
+  error: string | null;
+  started_at: string;
+}
+
+export interface WebhookCallResult {
+  ok: boolean;
+  timedOut: boolean;
+  statusCode: number | null;
+  durationMs: number;
+  response: string | null;
+  file: WebhookOutputFile | null;
+  error: string | null;
+}
+
+const MAX_ERROR_LENGTH = 1000;
+
+const truncate = (message: string) =>
+  message.length > MAX_ERROR_LENGTH ? message.substring(0, MAX_ERROR_LENGTH) + '...' : message;
+
+export const hasInputFields = (webhook: WebhookRecord) => !!webhook.input_schema?.length;
+
+// The file kept with the execution, the first one for webhooks with several file fields
+export const inputFileOf = (input: WebhookInput) =>
+  input.fields
+    ? Object.values(input.fields).find((value): value is File => value instanceof File)
+    : input.file;
+
+const getFileName = (response: Response, input: WebhookInput) => {
+  let fileName = 'download';
+
+  const contentDisposition = response.headers.get('content-disposition');
+  if (contentDisposition) {
+    const fileNameMatch = contentDisposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
+    if (fileNameMatch) {
+      fileName = fileNameMatch[1].replace(/['"]/g, '');
+    }
+  }
+
+  // Use original filename if available
+  const inputFile = inputFileOf(input);
+  if (inputFile) {
+    fileName = inputFile.name;
+  }
+
+  return fileName;
+};
+
+// Payload summary stored with the execution - never contains file contents
+export const describeInput = (webhook: WebhookRecord, input: WebhookInput) => {
+  if (hasInputFields(webhook)) {
+    return {
+      fields: Object.fromEntries(Object.entries(input.fields ?? {}).map(([name, value]) => [
+        name,
+        value instanceof File ? { fileName: value.name, fileSize: value.size } : value,
+      ])),
+    };
+  }
+  if (webhook.input_type === 'FILE' && input.file) {
+    return { fileName: input.file.name, fileSize: input.file.size };
+  }
+  return { text: input.text ?? '' };
+};
+
+/**
+ * Calls the webhook once. With a callbackUrl the remote system only
+ * acknowledges the request; the URL is sent as `X-Callback-Url` header and as
+ * `callback_url` field (query parameter for GET) and the response body is
+ * kept as text.
+ *
+ * Values of input fields are sent as query parameters for GET, as JSON
+ * object otherwise, or as multipart/form-data if one of them is a file.
+ */
+export const callWebhook = async (
+  webhook: WebhookRecord,
+  input: WebhookInput,
+  callbackUrl?: string,
+): Promise<WebhookCallResult> => {
+  const headers: Record<string, string> = {};
+  if (webhook.headers && typeof webhook.headers === 'object') {
+    Object.assign(headers, webhook.headers);
+  }
+  if (callbackUrl) {
+    headers['X-Callback-Url'] = callbackUrl;
+  }
+
+  // The timeout covers the whole request including reading the response body
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), webhook.timeout_ms);
+  const signal = controller.signal;
+
+  const startTime = Date.now();
+
+  try {
+    let response: Response;
+
+    if (webhook.method === 'GET') {
+      const url = new URL(webhook.url);
+      if (hasInputFields(webhook)) {
+        for (const [name, value] of Object.entries(input.fields ?? {})) {
+          if (!(value instanceof File)) url.searchParams.append(name, String(value));
+        }
+      } else if (webhook.input_type === 'TEXT' && input.text) {
+        url.searchParams.append('text', input.text);
+      }
+      if (callbackUrl) {
+        url.searchParams.append('callback_url', callbackUrl);
+      }
+      response = await fetch(url.toString(), { method: 'GET', headers, signal });
+    } else if (hasInputFields(webhook) && !inputFileOf(input)) {
+      const hasContentType = Object.keys(headers).some((name) => name.toLowerCase() === 'content-type');
+      if (!hasContentType) {
+        headers['Content-Type'] = 'application/json';
+      }
+      const body = JSON.stringify({ ...input.fields, ...(callbackUrl ? { callback_url: callbackUrl } : {}) });
+      response = await fetch(webhook.url, { method: webhook.method, headers, body, signal });
+    } else {
+      const formData = new FormData();
+      if (hasInputFields(webhook)) {
+        for (const [name, value] of Object.entries(input.fields ?? {})) {
+          formData.append(name, value instanceof File ? value : String(value));
+        }
+      } else if (webhook.input_type === 'TEXT') {
+        formData.append('text', input.text ?? '');
+      } else if (input.file) {
+        formData.append('file', input.file);
+      }
+      if (callbackUrl) {
+        formData.append('callback_url', callbackUrl);
+      }
+      response = await fetch(webhook.url, { method: webhook.method, headers, body: formData, signal });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return {
+        ok: false,
+        timedOut: false,
+        statusCode: response.status,
+        durationMs: Date.now() - startTime,
+        response: null,
+        file: null,
+        error: truncate(`HTTP ${response.status}: ${errorText}`),
+      };
+    }
+
+    let responseData: string | null = null;
+    let file: WebhookOutputFile | null = null;
+
+    if (webhook.output_type === 'FILE' && !callbackUrl) {
+      file = {
+        name: getFileName(response, input),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+        bytes: new Uint8Array(await response.arrayBuffer()),
+      };
+    } else {
+      responseData = await response.text();
+    }
+
+    return {
+      ok: true,
+      timedOut: false,
+      statusCode: response.status,
+      durationMs: Date.now() - startTime,
+      response: responseData,
+      file,
+      error: null,
+    };
+  } catch (error) {
+    if (signal.aborted) {
+      return {
+        ok: false,
+        timedOut: true,
+        statusCode: null,
+        durationMs: Date.now() - startTime,
+        response: null,
+        file: null,
+        error: `Zeitüberschreitung: keine Antwort innerhalb von ${webhook.timeout_ms} ms`,
+      };
+    }
+
+    const message = error instanceof Error ? error.message : 'Unbekannter Fehler';
+    return {
+      ok: false,
+      timedOut: false,
+      statusCode: null,
+      durationMs: Date.now() - startTime,
+      response: null,
+      file: null,
+      error: truncate(message),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Edge functions are stopped after 400 seconds, background tasks included,
+// and the caller of a synchronous run is cut off after 150 seconds. Both
+// budgets fit a first attempt at the longest timeout the database allows and
+// leave time to store files and record the result after the last attempt.
+const RETRY_BUDGET_MS = 330_000;
+const SYNC_RETRY_BUDGET_MS = 135_000;
+
+// Connection errors (no status code) are always retried, timeouts never
+const shouldRetry = (webhook: WebhookRecord, result: WebhookCallResult) =>
+  !result.ok && !result.timedOut &&
+  (result.statusCode === null || webhook.retry_on_status.includes(result.statusCode));
+
+/**
+ * Calls the webhook according to its retry policy. The returned result is
+ * the one of the last attempt, with the total duration including backoff.
+ * Stops retrying early if the backoff and another attempt running into its
+ * full timeout would not fit into the retry budget of the execution mode.
+ */
+export const callWebhookWithRetry = async (
+  webhook: WebhookRecord,
+  input: WebhookInput,
+  callbackUrl?: string,
+): Promise<WebhookCallResult & { attempts: WebhookAttempt[] }> => {
+  const maxAttempts = Math.max(1, webhook.retry_max_attempts ?? 1);
+  const attempts: WebhookAttempt[] = [];
+  const budget = webhook.execution_mode === 'SYNC' ? SYNC_RETRY_BUDGET_MS : RETRY_BUDGET_MS;
+  const startTime = Date.now();
+
+  let result: WebhookCallResult;
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = new Date().toISOString();
+    result = await callWebhook(webhook, input, callbackUrl);
+    attempts.push({
+      attempt,
+      status_code: result.statusCode,
+      duration_ms: result.durationMs,
+      error: result.error,
+      started_at: startedAt,
+    });
+
+    if (attempt >= maxAttempts || !shouldRetry(webhook, result)) break;
+
+    const backoff = webhook.retry_backoff_ms * 2 ** (attempt - 1);
+    const elapsed = Date.now() - startTime;
+    if (elapsed + backoff + webhook.timeout_ms > budget) break;
+
+    await sleep(backoff);
+  }
+
+  return { ...result, durationMs: Date.now() - startTime, attempts };
+};
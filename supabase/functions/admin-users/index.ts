@@ -0,0 +1,471 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient, createUserClient, getRequestUser } from "../_shared/supabase.ts";
+import { closeInvitations, closeOpenInvitations, MAX_INVITATION_HOURS } from "../_shared/invitations.ts";
+
+const MIN_PASSWORD_LENGTH = 6;
+const STARTING_TOKENS = 100;
+const LIST_PAGE_SIZE = 1000;
+
+const USER_ROLES = ['ADMIN', 'CLIENT', 'SUPPORT', 'BILLING', 'WEBHOOK_EDITOR'] as const;
+
+type UserRole = typeof USER_ROLES[number];
+
+type AdminUserRequest =
+  | { action: 'list' }
+  | { action: 'create'; email?: string; password?: string; role?: UserRole; emailConfirmed?: boolean }
+  | { action: 'update'; userId?: string; password?: string; emailConfirmed?: boolean }
+  | { action: 'delete'; userId?: string; deleteClient?: boolean }
+  | {
+    action: 'invite';
+    email?: string;
+    startingTokens?: number;
+    webhookIds?: string[];
+    validHours?: number;
+    redirectTo?: string;
+  }
+  | { action: 'revokeInvitation'; invitationId?: string }
+  | { action: 'resetMfa'; userId?: string };
+
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Writes an audit entry for a change made here. The audit trigger does not
+ * cover auth accounts, and service role writes are not attributed to the
+ * admin there.
+ */
+const recordAudit = async (
+  supabase: SupabaseClient,
+  req: Request,
+  actor: User,
+  action: 'INSERT' | 'UPDATE' | 'DELETE',
+  tableName: 'users' | 'invitations',
+  recordId: string,
+  changes: { old?: Record<string, unknown>; new?: Record<string, unknown> },
+) => {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? '';
+  const { error } = await supabase.from('audit_logs').insert({
+    user_id: actor.id,
+    actor_email: actor.email,
+    action,
+    table_name: tableName,
+    record_id: recordId,
+    old_data: changes.old ?? null,
+    new_data: changes.new ?? null,
+    ip_address: /^[0-9a-fA-F:.]+$/.test(ip) ? ip : null,
+  });
+
+  if (error) {
+    console.error('Error writing audit log:', error);
+  }
+};
+
+const validatePassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new RequestError(`Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein`);
+  }
+};
+
+const listUsers = async (supabase: SupabaseClient) => {
+  const users: {
+    user_id: string;
+    email_confirmed_at: string | null;
+    last_sign_in_at: string | null;
+    mfa_enabled: boolean;
+  }[] = [];
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: LIST_PAGE_SIZE });
+    if (error) throw error;
+
+    users.push(...data.users.map((user) => ({
+      user_id: user.id,
+      email_confirmed_at: user.email_confirmed_at ?? null,
+      last_sign_in_at: user.last_sign_in_at ?? null,
+      mfa_enabled: user.factors?.some((factor) => factor.status === 'verified') ?? false,
+    })));
+
+    if (data.users.length < LIST_PAGE_SIZE) return users;
+  }
+};
+
+const createUser = async (
+  supabase: SupabaseClient,
+  req: Request,
+  actor: User,
+  body: Extract<AdminUserRequest, { action: 'create' }>,
+) => {
+  const email = body.email?.trim().toLowerCase() ?? '';
+  const password = body.password ?? '';
+  const role: UserRole = body.role && USER_ROLES.includes(body.role) ? body.role : 'CLIENT';
+
+  if (!email || !password) {
+    throw new RequestError('E-Mail und Passwort sind erforderlich');
+  }
+  validatePassword(password);
+
+  const { data, error } = await supabase.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: body.emailConfirmed ?? true,
+  });
+
+  if (error || !data.user) {
+    throw new RequestError(error?.message ?? 'Benutzer konnte nicht erstellt werden', 422);
+  }
+
+  const userId = data.user.id;
+
+  // Without a profile the account is unusable, so roll it back completely
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .insert({ user_id: userId, email, role });
+
+  if (profileError) {
+    await supabase.auth.admin.deleteUser(userId);
+    throw new Error(`Profil konnte nicht erstellt werden: ${profileError.message}`);
+  }
+
+  const { error: clientError } = await supabase
+    .from('clients')
+    .insert({ user_id: userId, name: email.split('@')[0], tokens_balance: STARTING_TOKENS });
+
+  if (clientError) {
+    await supabase.from('profiles').delete().eq('user_id', userId);
+    await supabase.auth.admin.deleteUser(userId);
+    throw new Error(`Client-Datensatz konnte nicht erstellt werden: ${clientError.message}`);
+  }
+
+  await recordAudit(supabase, req, actor, 'INSERT', 'users', userId, {
+    new: { email, role, email_confirmed: Boolean(data.user.email_confirmed_at) },
+  });
+
+  return { user_id: userId };
+};
+
+const updateUser = async (
+  supabase: SupabaseClient,
+  req: Request,
+  actor: User,
+  body: Extract<AdminUserRequest, { action: 'update' }>,
+) => {
+  if (!body.userId) {
+    throw new RequestError('userId ist erforderlich');
+  }
+
+  const password = body.password ?? '';
+  if (password) validatePassword(password);
+
+  // Auth can confirm an address but not take a confirmation back
+  const attributes: { password?: string; email_confirm?: boolean } = {};
+  if (password) attributes.password = password;
+  if (body.emailConfirmed) attributes.email_confirm = true;
+
+  if (Object.keys(attributes).length === 0) {
+    return { user_id: body.userId };
+  }
+
+  const { error } = await supabase.auth.admin.updateUserById(body.userId, attributes);
+  if (error) {
+    throw new RequestError(error.message, 422);
+  }
+
+  await recordAudit(supabase, req, actor, 'UPDATE', 'users', body.userId, {
+    new: {
+      ...(password && { password: 'geändert' }),
+      ...(attributes.email_confirm && { email_confirmed: true }),
+    },
+  });
+
+  return { user_id: body.userId };
+};
+
+const deleteUser = async (
+  supabase: SupabaseClient,
+  req: Request,
+  actor: User,
+  body: Extract<AdminUserRequest, { action: 'delete' }>,
+) => {
+  if (!body.userId) {
+    throw new RequestError('userId ist erforderlich');
+  }
+
+  if (body.userId === actor.id) {
+    throw new RequestError('Sie können Ihr eigenes Konto nicht löschen', 403);
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('email, role')
+    .eq('user_id', body.userId)
+    .maybeSingle();
+
+  // Without deleteClient the client stays: another member takes it over,
+  // otherwise it is kept without user (see hand_over_clients)
+  let clientDeleted = false;
+  if (body.deleteClient) {
+    const { data: deletedClients, error } = await supabase
+      .from('clients')
+      .delete()
+      .eq('user_id', body.userId)
+      .select('id');
+    if (error) throw error;
+    clientDeleted = deletedClients.length > 0;
+  } else {
+    const { error } = await supabase.rpc('hand_over_clients', { p_user_id: body.userId });
+    if (error) throw error;
+  }
+
+  const { error: assignmentError } = await supabase
+    .from('webhook_assignments')
+    .delete()
+    .eq('user_id', body.userId);
+  if (assignmentError) throw assignmentError;
+
+  const { error: profileError } = await supabase.from('profiles').delete().eq('user_id', body.userId);
+  if (profileError) throw profileError;
+
+  const { error } = await supabase.auth.admin.deleteUser(body.userId);
+  if (error) {
+    throw new RequestError(error.message, 422);
+  }
+
+  await recordAudit(supabase, req, actor, 'DELETE', 'users', body.userId, {
+    old: { ...profile, client_deleted: clientDeleted },
+  });
+
+  return { user_id: body.userId };
+};
+
+/**
+ * Removes all second factors and recovery codes of a user who lost the
+ * authenticator. The next sign-in only needs the password.
+ */
+const resetMfa = async (
+  supabase: SupabaseClient,
+  req: Request,
+  actor: User,
+  body: Extract<AdminUserRequest, { action: 'resetMfa' }>,
+) => {
+  if (!body.userId) {
+    throw new RequestError('userId ist erforderlich');
+  }
+
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId: body.userId });
+  if (error) {
+    throw new RequestError(error.message, 422);
+  }
+
+  for (const factor of data.factors) {
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId: body.userId });
+    if (deleteError) throw deleteError;
+  }
+
+  const { error: codesError } = await supabase.from('mfa_recovery_codes').delete().eq('user_id', body.userId);
+  if (codesError) throw codesError;
+
+  await recordAudit(supabase, req, actor, 'UPDATE', 'users', body.userId, {
+    old: { mfa_factors: data.factors.length },
+    new: { mfa_factors: 0 },
+  });
+
+  return { user_id: body.userId };
+};
+
+const inviteUser = async (
+  supabase: SupabaseClient,
+  req: Request,
+  actor: User,
+  body: Extract<AdminUserRequest, { action: 'invite' }>,
+) => {
+  const email = body.email?.trim().toLowerCase() ?? '';
+  const startingTokens = body.startingTokens ?? STARTING_TOKENS;
+  const validHours = body.validHours ?? MAX_INVITATION_HOURS;
+  const webhookIds = body.webhookIds ?? [];
+
+  if (!email) {
+    throw new RequestError('E-Mail ist erforderlich');
+  }
+  if (!Number.isInteger(startingTokens) || startingTokens < 0) {
+    throw new RequestError('Ungültiges Startguthaben');
+  }
+  if (!Number.isInteger(validHours) || validHours < 1 || validHours > MAX_INVITATION_HOURS) {
+    throw new RequestError(`Einladungen sind 1 bis ${MAX_INVITATION_HOURS} Stunden gültig`);
+  }
+  if (!body.redirectTo) {
+    throw new RequestError('redirectTo ist erforderlich');
+  }
+
+  const { data: existingProfile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existingProfile) {
+    throw new RequestError('Für diese E-Mail-Adresse existiert bereits ein Benutzer', 409);
+  }
+
+  if (webhookIds.length > 0) {
+    const { count, error } = await supabase
+      .from('webhooks')
+      .select('id', { count: 'exact', head: true })
+      .in('id', webhookIds);
+    if (error) throw error;
+    if (count !== new Set(webhookIds).size) {
+      throw new RequestError('Ungültige Webhook-Auswahl');
+    }
+  }
+
+  // A new invitation replaces an open or expired one for the same address
+  await closeOpenInvitations(supabase, email);
+
+  const { data, error } = await supabase.auth.admin.inviteUserByEmail(email, { redirectTo: body.redirectTo });
+  if (error || !data.user) {
+    throw new RequestError(error?.message ?? 'Einladung konnte nicht gesendet werden', 422);
+  }
+
+  const expiresAt = new Date(Date.now() + validHours * 60 * 60 * 1000).toISOString();
+  const { data: invitation, error: invitationError } = await supabase
+    .from('invitations')
+    .insert({
+      email,
+      user_id: data.user.id,
+      starting_tokens: startingTokens,
+      webhook_ids: webhookIds,
+      invited_by: actor.id,
+      expires_at: expiresAt,
+    })
+    .select('id')
+    .single();
+
+  if (invitationError) {
+    await supabase.auth.admin.deleteUser(data.user.id);
+    throw invitationError;
+  }
+
+  await recordAudit(supabase, req, actor, 'INSERT', 'invitations', invitation.id, {
+    new: { email, starting_tokens: startingTokens, webhook_ids: webhookIds, expires_at: expiresAt },
+  });
+
+  return { id: invitation.id };
+};
+
+const revokeInvitation = async (
+  supabase: SupabaseClient,
+  req: Request,
+  actor: User,
+  body: Extract<AdminUserRequest, { action: 'revokeInvitation' }>,
+) => {
+  if (!body.invitationId) {
+    throw new RequestError('invitationId ist erforderlich');
+  }
+
+  const { data: invitation } = await supabase
+    .from('invitations')
+    .select('id, email, user_id, accepted_at, revoked_at')
+    .eq('id', body.invitationId)
+    .maybeSingle();
+
+  if (!invitation || invitation.revoked_at) {
+    throw new RequestError('Einladung nicht gefunden', 404);
+  }
+  if (invitation.accepted_at) {
+    throw new RequestError('Die Einladung wurde bereits angenommen', 409);
+  }
+
+  await closeInvitations(supabase, [invitation]);
+
+  await recordAudit(supabase, req, actor, 'UPDATE', 'invitations', invitation.id, {
+    old: { email: invitation.email, revoked_at: null },
+    new: { email: invitation.email, revoked_at: new Date().toISOString() },
+  });
+
+  return { id: invitation.id };
+};
+
+/*
+  Manages auth accounts for admins with the service role. Support staff may
+  list the accounts.
+
+  Creating users here keeps the admin's own browser session untouched, and
+  passwords, email confirmation and the auth record itself can only be
+  changed through the admin API.
+
+  Request: JSON with an `action`:
+  - `list`: confirmation and last sign-in of all accounts
+  - `create`: `email`, `password`, `role`, `emailConfirmed` (default true);
+    creates the profile and a client with the starting balance
+  - `update`: `userId` and a new `password` and/or `emailConfirmed: true`
+  - `delete`: `userId`, `deleteClient`; removes profile, assignments and the
+    auth account, optionally the client with its webhooks
+  - `invite`: `email`, `startingTokens`, `webhookIds`, `validHours` and the
+    `redirectTo` page; sends the invitation email. The invitee sets a
+    password there and calls accept_invitation.
+  - `revokeInvitation`: `invitationId`
+  - `resetMfa`: `userId`; removes the user's second factors
+*/
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Methode nicht erlaubt' }, 405);
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: 'Nicht angemeldet' }, 401);
+  }
+
+  let body: AdminUserRequest;
+  try {
+    body = await req.json();
+  } catch (error) {
+    console.error('Invalid request body:', error);
+    return jsonResponse({ error: 'Ungültige Anfrage' }, 400);
+  }
+
+  // Checked with the caller's session, so a required second factor applies
+  const { data: allowed } = await createUserClient(req).rpc('has_permission', {
+    p_permission: body.action === 'list' ? 'users.view' : 'users.manage',
+  });
+  if (!allowed) {
+    return jsonResponse({ error: 'Nur Administratoren können Benutzer verwalten' }, 403);
+  }
+
+  const supabase = createServiceClient();
+
+  try {
+    switch (body.action) {
+      case 'list':
+        return jsonResponse(await listUsers(supabase));
+      case 'create':
+        return jsonResponse(await createUser(supabase, req, user, body), 201);
+      case 'update':
+        return jsonResponse(await updateUser(supabase, req, user, body));
+      case 'delete':
+        return jsonResponse(await deleteUser(supabase, req, user, body));
+      case 'invite':
+        return jsonResponse(await inviteUser(supabase, req, user, body), 201);
+      case 'revokeInvitation':
+        return jsonResponse(await revokeInvitation(supabase, req, user, body));
+      case 'resetMfa':
+        return jsonResponse(await resetMfa(supabase, req, user, body));
+      default:
+        return jsonResponse({ error: 'Unbekannte Aktion' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error(`Error in admin-users (${body.action}):`, error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Interner Fehler' }, 500);
+  }
+});
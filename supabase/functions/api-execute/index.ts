@@ -0,0 +1,140 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as encodeHex } from "https://deno.land/std@0.168.0/encoding/hex.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { canAccessWebhook, findMembership, readExecutionRequest, startExecution, WEBHOOK_COLUMNS } from "../_shared/execution.ts";
+import type { WebhookInput, WebhookRecord } from "../_shared/webhook-request.ts";
+
+const TOKEN_PREFIX = 'whk_';
+
+interface ApiToken {
+  id: string;
+  user_id: string;
+  webhook_ids: string[] | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return new TextDecoder().decode(encodeHex(new Uint8Array(digest)));
+};
+
+/*
+  Executes a webhook with a personal API token instead of a user session.
+
+  The token is sent as `Authorization: Bearer whk_...`. It acts for the user
+  who created it: the webhook must belong to the user's client or be
+  assigned to the user and, if the token is limited to certain webhooks, be
+  one of them. Tokens are charged and executions recorded exactly like runs
+  started in the app.
+
+  POST: multipart/form-data with `webhook_id` and either `text` or `file`,
+  or JSON `{ "webhook_id": "...", "text": "..." }`. Webhooks with input
+  fields take `{ "webhook_id": "...", "fields": { ... } }` or one multipart
+  part per field. Answers like
+  execute-webhook: the result, or 202 with the execution id for webhooks
+  that run in the background.
+  GET ?execution_id=...: status and result of an execution of the client,
+  to follow background executions. Owners see all executions of the client,
+  other members only their own.
+*/
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return jsonResponse({ error: 'Methode nicht erlaubt' }, 405);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return jsonResponse({ error: 'API-Token fehlt' }, 401);
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: apiToken } = await supabase
+    .from('api_tokens')
+    .select('id, user_id, webhook_ids, expires_at, revoked_at')
+    .eq('token_hash', await hashToken(token))
+    .maybeSingle<ApiToken>();
+
+  if (!apiToken || apiToken.revoked_at) {
+    return jsonResponse({ error: 'Ungültiges API-Token' }, 401);
+  }
+
+  if (apiToken.expires_at && new Date(apiToken.expires_at) <= new Date()) {
+    return jsonResponse({ error: 'API-Token ist abgelaufen' }, 401);
+  }
+
+  const membership = await findMembership(supabase, apiToken.user_id);
+  if (!membership || membership.role === 'viewer') {
+    return jsonResponse({ error: 'Kein Client für dieses API-Token' }, 403);
+  }
+  const client = membership.client;
+
+  const { error: touchError } = await supabase
+    .from('api_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiToken.id);
+
+  if (touchError) {
+    console.error('Error updating last use of API token:', touchError);
+  }
+
+  if (req.method === 'GET') {
+    const executionId = new URL(req.url).searchParams.get('execution_id');
+    if (!executionId) {
+      return jsonResponse({ error: 'execution_id ist erforderlich' }, 400);
+    }
+
+    let query = supabase
+      .from('executions')
+      .select('id, webhook_id, status, status_code, duration_ms, response, error, tokens_used, requested_at, completed_at')
+      .eq('id', executionId)
+      .eq('client_id', client.id);
+
+    // Like in the app, members only see the runs they started themselves
+    if (membership.role !== 'owner') {
+      query = query.eq('started_by', apiToken.user_id);
+    }
+
+    const { data: execution } = await query.maybeSingle();
+
+    if (!execution) {
+      return jsonResponse({ error: 'Ausführung nicht gefunden' }, 404);
+    }
+    return jsonResponse(execution);
+  }
+
+  let webhookId: string | null = null;
+  let input: WebhookInput = {};
+  try {
+    ({ webhookId, input } = await readExecutionRequest(req));
+  } catch (error) {
+    console.error('Invalid request body:', error);
+    return jsonResponse({ error: 'Ungültige Anfrage' }, 400);
+  }
+
+  if (!webhookId) {
+    return jsonResponse({ error: 'webhook_id ist erforderlich' }, 400);
+  }
+
+  if (apiToken.webhook_ids && !apiToken.webhook_ids.includes(webhookId)) {
+    return jsonResponse({ error: 'Webhook ist für dieses API-Token nicht freigegeben' }, 403);
+  }
+
+  const { data: webhook } = await supabase
+    .from('webhooks')
+    .select(WEBHOOK_COLUMNS)
+    .eq('id', webhookId)
+    .maybeSingle<WebhookRecord>();
+
+  if (!webhook || !await canAccessWebhook(supabase, webhook.id, apiToken.user_id)) {
+    return jsonResponse({ error: 'Webhook nicht gefunden' }, 404);
+  }
+
+  return startExecution(supabase, webhook, input, client, apiToken.user_id);
+});
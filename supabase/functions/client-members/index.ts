@@ -0,0 +1,188 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient, getRequestUser } from "../_shared/supabase.ts";
+import { closeInvitations, closeOpenInvitations, MAX_INVITATION_HOURS } from "../_shared/invitations.ts";
+
+const MEMBER_ROLES = ['owner', 'member', 'viewer'] as const;
+
+type MemberRole = typeof MEMBER_ROLES[number];
+
+type ClientMemberRequest =
+  | { action: 'invite'; email?: string; role?: MemberRole; validHours?: number; redirectTo?: string }
+  | { action: 'revokeInvitation'; invitationId?: string };
+
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+const inviteMember = async (
+  supabase: SupabaseClient,
+  actor: User,
+  clientId: string,
+  body: Extract<ClientMemberRequest, { action: 'invite' }>,
+) => {
+  const email = body.email?.trim().toLowerCase() ?? '';
+  const role = body.role ?? 'member';
+  const validHours = body.validHours ?? MAX_INVITATION_HOURS;
+
+  if (!email) {
+    throw new RequestError('E-Mail ist erforderlich');
+  }
+  if (!MEMBER_ROLES.includes(role)) {
+    throw new RequestError('Ungültige Rolle');
+  }
+  if (!Number.isInteger(validHours) || validHours < 1 || validHours > MAX_INVITATION_HOURS) {
+    throw new RequestError(`Einladungen sind 1 bis ${MAX_INVITATION_HOURS} Stunden gültig`);
+  }
+  if (!body.redirectTo) {
+    throw new RequestError('redirectTo ist erforderlich');
+  }
+
+  // A user belongs to one client, existing accounts cannot be added
+  const { data: existingProfile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existingProfile) {
+    throw new RequestError('Für diese E-Mail-Adresse existiert bereits ein Benutzer', 409);
+  }
+
+  const { data: openInvitation } = await supabase
+    .from('invitations')
+    .select('client_id')
+    .ilike('email', email)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  // Owners may renew their own invitations, but not replace someone else's
+  if (openInvitation && openInvitation.client_id !== clientId) {
+    throw new RequestError('Für diese E-Mail-Adresse besteht bereits eine Einladung', 409);
+  }
+
+  await closeOpenInvitations(supabase, email);
+
+  const { data, error } = await supabase.auth.admin.inviteUserByEmail(email, { redirectTo: body.redirectTo });
+  if (error || !data.user) {
+    throw new RequestError(error?.message ?? 'Einladung konnte nicht gesendet werden', 422);
+  }
+
+  const { data: invitation, error: invitationError } = await supabase
+    .from('invitations')
+    .insert({
+      email,
+      user_id: data.user.id,
+      client_id: clientId,
+      member_role: role,
+      starting_tokens: 0,
+      invited_by: actor.id,
+      expires_at: new Date(Date.now() + validHours * 60 * 60 * 1000).toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (invitationError) {
+    await supabase.auth.admin.deleteUser(data.user.id);
+    throw invitationError;
+  }
+
+  return { id: invitation.id };
+};
+
+const revokeInvitation = async (
+  supabase: SupabaseClient,
+  clientId: string,
+  body: Extract<ClientMemberRequest, { action: 'revokeInvitation' }>,
+) => {
+  if (!body.invitationId) {
+    throw new RequestError('invitationId ist erforderlich');
+  }
+
+  const { data: invitation } = await supabase
+    .from('invitations')
+    .select('id, user_id, accepted_at, revoked_at')
+    .eq('id', body.invitationId)
+    .eq('client_id', clientId)
+    .maybeSingle();
+
+  if (!invitation || invitation.revoked_at) {
+    throw new RequestError('Einladung nicht gefunden', 404);
+  }
+  if (invitation.accepted_at) {
+    throw new RequestError('Die Einladung wurde bereits angenommen', 409);
+  }
+
+  await closeInvitations(supabase, [invitation]);
+
+  return { id: invitation.id };
+};
+
+/*
+  Lets client owners invite colleagues into their client.
+
+  Invitees receive the Supabase invitation email, set a password on the
+  accept-invite page and join the owner's client through accept_invitation
+  with the role chosen here. Roles of existing members are changed with
+  set_client_member_role/remove_client_member, which need no service role.
+
+  Request: JSON with an `action`:
+  - `invite`: `email`, `role` (owner, member or viewer), `validHours` and the
+    `redirectTo` page
+  - `revokeInvitation`: `invitationId` of an open invitation of the client
+*/
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Methode nicht erlaubt' }, 405);
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: 'Nicht angemeldet' }, 401);
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: membership } = await supabase
+    .from('client_members')
+    .select('client_id, role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (membership?.role !== 'owner') {
+    return jsonResponse({ error: 'Nur Client-Inhaber können Mitglieder einladen' }, 403);
+  }
+
+  let body: ClientMemberRequest;
+  try {
+    body = await req.json();
+  } catch (error) {
+    console.error('Invalid request body:', error);
+    return jsonResponse({ error: 'Ungültige Anfrage' }, 400);
+  }
+
+  try {
+    switch (body.action) {
+      case 'invite':
+        return jsonResponse(await inviteMember(supabase, user, membership.client_id, body), 201);
+      case 'revokeInvitation':
+        return jsonResponse(await revokeInvitation(supabase, membership.client_id, body));
+      default:
+        return jsonResponse({ error: 'Unbekannte Aktion' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error(`Error in client-members (${body.action}):`, error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Interner Fehler' }, 500);
+  }
+});
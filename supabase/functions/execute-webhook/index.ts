@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient, createUserClient, getRequestUser } from "../_shared/supabase.ts";
+import { canAccessWebhook, findMembership, readExecutionRequest, startExecution, WEBHOOK_COLUMNS } from "../_shared/execution.ts";
+import type { WebhookInput, WebhookRecord } from "../_shared/webhook-request.ts";
+
+/*
+  Executes a webhook on behalf of the signed in user.
+
+  The browser only sends the webhook id and the input; URL and secret headers
+  never leave the server. Tokens are reserved and the execution is recorded
+  through reserve_execution/complete_execution, so the client can neither
+  skip the history entry nor touch its own balance.
+
+  Webhooks in ASYNC mode are queued: the function answers 202 with the
+  execution id right away and the request runs in the background. The page
+  follows the execution row (PENDING -> RUNNING -> final status).
+  CALLBACK webhooks are queued the same way; their final status is set by
+  the webhook-callback function once the remote system reports back.
+
+  Request: multipart/form-data with `webhook_id` and either `text` or `file`.
+*/
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Methode nicht erlaubt' }, 405);
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: 'Nicht angemeldet' }, 401);
+  }
+
+  let webhookId: string | null = null;
+  let input: WebhookInput = {};
+  try {
+    ({ webhookId, input } = await readExecutionRequest(req));
+  } catch (error) {
+    console.error('Invalid request body:', error);
+    return jsonResponse({ error: 'Ungültige Anfrage' }, 400);
+  }
+
+  if (!webhookId) {
+    return jsonResponse({ error: 'webhook_id ist erforderlich' }, 400);
+  }
+
+  // Admins signed in without a required second factor run webhooks like clients
+  const { data: isAdmin } = await createUserClient(req).rpc('is_current_user_admin');
+
+  const supabase = createServiceClient();
+
+  const { data: webhook, error: webhookError } = await supabase
+    .from('webhooks')
+    .select(WEBHOOK_COLUMNS)
+    .eq('id', webhookId)
+    .single<WebhookRecord>();
+
+  if (webhookError || !webhook) {
+    return jsonResponse({ error: 'Webhook nicht gefunden' }, 404);
+  }
+
+  let client: { id: string; tokens_balance: number } | null = null;
+  if (!isAdmin) {
+    const membership = await findMembership(supabase, user.id);
+
+    // Clients may only run their own and assigned webhooks
+    if (!membership || !await canAccessWebhook(supabase, webhook.id, user.id)) {
+      return jsonResponse({ error: 'Webhook nicht gefunden' }, 404);
+    }
+    if (membership.role === 'viewer') {
+      return jsonResponse({ error: 'Betrachter können keine Webhooks ausführen' }, 403);
+    }
+    client = membership.client;
+  }
+
+  return startExecution(supabase, webhook, input, client, user.id);
+});
@@ -0,0 +1,226 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createUserClient, getRequestUser } from "../_shared/supabase.ts";
+
+// search_executions returns at most 100 rows per call
+const PAGE_SIZE = 100;
+
+// Workbooks are built in memory, CSV is streamed
+const MAX_XLSX_ROWS = 50000;
+
+const FILTER_ARGS = [
+  'p_webhook_id',
+  'p_status',
+  'p_request_type',
+  'p_client_id',
+  'p_started_by',
+  'p_from',
+  'p_to',
+  'p_search',
+] as const;
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface ExportRow {
+  id: string;
+  requested_at: string;
+  completed_at: string | null;
+  status: string;
+  status_code: number | null;
+  duration_ms: number | null;
+  tokens_used: number;
+  request_type: string;
+  webhooks: { name: string } | null;
+  clients: { name: string } | null;
+}
+
+const HEADER = [
+  'Zeitpunkt',
+  'Abgeschlossen',
+  'Webhook',
+  'Client',
+  'Status',
+  'HTTP-Status',
+  'Dauer (ms)',
+  'Tokens',
+  'Eingabetyp',
+  'Ausführungs-ID',
+];
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Yields all executions matching the filters, page by page. Uses the
+ * caller's session, so row level security limits clients to their own rows.
+ */
+async function* readExecutions(req: Request, filters: Record<string, unknown>) {
+  const supabase = createUserClient(req);
+  let cursor: { requested_at: string; id: string } | null = null;
+
+  while (true) {
+    const { data, error } = await supabase
+      .rpc('search_executions', {
+        ...filters,
+        p_before_requested_at: cursor?.requested_at,
+        p_before_id: cursor?.id,
+        p_limit: PAGE_SIZE,
+      })
+      .select('id, requested_at, completed_at, status, status_code, duration_ms, tokens_used, request_type, webhooks:public_webhooks ( name ), clients ( name )');
+
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as ExportRow[];
+    if (rows.length > 0) yield rows;
+    if (rows.length < PAGE_SIZE) return;
+
+    cursor = rows[rows.length - 1];
+  }
+}
+
+// Spreadsheets run texts starting with these characters as formulas, the ' keeps them text
+const escapeFormula = (value: string) => /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+// Names are entered by users, the other cells are generated
+const toCells = (row: ExportRow, formatDate: (value: string | null) => string) => [
+  formatDate(row.requested_at),
+  formatDate(row.completed_at),
+  escapeFormula(row.webhooks?.name ?? ''),
+  escapeFormula(row.clients?.name ?? ''),
+  row.status,
+  row.status_code ?? '',
+  row.duration_ms ?? '',
+  row.tokens_used,
+  row.request_type,
+  row.id,
+];
+
+// Semicolons, because Excel with German regional settings expects them
+const toCsvLine = (cells: (string | number)[]) =>
+  cells.map((cell) => {
+    const value = String(cell);
+    return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }).join(';') + '\r\n';
+
+/*
+  Exports the execution history as CSV or Excel file.
+
+  Takes the same filters as the history page (arguments of search_executions)
+  and reads all matching executions with the caller's rights. CSV is streamed
+  while the pages are read, Excel files are limited to 50,000 rows.
+
+  Request: POST JSON `{ "format": "csv" | "xlsx", "filters": { "p_status": ..., ... }, "time_zone": "Europe/Berlin" }`
+  Response: the file as application/octet-stream, which supabase.functions.invoke
+  hands over as Blob.
+*/
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Methode nicht erlaubt' }, 405);
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: 'Nicht angemeldet' }, 401);
+  }
+
+  let format: ExportFormat;
+  let timeZone = 'Europe/Berlin';
+  const filters: Record<string, unknown> = {};
+  try {
+    const body = await req.json();
+    format = body?.format;
+    if (typeof body?.time_zone === 'string' && isValidTimeZone(body.time_zone)) {
+      timeZone = body.time_zone;
+    }
+    for (const key of FILTER_ARGS) {
+      const value = body?.filters?.[key];
+      if (typeof value === 'string' && value !== '') filters[key] = value;
+    }
+  } catch (error) {
+    console.error('Invalid request body:', error);
+    return jsonResponse({ error: 'Ungültige Anfrage' }, 400);
+  }
+
+  if (format !== 'csv' && format !== 'xlsx') {
+    return jsonResponse({ error: 'format muss csv oder xlsx sein' }, 400);
+  }
+
+  // sv-SE formats as "2025-09-03 10:12:45", which spreadsheets recognise as a date
+  const dateFormat = new Intl.DateTimeFormat('sv-SE', { timeZone, dateStyle: 'short', timeStyle: 'medium' });
+  const formatDate = (value: string | null) => value ? dateFormat.format(new Date(value)) : '';
+
+  const fileName = `ausfuehrungen-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const fileHeaders = {
+    ...corsHeaders,
+    'Content-Type': 'application/octet-stream',
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+  };
+
+  if (format === 'xlsx') {
+    const rows: (string | number)[][] = [HEADER];
+    try {
+      for await (const page of readExecutions(req, filters)) {
+        rows.push(...page.map((row) => toCells(row, formatDate)));
+        if (rows.length - 1 > MAX_XLSX_ROWS) {
+          return jsonResponse({ error: 'Zu viele Ausführungen für eine Excel-Datei. Bitte schränken Sie den Zeitraum ein oder exportieren Sie als CSV.' }, 413);
+        }
+      }
+    } catch (error) {
+      console.error('Error reading executions:', error);
+      return jsonResponse({ error: 'Die Ausführungen konnten nicht gelesen werden' }, 500);
+    }
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Ausführungen');
+    const bytes: Uint8Array = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+
+    return new Response(bytes, { headers: fileHeaders });
+  }
+
+  // Read the first page before answering, so errors still get a JSON response
+  const pages = readExecutions(req, filters);
+  let first: IteratorResult<ExportRow[]>;
+  try {
+    first = await pages.next();
+  } catch (error) {
+    console.error('Error reading executions:', error);
+    return jsonResponse({ error: 'Die Ausführungen konnten nicht gelesen werden' }, 500);
+  }
+
+  const encoder = new TextEncoder();
+  let next: IteratorResult<ExportRow[]> | null = first;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // The byte order mark makes Excel read the file as UTF-8
+      controller.enqueue(encoder.encode('\uFEFF' + toCsvLine(HEADER)));
+    },
+    // Read the next page only when the previous one has been sent
+    async pull(controller) {
+      try {
+        const result = next ?? await pages.next();
+        next = null;
+        if (result.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(result.value.map((row) => toCsvLine(toCells(row, formatDate))).join('')));
+      } catch (error) {
+        console.error('Error streaming executions:', error);
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, { headers: fileHeaders });
+});
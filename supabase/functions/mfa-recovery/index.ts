@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as encodeHex } from "https://deno.land/std@0.168.0/encoding/hex.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient, getRequestUser } from "../_shared/supabase.ts";
+
+// Codes are shown as xxxxx-xxxxx, users may type them without the dash
+const normalizeCode = (code: string) => {
+  const plain = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  return plain.length === 10 ? `${plain.slice(0, 5)}-${plain.slice(5)}` : null;
+};
+
+const hashCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code));
+  return new TextDecoder().decode(encodeHex(new Uint8Array(digest)));
+};
+
+/*
+  Signs in with a recovery code instead of the authenticator app.
+
+  Called with the session from the password sign-in (aal1). A valid, unused
+  code removes the user's second factors, so the session is sufficient again
+  after a refresh. The remaining codes belong to the removed factor and are
+  deleted as well; the user sets up two-factor authentication again in the
+  settings.
+
+  Request: JSON `{ "code": "xxxxx-xxxxx" }`
+*/
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Methode nicht erlaubt' }, 405);
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: 'Nicht angemeldet' }, 401);
+  }
+
+  let code: string | null = null;
+  try {
+    const body = await req.json();
+    code = typeof body.code === 'string' ? normalizeCode(body.code) : null;
+  } catch (error) {
+    console.error('Invalid request body:', error);
+  }
+
+  if (!code) {
+    return jsonResponse({ error: 'Ungültiger Wiederherstellungscode' }, 400);
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: usedCode, error: codeError } = await supabase
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .eq('code_hash', await hashCode(code))
+    .is('used_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (codeError) {
+    console.error('Error redeeming recovery code:', codeError);
+    return jsonResponse({ error: 'Der Code konnte nicht geprüft werden' }, 500);
+  }
+
+  if (!usedCode) {
+    return jsonResponse({ error: 'Ungültiger Wiederherstellungscode' }, 400);
+  }
+
+  const { data: factors, error: factorsError } = await supabase.auth.admin.mfa.listFactors({ userId: user.id });
+  if (factorsError) {
+    console.error('Error listing factors:', factorsError);
+    return jsonResponse({ error: 'Der zweite Faktor konnte nicht entfernt werden' }, 500);
+  }
+
+  for (const factor of factors.factors) {
+    const { error } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+    if (error) {
+      console.error('Error deleting factor:', error);
+      return jsonResponse({ error: 'Der zweite Faktor konnte nicht entfernt werden' }, 500);
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('mfa_recovery_codes')
+    .delete()
+    .eq('user_id', user.id);
+
+  if (deleteError) {
+    console.error('Error deleting recovery codes:', deleteError);
+  }
+
+  return jsonResponse({ factors_removed: factors.factors.length });
+});
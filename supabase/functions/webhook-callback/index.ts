@@ -0,0 +1,177 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { verifyCallbackUrl } from "../_shared/callback-token.ts";
+import { storeExecutionFile } from "../_shared/execution-files.ts";
+
+// Postgres error codes raised by complete_execution
+const COMPLETE_ERROR_STATUS: Record<string, number> = {
+  P0001: 409,
+  P0002: 404,
+};
+
+const MAX_ERROR_LENGTH = 1000;
+
+interface CallbackResult {
+  status: 'SUCCESS' | 'ERROR';
+  response: string | null;
+  file: File | null;
+  error: string | null;
+}
+
+const toText = (value: unknown) => {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const readCallbackResult = async (req: Request): Promise<CallbackResult | null> => {
+  const contentType = req.headers.get('content-type') ?? '';
+  let status: unknown;
+  let response: string | null = null;
+  let file: File | null = null;
+  let error: string | null = null;
+
+  if (contentType.includes('application/json')) {
+    const body = await req.json();
+    status = body?.status;
+    response = toText(body?.response ?? body?.result);
+    error = toText(body?.error);
+  } else if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+    const formData = await req.formData();
+    status = formData.get('status') ?? undefined;
+    const fileEntry = formData.get('file');
+    if (fileEntry instanceof File) file = fileEntry;
+    response = toText(formData.get('response') ?? formData.get('text'));
+    error = toText(formData.get('error'));
+  } else {
+    response = await req.text();
+  }
+
+  if (status === undefined || status === null || status === '') {
+    status = error ? 'ERROR' : 'SUCCESS';
+  }
+
+  if (status !== 'SUCCESS' && status !== 'ERROR') {
+    return null;
+  }
+
+  if (error && error.length > MAX_ERROR_LENGTH) {
+    error = error.substring(0, MAX_ERROR_LENGTH) + '...';
+  }
+
+  return {
+    status,
+    response: status === 'SUCCESS' ? response : null,
+    file: status === 'SUCCESS' ? file : null,
+    error: status === 'ERROR' ? (error ?? 'Der Webhook hat einen Fehler gemeldet') : null,
+  };
+};
+
+/*
+  Receives the final result of a CALLBACK execution from the remote system.
+
+  Files are stored in the execution-files bucket for webhooks with FILE
+  output; for TEXT output their content is stored as the response.
+
+  The URL is created per execution by execute-webhook and signed (see
+  _shared/callback-token.ts), so no user session is required. It can be used
+  once: complete_execution rejects executions that are already completed.
+
+  Request: POST with either
+    - JSON `{ "status": "SUCCESS" | "ERROR", "response": ..., "error": "..." }`
+    - multipart/form-data with `status`, `response` or `file`, `error`
+    - any other body, which is stored as the text response
+  `status` defaults to ERROR when an error is given, otherwise SUCCESS.
+*/
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Methode nicht erlaubt' }, 405);
+  }
+
+  const url = new URL(req.url);
+  const check = await verifyCallbackUrl(url);
+  if (check === 'invalid') {
+    return jsonResponse({ error: 'Ungültige Signatur' }, 401);
+  }
+  if (check === 'expired') {
+    return jsonResponse({ error: 'Callback-URL ist abgelaufen' }, 410);
+  }
+
+  const executionId = url.searchParams.get('execution_id')!;
+
+  let result: CallbackResult | null;
+  try {
+    result = await readCallbackResult(req);
+  } catch (error) {
+    console.error('Invalid callback body:', error);
+    return jsonResponse({ error: 'Ungültige Anfrage' }, 400);
+  }
+
+  if (!result) {
+    return jsonResponse({ error: 'status muss SUCCESS oder ERROR sein' }, 400);
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: execution, error: executionError } = await supabase
+    .from('executions')
+    .select('id, client_id, status, status_code, requested_at, started_at, attempts, webhooks ( output_type )')
+    .eq('id', executionId)
+    .single();
+
+  if (executionError || !execution) {
+    return jsonResponse({ error: 'Ausführung nicht gefunden' }, 404);
+  }
+
+  if (execution.status !== 'PENDING' && execution.status !== 'RUNNING') {
+    return jsonResponse({ error: 'Ausführung ist bereits abgeschlossen' }, 409);
+  }
+
+  if (result.file) {
+    const webhook = execution.webhooks as unknown as { output_type: 'TEXT' | 'FILE' } | null;
+    if (webhook?.output_type === 'FILE') {
+      const path = await storeExecutionFile(supabase, execution.client_id, executionId, 'output', {
+        name: result.file.name,
+        contentType: result.file.type || 'application/octet-stream',
+        body: result.file,
+      });
+      if (!path) {
+        return jsonResponse({ error: 'Die Datei konnte nicht gespeichert werden' }, 500);
+      }
+    } else {
+      result.response = await result.file.text();
+    }
+  }
+
+  const startedAt = new Date(execution.started_at ?? execution.requested_at).getTime();
+
+  const { error: completeError } = await supabase.rpc('complete_execution', {
+    p_execution_id: executionId,
+    p_status: result.status,
+    p_status_code: execution.status_code,
+    p_duration_ms: Date.now() - startedAt,
+    p_response: result.response,
+    p_error: result.error,
+    p_attempts: execution.attempts ?? [],
+  });
+
+  if (completeError) {
+    console.error('Error completing execution:', completeError);
+    return jsonResponse({ error: completeError.message }, COMPLETE_ERROR_STATUS[completeError.code] ?? 500);
+  }
+
+  const { error: receivedError } = await supabase
+    .from('executions')
+    .update({ callback_received_at: new Date().toISOString() })
+    .eq('id', executionId);
+
+  if (receivedError) {
+    console.error('Error storing callback time:', receivedError);
+  }
+
+  return jsonResponse({ success: true, execution_id: executionId, status: result.status });
+});
@@ -0,0 +1,135 @@
+/*
+  # Atomic Token Reservation for Webhook Executions
+
+  1. Database Changes
+    - `executions.status` becomes text with a check constraint and gains `PENDING`
+    - New function `reserve_execution` locks the client row, checks and debits
+      the token balance and records a PENDING execution in one transaction
+    - New function `complete_execution` stores the outcome and refunds the
+      reserved tokens unless the execution succeeded
+
+  2. Security
+    - Both functions are only executable by the service role (execute-webhook function)
+    - Clients can no longer update their own client row (tokens_balance)
+    - Clients can no longer insert executions directly
+*/
+
+-- Allow the PENDING state while a request is in flight
+ALTER TABLE public.executions
+ALTER COLUMN status TYPE text USING status::text;
+
+ALTER TABLE public.executions
+DROP CONSTRAINT IF EXISTS executions_status_check;
+
+ALTER TABLE public.executions
+ADD CONSTRAINT executions_status_check
+CHECK (status IN ('PENDING', 'SUCCESS', 'ERROR', 'TIMEOUT'));
+
+-- Reserve tokens and record the execution
+CREATE OR REPLACE FUNCTION public.reserve_execution(
+  p_webhook_id uuid,
+  p_client_id uuid,
+  p_payload text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+  v_balance integer;
+  v_execution_id uuid;
+BEGIN
+  SELECT * INTO v_webhook FROM webhooks WHERE id = p_webhook_id;
+
+  IF NOT FOUND OR v_webhook.client_id <> p_client_id THEN
+    RAISE EXCEPTION 'Webhook nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_webhook.is_active THEN
+    RAISE EXCEPTION 'Webhook ist nicht aktiv' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the client row so concurrent executions are serialized
+  SELECT tokens_balance INTO v_balance
+  FROM clients
+  WHERE id = p_client_id
+  FOR UPDATE;
+
+  IF v_balance < v_webhook.tokens_cost THEN
+    RAISE EXCEPTION 'Nicht genügend Tokens' USING ERRCODE = 'P0003';
+  END IF;
+
+  UPDATE clients
+  SET tokens_balance = tokens_balance - v_webhook.tokens_cost
+  WHERE id = p_client_id;
+
+  INSERT INTO executions (webhook_id, client_id, status, tokens_used, request_type, payload)
+  VALUES (p_webhook_id, p_client_id, 'PENDING', v_webhook.tokens_cost, v_webhook.input_type, p_payload)
+  RETURNING id INTO v_execution_id;
+
+  RETURN v_execution_id;
+END;
+$$;
+
+-- Store the outcome, refund the reservation when the execution did not succeed
+CREATE OR REPLACE FUNCTION public.complete_execution(
+  p_execution_id uuid,
+  p_status text,
+  p_status_code integer,
+  p_duration_ms integer,
+  p_response text,
+  p_error text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution executions%ROWTYPE;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_execution
+  FROM executions
+  WHERE id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ausführung nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_execution.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'Ausführung ist bereits abgeschlossen' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status <> 'SUCCESS' THEN
+    UPDATE clients
+    SET tokens_balance = tokens_balance + v_execution.tokens_used
+    WHERE id = v_execution.client_id;
+  END IF;
+
+  UPDATE executions
+  SET status = p_status,
+      status_code = p_status_code,
+      duration_ms = p_duration_ms,
+      response = p_response,
+      error = p_error,
+      tokens_used = CASE WHEN p_status = 'SUCCESS' THEN tokens_used ELSE 0 END
+  WHERE id = p_execution_id;
+
+  SELECT tokens_balance INTO v_balance FROM clients WHERE id = v_execution.client_id;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_execution(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_execution(uuid, text, integer, integer, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_execution(uuid, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_execution(uuid, text, integer, integer, text, text) TO service_role;
+
+-- Token balance and execution records are only written by the functions above
+DROP POLICY IF EXISTS "Client update own data" ON clients;
+DROP POLICY IF EXISTS "Client create own executions" ON executions;
@@ -0,0 +1,289 @@
+/*
+  # Token Ledger
+
+  1. New Tables
+    - `token_transactions` - one row per balance change of a client
+      - `kind` (GRANT, DEBIT, REFUND, ADJUSTMENT, EXPIRY)
+      - `amount` (signed, negative for debits and expiries)
+      - `balance_after` (balance of the client after this entry)
+      - `execution_id` (for DEBIT and REFUND entries)
+      - `actor_id` / `reason` (who changed the balance and why)
+
+  2. Database Changes
+    - `clients.tokens_balance` is now derived from the ledger and kept in sync by trigger
+    - Existing balances are carried over as an initial ADJUSTMENT entry
+    - New clients get their starting balance booked as GRANT
+    - `reserve_execution` / `complete_execution` book DEBIT / REFUND entries
+    - New function `adjust_tokens` for admin grants, corrections and expiries
+
+  3. Security
+    - `tokens_balance` can no longer be updated directly, not even by admins
+    - Clients can read their own ledger, admins can read all ledgers
+    - Ledger entries are only written by the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS public.token_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('GRANT', 'DEBIT', 'REFUND', 'ADJUSTMENT', 'EXPIRY')),
+  amount integer NOT NULL,
+  balance_after integer NOT NULL DEFAULT 0,
+  execution_id uuid REFERENCES public.executions(id) ON DELETE SET NULL,
+  actor_id uuid,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_transactions_client_id ON public.token_transactions(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_token_transactions_execution_id ON public.token_transactions(execution_id);
+
+-- Carry over existing balances before the triggers exist
+INSERT INTO public.token_transactions (client_id, kind, amount, balance_after, reason)
+SELECT id, 'ADJUSTMENT', tokens_balance, tokens_balance, 'Übernahme des bisherigen Guthabens'
+FROM public.clients
+WHERE tokens_balance <> 0;
+
+-- Compute balance_after from the ledger and mirror it into clients.tokens_balance
+CREATE OR REPLACE FUNCTION public.apply_token_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize all balance changes of a client
+  PERFORM 1 FROM clients WHERE id = NEW.client_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) + NEW.amount INTO NEW.balance_after
+  FROM token_transactions
+  WHERE client_id = NEW.client_id;
+
+  IF NEW.balance_after < 0 THEN
+    RAISE EXCEPTION 'Nicht genügend Tokens' USING ERRCODE = 'P0003';
+  END IF;
+
+  UPDATE clients SET tokens_balance = NEW.balance_after WHERE id = NEW.client_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_token_transaction ON public.token_transactions;
+CREATE TRIGGER apply_token_transaction
+  BEFORE INSERT ON public.token_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_token_transaction();
+
+-- The balance may only change through the ledger trigger above
+CREATE OR REPLACE FUNCTION public.protect_tokens_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.tokens_balance IS DISTINCT FROM OLD.tokens_balance AND pg_trigger_depth() < 2 THEN
+    RAISE EXCEPTION 'tokens_balance kann nur über das Token-Ledger geändert werden';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_tokens_balance ON public.clients;
+CREATE TRIGGER protect_tokens_balance
+  BEFORE UPDATE OF tokens_balance ON public.clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_tokens_balance();
+
+-- Book the starting balance of new clients as a grant
+CREATE OR REPLACE FUNCTION public.grant_initial_tokens()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.tokens_balance <> 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, actor_id, reason)
+    VALUES (NEW.id, 'GRANT', NEW.tokens_balance, auth.uid(), 'Startguthaben');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS grant_initial_tokens ON public.clients;
+CREATE TRIGGER grant_initial_tokens
+  AFTER INSERT ON public.clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.grant_initial_tokens();
+
+-- Reservation now books a DEBIT entry
+CREATE OR REPLACE FUNCTION public.reserve_execution(
+  p_webhook_id uuid,
+  p_client_id uuid,
+  p_payload text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+  v_balance integer;
+  v_execution_id uuid;
+BEGIN
+  SELECT * INTO v_webhook FROM webhooks WHERE id = p_webhook_id;
+
+  IF NOT FOUND OR v_webhook.client_id <> p_client_id THEN
+    RAISE EXCEPTION 'Webhook nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_webhook.is_active THEN
+    RAISE EXCEPTION 'Webhook ist nicht aktiv' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the client row so concurrent executions are serialized
+  SELECT tokens_balance INTO v_balance
+  FROM clients
+  WHERE id = p_client_id
+  FOR UPDATE;
+
+  IF v_balance < v_webhook.tokens_cost THEN
+    RAISE EXCEPTION 'Nicht genügend Tokens' USING ERRCODE = 'P0003';
+  END IF;
+
+  INSERT INTO executions (webhook_id, client_id, status, tokens_used, request_type, payload)
+  VALUES (p_webhook_id, p_client_id, 'PENDING', v_webhook.tokens_cost, v_webhook.input_type, p_payload)
+  RETURNING id INTO v_execution_id;
+
+  IF v_webhook.tokens_cost > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (p_client_id, 'DEBIT', -v_webhook.tokens_cost, v_execution_id, v_webhook.name);
+  END IF;
+
+  RETURN v_execution_id;
+END;
+$$;
+
+-- Completion now books a REFUND entry when the execution did not succeed
+CREATE OR REPLACE FUNCTION public.complete_execution(
+  p_execution_id uuid,
+  p_status text,
+  p_status_code integer,
+  p_duration_ms integer,
+  p_response text,
+  p_error text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution executions%ROWTYPE;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_execution
+  FROM executions
+  WHERE id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ausführung nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_execution.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'Ausführung ist bereits abgeschlossen' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status <> 'SUCCESS' AND v_execution.tokens_used > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (v_execution.client_id, 'REFUND', v_execution.tokens_used, p_execution_id, 'Ausführung fehlgeschlagen');
+  END IF;
+
+  UPDATE executions
+  SET status = p_status,
+      status_code = p_status_code,
+      duration_ms = p_duration_ms,
+      response = p_response,
+      error = p_error,
+      tokens_used = CASE WHEN p_status = 'SUCCESS' THEN tokens_used ELSE 0 END
+  WHERE id = p_execution_id;
+
+  SELECT tokens_balance INTO v_balance FROM clients WHERE id = v_execution.client_id;
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Admin grants, corrections and expiries
+CREATE OR REPLACE FUNCTION public.adjust_tokens(
+  p_client_id uuid,
+  p_kind text,
+  p_amount integer,
+  p_reason text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount integer := p_amount;
+  v_balance integer;
+BEGIN
+  IF NOT is_current_user_admin() THEN
+    RAISE EXCEPTION 'Nur Administratoren können Token-Guthaben ändern' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('GRANT', 'ADJUSTMENT', 'EXPIRY') THEN
+    RAISE EXCEPTION 'Ungültige Buchungsart: %', p_kind;
+  END IF;
+
+  IF p_amount = 0 THEN
+    RAISE EXCEPTION 'Der Betrag darf nicht 0 sein';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Bitte geben Sie einen Grund an';
+  END IF;
+
+  -- Grants always add, expiries always remove tokens
+  IF p_kind = 'GRANT' THEN
+    v_amount := abs(p_amount);
+  ELSIF p_kind = 'EXPIRY' THEN
+    v_amount := -abs(p_amount);
+  END IF;
+
+  INSERT INTO token_transactions (client_id, kind, amount, actor_id, reason)
+  VALUES (p_client_id, p_kind, v_amount, auth.uid(), trim(p_reason))
+  RETURNING balance_after INTO v_balance;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_tokens(uuid, text, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.adjust_tokens(uuid, text, integer, text) TO authenticated;
+
+-- RLS for the ledger: read only, writes go through the functions above
+ALTER TABLE public.token_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin view all token transactions"
+ON public.token_transactions
+FOR SELECT
+TO authenticated
+USING (is_current_user_admin());
+
+CREATE POLICY "Client view own token transactions"
+ON public.token_transactions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM clients
+    WHERE clients.id = token_transactions.client_id
+    AND clients.user_id = auth.uid()
+  )
+);
+
+GRANT SELECT ON public.token_transactions TO authenticated;
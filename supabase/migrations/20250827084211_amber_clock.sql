@@ -0,0 +1,26 @@
+/*
+  # Configurable Webhook Timeouts
+
+  1. Changes
+    - Add `timeout_ms` column to webhooks table (default 30 seconds)
+    - Requests exceeding the timeout are aborted by the execute-webhook
+      function and recorded with status TIMEOUT (tokens are refunded)
+
+  2. Security
+    - No changes to RLS policies needed
+    - Column is accessible via existing policies
+*/
+
+ALTER TABLE public.webhooks
+ADD COLUMN IF NOT EXISTS timeout_ms integer DEFAULT 30000 NOT NULL;
+
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_timeout_ms_check;
+
+-- Edge functions are stopped by the platform after a few minutes anyway
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_timeout_ms_check
+CHECK (timeout_ms BETWEEN 1000 AND 300000);
+
+COMMENT ON COLUMN public.webhooks.timeout_ms
+IS 'Maximum duration of a webhook request in milliseconds before it is aborted and recorded as TIMEOUT';
@@ -0,0 +1,100 @@
+/*
+  # Retry Policy per Webhook
+
+  1. Changes
+    - Add retry settings to webhooks table
+      - `retry_max_attempts` (total attempts including the first, 1 = no retry)
+      - `retry_backoff_ms` (delay before the first retry, doubled for every further retry)
+      - `retry_on_status` (HTTP status codes that trigger a retry)
+    - Add `attempts` column to executions table with one entry per attempt
+      (attempt number, status code, duration, error)
+    - `complete_execution` stores the attempts of an execution
+
+  2. Security
+    - No changes to RLS policies needed
+    - Columns are accessible via existing policies
+*/
+
+ALTER TABLE public.webhooks
+ADD COLUMN IF NOT EXISTS retry_max_attempts integer DEFAULT 1 NOT NULL,
+ADD COLUMN IF NOT EXISTS retry_backoff_ms integer DEFAULT 1000 NOT NULL,
+ADD COLUMN IF NOT EXISTS retry_on_status integer[] DEFAULT '{502,503,504}' NOT NULL;
+
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_retry_max_attempts_check,
+DROP CONSTRAINT IF EXISTS webhooks_retry_backoff_ms_check;
+
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_retry_max_attempts_check CHECK (retry_max_attempts BETWEEN 1 AND 5),
+ADD CONSTRAINT webhooks_retry_backoff_ms_check CHECK (retry_backoff_ms BETWEEN 0 AND 60000);
+
+COMMENT ON COLUMN public.webhooks.retry_max_attempts
+IS 'Total number of attempts including the first request (1 = no retry)';
+COMMENT ON COLUMN public.webhooks.retry_backoff_ms
+IS 'Delay before the first retry in milliseconds, doubled for every further retry';
+COMMENT ON COLUMN public.webhooks.retry_on_status
+IS 'HTTP status codes that trigger a retry, connection errors are always retried';
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS attempts jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+COMMENT ON COLUMN public.executions.attempts
+IS 'One entry per attempt: attempt, status_code, duration_ms, error, started_at';
+
+-- complete_execution gains the attempts parameter
+DROP FUNCTION IF EXISTS public.complete_execution(uuid, text, integer, integer, text, text);
+
+CREATE OR REPLACE FUNCTION public.complete_execution(
+  p_execution_id uuid,
+  p_status text,
+  p_status_code integer,
+  p_duration_ms integer,
+  p_response text,
+  p_error text,
+  p_attempts jsonb DEFAULT '[]'::jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution executions%ROWTYPE;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_execution
+  FROM executions
+  WHERE id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ausführung nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_execution.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'Ausführung ist bereits abgeschlossen' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status <> 'SUCCESS' AND v_execution.tokens_used > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (v_execution.client_id, 'REFUND', v_execution.tokens_used, p_execution_id, 'Ausführung fehlgeschlagen');
+  END IF;
+
+  UPDATE executions
+  SET status = p_status,
+      status_code = p_status_code,
+      duration_ms = p_duration_ms,
+      response = p_response,
+      error = p_error,
+      attempts = COALESCE(p_attempts, '[]'::jsonb),
+      tokens_used = CASE WHEN p_status = 'SUCCESS' THEN tokens_used ELSE 0 END
+  WHERE id = p_execution_id;
+
+  SELECT tokens_balance INTO v_balance FROM clients WHERE id = v_execution.client_id;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_execution(uuid, text, integer, integer, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_execution(uuid, text, integer, integer, text, text, jsonb) TO service_role;
@@ -0,0 +1,162 @@
+/*
+  # Asynchronous Webhook Executions
+
+  1. Changes
+    - Add `execution_mode` column to webhooks table (SYNC or ASYNC)
+    - Add `RUNNING` status and `started_at` / `completed_at` timestamps to executions
+    - `complete_execution` accepts PENDING and RUNNING executions and sets `completed_at`
+    - New function `fail_stale_executions` marks executions that never finished
+      (e.g. the edge runtime was stopped) as TIMEOUT and refunds their tokens
+    - Executions are published via Supabase Realtime for live progress
+
+  2. Security
+    - No changes to RLS policies needed, Realtime respects the existing policies
+    - `fail_stale_executions` is only executable by the service role
+*/
+
+ALTER TABLE public.webhooks
+ADD COLUMN IF NOT EXISTS execution_mode text DEFAULT 'SYNC' NOT NULL;
+
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_execution_mode_check;
+
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_execution_mode_check CHECK (execution_mode IN ('SYNC', 'ASYNC'));
+
+-- Files are only returned synchronously until output files are persisted
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_async_output_check;
+
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_async_output_check CHECK (execution_mode = 'SYNC' OR output_type = 'TEXT');
+
+COMMENT ON COLUMN public.webhooks.execution_mode
+IS 'SYNC: the caller waits for the result, ASYNC: the run is queued and the caller follows its progress';
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS started_at timestamptz,
+ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+ALTER TABLE public.executions
+DROP CONSTRAINT IF EXISTS executions_status_check;
+
+ALTER TABLE public.executions
+ADD CONSTRAINT executions_status_check
+CHECK (status IN ('PENDING', 'RUNNING', 'SUCCESS', 'ERROR', 'TIMEOUT'));
+
+CREATE INDEX IF NOT EXISTS idx_executions_open
+ON public.executions(requested_at)
+WHERE status IN ('PENDING', 'RUNNING');
+
+CREATE OR REPLACE FUNCTION public.complete_execution(
+  p_execution_id uuid,
+  p_status text,
+  p_status_code integer,
+  p_duration_ms integer,
+  p_response text,
+  p_error text,
+  p_attempts jsonb DEFAULT '[]'::jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution executions%ROWTYPE;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_execution
+  FROM executions
+  WHERE id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ausführung nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_execution.status NOT IN ('PENDING', 'RUNNING') THEN
+    RAISE EXCEPTION 'Ausführung ist bereits abgeschlossen' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status <> 'SUCCESS' AND v_execution.tokens_used > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (v_execution.client_id, 'REFUND', v_execution.tokens_used, p_execution_id, 'Ausführung fehlgeschlagen');
+  END IF;
+
+  UPDATE executions
+  SET status = p_status,
+      status_code = p_status_code,
+      duration_ms = p_duration_ms,
+      response = p_response,
+      error = p_error,
+      attempts = COALESCE(p_attempts, '[]'::jsonb),
+      tokens_used = CASE WHEN p_status = 'SUCCESS' THEN tokens_used ELSE 0 END,
+      completed_at = now()
+  WHERE id = p_execution_id;
+
+  SELECT tokens_balance INTO v_balance FROM clients WHERE id = v_execution.client_id;
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Executions still open long after their webhook's timeout and retries
+-- could possibly have taken will never finish
+CREATE OR REPLACE FUNCTION public.fail_stale_executions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_execution_id IN
+    SELECT e.id
+    FROM executions e
+    JOIN webhooks w ON w.id = e.webhook_id
+    WHERE e.status IN ('PENDING', 'RUNNING')
+    AND e.requested_at < now()
+      - make_interval(secs => (w.timeout_ms * w.retry_max_attempts + w.retry_backoff_ms * power(2, w.retry_max_attempts)) / 1000.0)
+      - interval '5 minutes'
+  LOOP
+    PERFORM complete_execution(
+      v_execution_id,
+      'TIMEOUT',
+      NULL,
+      NULL,
+      NULL,
+      'Die Ausführung wurde nicht abgeschlossen und wurde abgebrochen'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stale_executions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_stale_executions() TO service_role;
+
+-- Run the cleanup every five minutes where pg_cron is available
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('fail-stale-executions', '*/5 * * * *', 'SELECT public.fail_stale_executions()');
+    END IF;
+END $$;
+
+-- Live progress for ExecuteWebhook and History
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'executions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.executions;
+    END IF;
+END $$;
@@ -0,0 +1,228 @@
+/*
+  # Execution Callbacks and Notifications
+
+  1. Changes
+    - New execution mode `CALLBACK`: the remote system acknowledges the request
+      and posts the final result later to a per-execution callback URL
+    - Add `callback_timeout_ms` to webhooks (how long to wait for the callback)
+    - Add `started_by`, `callback_expires_at` and `callback_received_at` to executions
+    - `reserve_execution` records the user who started the execution
+    - `fail_stale_executions` respects the callback deadline
+
+  2. New Tables
+    - `notifications` - messages for a single user, e.g. finished background executions
+      - `title`, `body`, `link`
+      - `read_at` (null while unread)
+
+  3. Security
+    - Users can only read and mark their own notifications as read
+    - Notifications are only created by the trigger on executions
+*/
+
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_execution_mode_check;
+
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_execution_mode_check CHECK (execution_mode IN ('SYNC', 'ASYNC', 'CALLBACK'));
+
+COMMENT ON COLUMN public.webhooks.execution_mode
+IS 'SYNC: the caller waits for the result, ASYNC: the run is queued and the caller follows its progress, CALLBACK: like ASYNC, but the remote system posts the result to a callback URL';
+
+ALTER TABLE public.webhooks
+ADD COLUMN IF NOT EXISTS callback_timeout_ms integer DEFAULT 3600000 NOT NULL;
+
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_callback_timeout_ms_check;
+
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_callback_timeout_ms_check CHECK (callback_timeout_ms BETWEEN 60000 AND 86400000);
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS started_by uuid,
+ADD COLUMN IF NOT EXISTS callback_expires_at timestamptz,
+ADD COLUMN IF NOT EXISTS callback_received_at timestamptz;
+
+-- Reservation now records who started the execution
+DROP FUNCTION IF EXISTS public.reserve_execution(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.reserve_execution(
+  p_webhook_id uuid,
+  p_client_id uuid,
+  p_payload text,
+  p_started_by uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+  v_balance integer;
+  v_execution_id uuid;
+BEGIN
+  SELECT * INTO v_webhook FROM webhooks WHERE id = p_webhook_id;
+
+  IF NOT FOUND OR v_webhook.client_id <> p_client_id THEN
+    RAISE EXCEPTION 'Webhook nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_webhook.is_active THEN
+    RAISE EXCEPTION 'Webhook ist nicht aktiv' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the client row so concurrent executions are serialized
+  SELECT tokens_balance INTO v_balance
+  FROM clients
+  WHERE id = p_client_id
+  FOR UPDATE;
+
+  IF v_balance < v_webhook.tokens_cost THEN
+    RAISE EXCEPTION 'Nicht genügend Tokens' USING ERRCODE = 'P0003';
+  END IF;
+
+  INSERT INTO executions (webhook_id, client_id, status, tokens_used, request_type, payload, started_by)
+  VALUES (p_webhook_id, p_client_id, 'PENDING', v_webhook.tokens_cost, v_webhook.input_type, p_payload, p_started_by)
+  RETURNING id INTO v_execution_id;
+
+  IF v_webhook.tokens_cost > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (p_client_id, 'DEBIT', -v_webhook.tokens_cost, v_execution_id, v_webhook.name);
+  END IF;
+
+  RETURN v_execution_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_execution(uuid, uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_execution(uuid, uuid, text, uuid) TO service_role;
+
+-- Executions waiting for a callback are failed once the callback deadline passed
+CREATE OR REPLACE FUNCTION public.fail_stale_executions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_execution_id IN
+    SELECT e.id
+    FROM executions e
+    JOIN webhooks w ON w.id = e.webhook_id
+    WHERE e.status IN ('PENDING', 'RUNNING')
+    AND (
+      (e.callback_expires_at IS NOT NULL AND e.callback_expires_at < now())
+      OR (
+        e.callback_expires_at IS NULL
+        AND e.requested_at < now()
+          - make_interval(secs => (w.timeout_ms * w.retry_max_attempts + w.retry_backoff_ms * power(2, w.retry_max_attempts)) / 1000.0)
+          - interval '5 minutes'
+      )
+    )
+  LOOP
+    PERFORM complete_execution(
+      v_execution_id,
+      'TIMEOUT',
+      NULL,
+      NULL,
+      NULL,
+      'Die Ausführung wurde nicht abgeschlossen und wurde abgebrochen'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stale_executions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_stale_executions() TO service_role;
+
+-- Notifications
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  body text,
+  link text,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own notifications"
+ON public.notifications
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users update own notifications"
+ON public.notifications
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+GRANT SELECT, UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Tell the user when an execution running in the background has finished
+CREATE OR REPLACE FUNCTION public.notify_execution_finished()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+BEGIN
+  IF NEW.started_by IS NULL
+     OR OLD.status NOT IN ('PENDING', 'RUNNING')
+     OR NEW.status IN ('PENDING', 'RUNNING') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_webhook FROM webhooks WHERE id = NEW.webhook_id;
+
+  -- Synchronous runs show their result right away
+  IF NOT FOUND OR v_webhook.execution_mode = 'SYNC' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, title, body, link)
+  VALUES (
+    NEW.started_by,
+    CASE WHEN NEW.status = 'SUCCESS' THEN 'Ausführung abgeschlossen' ELSE 'Ausführung fehlgeschlagen' END,
+    CASE WHEN NEW.status = 'SUCCESS'
+      THEN v_webhook.name || ' wurde erfolgreich ausgeführt.'
+      ELSE v_webhook.name || ': ' || COALESCE(NEW.error, 'Unbekannter Fehler')
+    END,
+    '/execute/' || NEW.webhook_id || '?execution=' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_execution_finished ON public.executions;
+CREATE TRIGGER notify_execution_finished
+  AFTER UPDATE OF status ON public.executions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_execution_finished();
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+    END IF;
+END $$;
@@ -0,0 +1,53 @@
+/*
+  # Execution Files in Storage
+
+  1. Changes
+    - New private storage bucket `execution-files`
+      - Objects are stored as `<client_id>/<execution_id>/<input|output>/<file name>`
+    - Add `input_file_*` and `output_file_*` columns (path, name, MIME type, size) to executions
+    - Asynchronous webhooks may now return files
+
+  2. Security
+    - Clients can read the files of their own executions, admins can read all files
+    - Files are only written and deleted by the edge functions (service role)
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('execution-files', 'execution-files', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS input_file_path text,
+ADD COLUMN IF NOT EXISTS input_file_name text,
+ADD COLUMN IF NOT EXISTS input_file_type text,
+ADD COLUMN IF NOT EXISTS input_file_size integer,
+ADD COLUMN IF NOT EXISTS output_file_path text,
+ADD COLUMN IF NOT EXISTS output_file_name text,
+ADD COLUMN IF NOT EXISTS output_file_type text,
+ADD COLUMN IF NOT EXISTS output_file_size integer;
+
+-- Output files are persisted now, so background runs can return them as well
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_async_output_check;
+
+CREATE POLICY "Admin read all execution files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'execution-files'
+  AND public.is_current_user_admin()
+);
+
+CREATE POLICY "Client read own execution files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'execution-files'
+  AND EXISTS (
+    SELECT 1 FROM public.clients
+    WHERE clients.id::text = (storage.foldername(objects.name))[1]
+    AND clients.user_id = auth.uid()
+  )
+);
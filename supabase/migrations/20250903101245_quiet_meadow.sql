@@ -0,0 +1,71 @@
+/*
+  # Execution History Search
+
+  1. Changes
+    - New function `search_executions` returning one page of executions, newest first
+      - Filters: webhook, status, request type, client, date range and text search in payload and error
+      - Keyset pagination: pass `requested_at` and `id` of the last row of the previous page
+    - Indexes for the history order and the text search
+
+  2. Security
+    - The function runs with the caller's rights, so the existing row level
+      security on executions decides which rows are returned
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_executions_requested_at
+ON public.executions(requested_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_executions_client_requested_at
+ON public.executions(client_id, requested_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_executions_payload_trgm
+ON public.executions USING gin (payload extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_executions_error_trgm
+ON public.executions USING gin (error extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.search_executions(
+  p_webhook_id uuid DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_request_type text DEFAULT NULL,
+  p_client_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_before_requested_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 25
+)
+RETURNS SETOF public.executions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    -- Match the search text literally, not as a LIKE pattern
+    SELECT '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  )
+  SELECT e.*
+  FROM public.executions e, search
+  WHERE (p_webhook_id IS NULL OR e.webhook_id = p_webhook_id)
+    AND (p_status IS NULL OR e.status = p_status)
+    AND (p_request_type IS NULL OR e.request_type = p_request_type)
+    AND (p_client_id IS NULL OR e.client_id = p_client_id)
+    AND (p_from IS NULL OR e.requested_at >= p_from)
+    AND (p_to IS NULL OR e.requested_at < p_to)
+    AND (
+      p_search IS NULL OR btrim(p_search) = ''
+      OR e.payload ILIKE search.pattern
+      OR e.error ILIKE search.pattern
+    )
+    AND (
+      p_before_requested_at IS NULL
+      OR (e.requested_at, e.id) < (p_before_requested_at, p_before_id)
+    )
+  ORDER BY e.requested_at DESC, e.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_executions(uuid, text, text, uuid, timestamptz, timestamptz, text, timestamptz, uuid, integer) TO authenticated;
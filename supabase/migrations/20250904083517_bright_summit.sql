@@ -0,0 +1,171 @@
+/*
+  # Dashboard Statistics
+
+  1. New Functions
+    - `get_execution_stats` - totals, outcome counts, average duration and tokens spent this month
+    - `get_webhook_stats` - executions, success count and average duration per webhook
+    - `get_client_stats` - usage per client in the current month
+    - `get_system_stats` - system-wide counts for the admin dashboard
+
+  2. Security
+    - The first three functions run with the caller's rights: clients only
+      aggregate their own rows, admins may narrow the result to one client
+    - `get_system_stats` is restricted to admins
+    - "This month" is the calendar month in UTC
+*/
+
+CREATE OR REPLACE FUNCTION public.get_execution_stats(p_client_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  total_executions bigint,
+  successful_executions bigint,
+  failed_executions bigint,
+  open_executions bigint,
+  executions_this_month bigint,
+  tokens_spent_this_month bigint,
+  avg_duration_ms numeric,
+  last_execution_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE e.status = 'SUCCESS'),
+    count(*) FILTER (WHERE e.status IN ('ERROR', 'TIMEOUT')),
+    count(*) FILTER (WHERE e.status IN ('PENDING', 'RUNNING')),
+    count(*) FILTER (WHERE e.requested_at >= date_trunc('month', now())),
+    -- Debits are negative, refunds of failed runs positive
+    (
+      SELECT COALESCE(-SUM(t.amount), 0)::bigint
+      FROM token_transactions t
+      WHERE t.kind IN ('DEBIT', 'REFUND')
+        AND t.created_at >= date_trunc('month', now())
+        AND (p_client_id IS NULL OR t.client_id = p_client_id)
+    ),
+    round(avg(e.duration_ms) FILTER (WHERE e.status = 'SUCCESS')),
+    max(e.requested_at)
+  FROM executions e
+  WHERE p_client_id IS NULL OR e.client_id = p_client_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_webhook_stats(p_client_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  webhook_id uuid,
+  webhook_name text,
+  client_id uuid,
+  total_executions bigint,
+  successful_executions bigint,
+  avg_duration_ms numeric,
+  last_execution_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.name,
+    w.client_id,
+    count(e.id),
+    count(e.id) FILTER (WHERE e.status = 'SUCCESS'),
+    round(avg(e.duration_ms) FILTER (WHERE e.status = 'SUCCESS')),
+    max(e.requested_at)
+  FROM webhooks w
+  LEFT JOIN executions e ON e.webhook_id = w.id
+  WHERE p_client_id IS NULL OR w.client_id = p_client_id
+  GROUP BY w.id, w.name, w.client_id
+  ORDER BY count(e.id) DESC, w.name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_client_stats()
+RETURNS TABLE (
+  client_id uuid,
+  client_name text,
+  tokens_balance integer,
+  executions_this_month bigint,
+  successful_executions_this_month bigint,
+  tokens_spent_this_month bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.tokens_balance,
+    (
+      SELECT count(*)
+      FROM executions e
+      WHERE e.client_id = c.id AND e.requested_at >= date_trunc('month', now())
+    ),
+    (
+      SELECT count(*)
+      FROM executions e
+      WHERE e.client_id = c.id AND e.status = 'SUCCESS' AND e.requested_at >= date_trunc('month', now())
+    ),
+    (
+      SELECT COALESCE(-SUM(t.amount), 0)::bigint
+      FROM token_transactions t
+      WHERE t.client_id = c.id
+        AND t.kind IN ('DEBIT', 'REFUND')
+        AND t.created_at >= date_trunc('month', now())
+    )
+  FROM clients c
+  ORDER BY 6 DESC, c.name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_system_stats()
+RETURNS TABLE (
+  total_users bigint,
+  total_clients bigint,
+  active_clients bigint,
+  total_webhooks bigint,
+  active_webhooks bigint,
+  tokens_outstanding bigint,
+  tokens_granted_this_month bigint,
+  tokens_spent_this_month bigint,
+  executions_today bigint,
+  executions_this_month bigint,
+  open_executions bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_current_user_admin() THEN
+    RAISE EXCEPTION 'Nur Administratoren können die Systemstatistik abrufen' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(*) FROM profiles),
+    (SELECT count(*) FROM clients),
+    (SELECT count(*) FROM clients WHERE is_active),
+    (SELECT count(*) FROM webhooks),
+    (SELECT count(*) FROM webhooks WHERE is_active),
+    (SELECT COALESCE(SUM(clients.tokens_balance), 0)::bigint FROM clients),
+    (
+      SELECT COALESCE(SUM(amount), 0)::bigint
+      FROM token_transactions
+      WHERE kind = 'GRANT' AND created_at >= date_trunc('month', now())
+    ),
+    (
+      SELECT COALESCE(-SUM(amount), 0)::bigint
+      FROM token_transactions
+      WHERE kind IN ('DEBIT', 'REFUND') AND created_at >= date_trunc('month', now())
+    ),
+    (SELECT count(*) FROM executions WHERE requested_at >= date_trunc('day', now())),
+    (SELECT count(*) FROM executions WHERE requested_at >= date_trunc('month', now())),
+    (SELECT count(*) FROM executions WHERE status IN ('PENDING', 'RUNNING'));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_system_stats() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_execution_stats(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_webhook_stats(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_client_stats() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_system_stats() TO authenticated;
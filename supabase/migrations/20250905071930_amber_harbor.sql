@@ -0,0 +1,107 @@
+/*
+  # Usage Charts
+
+  1. New Functions
+    - `get_daily_usage` - executions per day by outcome and tokens spent per day,
+      one row for every day of the range (days without activity count zero)
+    - `get_webhook_latency` - percentiles of the duration of successful
+      executions per webhook
+
+  2. Security
+    - Both functions run with the caller's rights: clients only aggregate
+      their own rows, admins may narrow the result to one client
+    - Days are calendar days in the given time zone, the range ends today
+      and is limited to one year
+*/
+
+CREATE OR REPLACE FUNCTION public.get_daily_usage(
+  p_days integer DEFAULT 30,
+  p_client_id uuid DEFAULT NULL,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day date,
+  successful_executions bigint,
+  failed_executions bigint,
+  open_executions bigint,
+  tokens_spent bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      (now() AT TIME ZONE p_time_zone)::date - (LEAST(GREATEST(p_days, 1), 366) - 1) AS first_day,
+      (now() AT TIME ZONE p_time_zone)::date AS last_day
+  ),
+  execution_days AS (
+    SELECT
+      (e.requested_at AT TIME ZONE p_time_zone)::date AS day,
+      count(*) FILTER (WHERE e.status = 'SUCCESS') AS successful,
+      count(*) FILTER (WHERE e.status IN ('ERROR', 'TIMEOUT')) AS failed,
+      count(*) FILTER (WHERE e.status IN ('PENDING', 'RUNNING')) AS open
+    FROM executions e, bounds r
+    WHERE e.requested_at >= r.first_day::timestamp AT TIME ZONE p_time_zone
+      AND (p_client_id IS NULL OR e.client_id = p_client_id)
+    GROUP BY 1
+  ),
+  token_days AS (
+    -- Debits are negative, refunds of failed runs positive
+    SELECT
+      (t.created_at AT TIME ZONE p_time_zone)::date AS day,
+      -SUM(t.amount) AS spent
+    FROM token_transactions t, bounds r
+    WHERE t.kind IN ('DEBIT', 'REFUND')
+      AND t.created_at >= r.first_day::timestamp AT TIME ZONE p_time_zone
+      AND (p_client_id IS NULL OR t.client_id = p_client_id)
+    GROUP BY 1
+  )
+  SELECT
+    d.day::date,
+    COALESCE(ed.successful, 0),
+    COALESCE(ed.failed, 0),
+    COALESCE(ed.open, 0),
+    COALESCE(td.spent, 0)::bigint
+  FROM bounds r
+  CROSS JOIN generate_series(r.first_day, r.last_day, interval '1 day') AS d(day)
+  LEFT JOIN execution_days ed ON ed.day = d.day::date
+  LEFT JOIN token_days td ON td.day = d.day::date
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_webhook_latency(
+  p_days integer DEFAULT 30,
+  p_client_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  webhook_id uuid,
+  webhook_name text,
+  executions bigint,
+  p50_ms numeric,
+  p90_ms numeric,
+  p99_ms numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.name,
+    count(*),
+    round(percentile_cont(0.5) WITHIN GROUP (ORDER BY e.duration_ms)::numeric),
+    round(percentile_cont(0.9) WITHIN GROUP (ORDER BY e.duration_ms)::numeric),
+    round(percentile_cont(0.99) WITHIN GROUP (ORDER BY e.duration_ms)::numeric)
+  FROM executions e
+  JOIN webhooks w ON w.id = e.webhook_id
+  WHERE e.status = 'SUCCESS'
+    AND e.duration_ms IS NOT NULL
+    AND e.requested_at >= now() - make_interval(days => LEAST(GREATEST(p_days, 1), 366))
+    AND (p_client_id IS NULL OR e.client_id = p_client_id)
+  GROUP BY w.id, w.name
+  ORDER BY 5 DESC, w.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_daily_usage(integer, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_webhook_latency(integer, uuid) TO authenticated;
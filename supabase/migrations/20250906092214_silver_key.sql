@@ -0,0 +1,114 @@
+/*
+  # Personal API Tokens
+
+  1. Changes
+    - `api_tokens` gets `token_prefix` (shown in the list to tell tokens apart),
+      `webhook_ids` (the webhooks the token may run, null for all webhooks of
+      the client) and `revoked_at`
+    - Token hashes are unique
+
+  2. New Functions
+    - `create_api_token` - creates a token for the signed-in user and returns
+      the plain token, which is never stored and shown only once
+    - `revoke_api_token` - revokes one of the user's tokens
+
+  3. Security
+    - Users can list their own tokens; tokens are only created and revoked
+      through the functions above, which check the webhook scope
+    - Only users with a client can create tokens, because API executions are
+      charged to the client like executions from the UI
+    - The api-execute function looks tokens up by hash with the service role
+*/
+
+ALTER TABLE public.api_tokens
+ADD COLUMN IF NOT EXISTS token_prefix text NOT NULL DEFAULT '',
+ADD COLUMN IF NOT EXISTS webhook_ids uuid[],
+ADD COLUMN IF NOT EXISTS revoked_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_tokens_token_hash ON public.api_tokens(token_hash);
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON public.api_tokens(user_id, created_at DESC);
+
+CREATE POLICY "Users view own api tokens"
+ON public.api_tokens
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+GRANT SELECT ON public.api_tokens TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_api_token(
+  p_name text,
+  p_webhook_ids uuid[] DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Nicht angemeldet' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Name ist erforderlich' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Das Ablaufdatum muss in der Zukunft liegen' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_client_id FROM clients WHERE user_id = auth.uid();
+
+  IF v_client_id IS NULL THEN
+    RAISE EXCEPTION 'API-Tokens können nur für Clients erstellt werden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_webhook_ids IS NOT NULL AND (
+    cardinality(p_webhook_ids) = 0
+    OR EXISTS (
+      SELECT 1
+      FROM unnest(p_webhook_ids) AS requested(id)
+      WHERE NOT EXISTS (SELECT 1 FROM webhooks w WHERE w.id = requested.id AND w.client_id = v_client_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Ungültige Webhook-Auswahl' USING ERRCODE = '22023';
+  END IF;
+
+  v_token := 'whk_' || encode(extensions.gen_random_bytes(24), 'hex');
+
+  INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, webhook_ids, expires_at)
+  VALUES (
+    auth.uid(),
+    trim(p_name),
+    encode(extensions.digest(v_token, 'sha256'), 'hex'),
+    left(v_token, 12),
+    p_webhook_ids,
+    p_expires_at
+  );
+
+  RETURN v_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_api_token(p_token_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE api_tokens
+  SET revoked_at = now()
+  WHERE id = p_token_id
+    AND user_id = auth.uid()
+    AND revoked_at IS NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_api_token(text, uuid[], timestamptz) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_api_token(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_api_token(text, uuid[], timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_api_token(uuid) TO authenticated;
@@ -0,0 +1,126 @@
+/*
+  # Audit Log for Administrative Changes
+
+  1. Changes
+    - `audit_logs` gets `actor_email` (kept when the account is deleted later)
+      and `ip_address` (from the forwarded request headers, where available)
+    - Indexes for the filters of the audit log page
+
+  2. New Functions
+    - `audit_admin_changes` - trigger function that records inserts, updates
+      and deletes made by admins with the row before and after the change.
+      Column names passed as trigger arguments are replaced by a fingerprint,
+      so secrets such as webhook headers do not end up in the log.
+
+  3. Triggers
+    - `webhooks` (headers are masked), `webhook_assignments`, `clients`,
+      `profiles` and `token_transactions`
+
+  4. Security
+    - Only admins can read the audit log
+    - Entries are only written by the trigger and cannot be changed or deleted
+*/
+
+ALTER TABLE public.audit_logs
+ADD COLUMN IF NOT EXISTS actor_email text,
+ADD COLUMN IF NOT EXISTS ip_address inet;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON public.audit_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON public.audit_logs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_table_name ON public.audit_logs(table_name, created_at DESC);
+
+DROP POLICY IF EXISTS "Admin view audit logs" ON public.audit_logs;
+
+CREATE POLICY "Admin view audit logs"
+ON public.audit_logs
+FOR SELECT
+TO authenticated
+USING (is_current_user_admin());
+
+REVOKE INSERT, UPDATE, DELETE ON public.audit_logs FROM anon, authenticated;
+GRANT SELECT ON public.audit_logs TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.audit_admin_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_column text;
+  v_headers json;
+  v_ip text;
+BEGIN
+  -- Changes made by clients themselves or by the system are not audited
+  IF auth.uid() IS NULL OR NOT is_current_user_admin() THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+
+  FOREACH v_column IN ARRAY TG_ARGV LOOP
+    IF v_old ? v_column AND v_old -> v_column <> 'null'::jsonb THEN
+      v_old := jsonb_set(v_old, ARRAY[v_column],
+        to_jsonb('sha256:' || left(encode(extensions.digest((v_old ->> v_column), 'sha256'), 'hex'), 12)));
+    END IF;
+    IF v_new ? v_column AND v_new -> v_column <> 'null'::jsonb THEN
+      v_new := jsonb_set(v_new, ARRAY[v_column],
+        to_jsonb('sha256:' || left(encode(extensions.digest((v_new ->> v_column), 'sha256'), 'hex'), 12)));
+    END IF;
+  END LOOP;
+
+  -- Set by PostgREST for API requests; the first forwarded address is the client
+  v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  v_ip := trim(split_part(COALESCE(v_headers ->> 'x-forwarded-for', v_headers ->> 'x-real-ip', ''), ',', 1));
+
+  INSERT INTO audit_logs (user_id, actor_email, action, table_name, record_id, old_data, new_data, ip_address)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM profiles WHERE user_id = auth.uid()),
+    TG_OP,
+    TG_TABLE_NAME,
+    COALESCE(v_new ->> 'id', v_old ->> 'id'),
+    v_old,
+    v_new,
+    CASE WHEN v_ip ~ '^[0-9a-fA-F:.]+$' THEN v_ip::inet END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_webhooks ON public.webhooks;
+CREATE TRIGGER audit_webhooks
+AFTER INSERT OR UPDATE OR DELETE ON public.webhooks
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_changes('headers');
+
+DROP TRIGGER IF EXISTS audit_webhook_assignments ON public.webhook_assignments;
+CREATE TRIGGER audit_webhook_assignments
+AFTER INSERT OR UPDATE OR DELETE ON public.webhook_assignments
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_changes();
+
+DROP TRIGGER IF EXISTS audit_clients ON public.clients;
+CREATE TRIGGER audit_clients
+AFTER INSERT OR UPDATE OR DELETE ON public.clients
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_changes();
+
+DROP TRIGGER IF EXISTS audit_profiles ON public.profiles;
+CREATE TRIGGER audit_profiles
+AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_changes();
+
+DROP TRIGGER IF EXISTS audit_token_transactions ON public.token_transactions;
+CREATE TRIGGER audit_token_transactions
+AFTER INSERT OR UPDATE OR DELETE ON public.token_transactions
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_changes();
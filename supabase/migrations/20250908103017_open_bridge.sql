@@ -0,0 +1,221 @@
+/*
+  # Webhook Assignments
+
+  1. Changes
+    - A user may run a webhook if it belongs to the user's client or if the
+      webhook is assigned to the user. Executions are recorded for and charged
+      to the client of the user who runs the webhook.
+    - `reserve_execution` and `create_api_token` accept assigned webhooks
+
+  2. New Functions
+    - `can_access_webhook` - whether a user may see and run a webhook
+    - `set_webhook_assignments` - replaces the users assigned to a webhook
+    - `set_user_assignments` - replaces the webhooks assigned to a user
+
+  3. Security
+    - Users can read assigned webhooks
+    - `can_access_webhook` is only available to the service role (Edge Functions)
+    - Assignments are only changed by admins through the functions above
+*/
+
+CREATE OR REPLACE FUNCTION public.can_access_webhook(p_webhook_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM webhooks w
+    JOIN clients c ON c.id = w.client_id
+    WHERE w.id = p_webhook_id AND c.user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM webhook_assignments wa
+    WHERE wa.webhook_id = p_webhook_id
+      AND wa.user_id = p_user_id
+      AND wa.is_active
+  );
+$$;
+
+DROP POLICY IF EXISTS "Users view assigned webhooks" ON public.webhooks;
+
+CREATE POLICY "Users view assigned webhooks"
+ON public.webhooks
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM webhook_assignments wa
+    WHERE wa.webhook_id = webhooks.id
+    AND wa.user_id = auth.uid()
+    AND wa.is_active
+  )
+);
+
+-- Assigned webhooks can be run by clients other than the owner
+CREATE OR REPLACE FUNCTION public.reserve_execution(
+  p_webhook_id uuid,
+  p_client_id uuid,
+  p_payload text,
+  p_started_by uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+  v_client_user_id uuid;
+  v_balance integer;
+  v_execution_id uuid;
+BEGIN
+  SELECT * INTO v_webhook FROM webhooks WHERE id = p_webhook_id;
+  SELECT user_id INTO v_client_user_id FROM clients WHERE id = p_client_id;
+
+  IF v_webhook.id IS NULL OR NOT can_access_webhook(p_webhook_id, v_client_user_id) THEN
+    RAISE EXCEPTION 'Webhook nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_webhook.is_active THEN
+    RAISE EXCEPTION 'Webhook ist nicht aktiv' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the client row so concurrent executions are serialized
+  SELECT tokens_balance INTO v_balance
+  FROM clients
+  WHERE id = p_client_id
+  FOR UPDATE;
+
+  IF v_balance < v_webhook.tokens_cost THEN
+    RAISE EXCEPTION 'Nicht genügend Tokens' USING ERRCODE = 'P0003';
+  END IF;
+
+  INSERT INTO executions (webhook_id, client_id, status, tokens_used, request_type, payload, started_by)
+  VALUES (p_webhook_id, p_client_id, 'PENDING', v_webhook.tokens_cost, v_webhook.input_type, p_payload, p_started_by)
+  RETURNING id INTO v_execution_id;
+
+  IF v_webhook.tokens_cost > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (p_client_id, 'DEBIT', -v_webhook.tokens_cost, v_execution_id, v_webhook.name);
+  END IF;
+
+  RETURN v_execution_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_api_token(
+  p_name text,
+  p_webhook_ids uuid[] DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Nicht angemeldet' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Name ist erforderlich' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Das Ablaufdatum muss in der Zukunft liegen' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_client_id FROM clients WHERE user_id = auth.uid();
+
+  IF v_client_id IS NULL THEN
+    RAISE EXCEPTION 'API-Tokens können nur für Clients erstellt werden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_webhook_ids IS NOT NULL AND (
+    cardinality(p_webhook_ids) = 0
+    OR EXISTS (
+      SELECT 1
+      FROM unnest(p_webhook_ids) AS requested(id)
+      WHERE NOT can_access_webhook(requested.id, auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Ungültige Webhook-Auswahl' USING ERRCODE = '22023';
+  END IF;
+
+  v_token := 'whk_' || encode(extensions.gen_random_bytes(24), 'hex');
+
+  INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, webhook_ids, expires_at)
+  VALUES (
+    auth.uid(),
+    trim(p_name),
+    encode(extensions.digest(v_token, 'sha256'), 'hex'),
+    left(v_token, 12),
+    p_webhook_ids,
+    p_expires_at
+  );
+
+  RETURN v_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_webhook_assignments(p_webhook_id uuid, p_user_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_current_user_admin() THEN
+    RAISE EXCEPTION 'Nur Administratoren können Webhooks zuweisen' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM webhook_assignments
+  WHERE webhook_id = p_webhook_id
+    AND NOT (user_id = ANY (COALESCE(p_user_ids, '{}')));
+
+  INSERT INTO webhook_assignments (webhook_id, user_id, assigned_by, assigned_at, is_active)
+  SELECT p_webhook_id, user_id, auth.uid(), now(), true
+  FROM unnest(p_user_ids) AS assigned(user_id)
+  ON CONFLICT (webhook_id, user_id) DO UPDATE
+  SET is_active = true
+  WHERE NOT webhook_assignments.is_active;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_assignments(p_user_id uuid, p_webhook_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_current_user_admin() THEN
+    RAISE EXCEPTION 'Nur Administratoren können Webhooks zuweisen' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM webhook_assignments
+  WHERE user_id = p_user_id
+    AND NOT (webhook_id = ANY (COALESCE(p_webhook_ids, '{}')));
+
+  INSERT INTO webhook_assignments (webhook_id, user_id, assigned_by, assigned_at, is_active)
+  SELECT webhook_id, p_user_id, auth.uid(), now(), true
+  FROM unnest(p_webhook_ids) AS assigned(webhook_id)
+  ON CONFLICT (webhook_id, user_id) DO UPDATE
+  SET is_active = true
+  WHERE NOT webhook_assignments.is_active;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_access_webhook(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_webhook_assignments(uuid, uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_user_assignments(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_access_webhook(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.set_webhook_assignments(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_assignments(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,104 @@
+/*
+  # Invitations
+
+  1. New Tables
+    - `invitations`
+      - `id` (uuid, primary key)
+      - `email` (text) - invited address
+      - `user_id` (uuid) - auth account created for the invitation
+      - `starting_tokens` (integer) - balance of the new client
+      - `webhook_ids` (uuid[]) - webhooks assigned on acceptance
+      - `invited_by` (uuid)
+      - `expires_at`, `accepted_at`, `revoked_at`, `created_at` (timestamptz)
+
+  2. New Functions
+    - `accept_invitation` - creates profile, client and assignments for the
+      signed in invitee and marks the invitation as accepted
+
+  3. Security
+    - Admins can read invitations
+    - Invitations are created and revoked by the admin-users Edge Function
+    - Only one open invitation per email address
+*/
+
+CREATE TABLE IF NOT EXISTS public.invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  starting_tokens integer NOT NULL DEFAULT 100 CHECK (starting_tokens >= 0),
+  webhook_ids uuid[] NOT NULL DEFAULT '{}',
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_open_email
+  ON public.invitations (lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invitations_user_id ON public.invitations(user_id);
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view invitations" ON public.invitations;
+
+CREATE POLICY "Admins view invitations"
+ON public.invitations
+FOR SELECT
+TO authenticated
+USING (is_current_user_admin());
+
+CREATE OR REPLACE FUNCTION public.accept_invitation()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation invitations%ROWTYPE;
+  v_client_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Nicht angemeldet' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM invitations
+  WHERE user_id = auth.uid()
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Keine offene Einladung gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'Die Einladung ist abgelaufen' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO profiles (user_id, email, role)
+  VALUES (auth.uid(), v_invitation.email, 'CLIENT');
+
+  -- The starting balance is booked as a grant by the clients insert trigger
+  INSERT INTO clients (user_id, name, tokens_balance)
+  VALUES (auth.uid(), split_part(v_invitation.email, '@', 1), v_invitation.starting_tokens)
+  RETURNING id INTO v_client_id;
+
+  -- Webhooks deleted since the invitation are skipped
+  INSERT INTO webhook_assignments (webhook_id, user_id, assigned_by, assigned_at, is_active)
+  SELECT w.id, auth.uid(), v_invitation.invited_by, now(), true
+  FROM webhooks w
+  WHERE w.id = ANY (v_invitation.webhook_ids)
+  ON CONFLICT (webhook_id, user_id) DO NOTHING;
+
+  UPDATE invitations SET accepted_at = now() WHERE id = v_invitation.id;
+
+  RETURN v_client_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_invitation() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_invitation() TO authenticated;
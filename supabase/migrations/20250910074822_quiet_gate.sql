@@ -0,0 +1,59 @@
+/*
+  # Enforce skip_email_verification
+
+  1. Changes
+    - Setting `profiles.skip_email_verification` marks the user's email
+      address as confirmed, so Supabase Auth lets the user sign in without
+      confirming it. Users without the flag still have to confirm their
+      address before signing in, which Auth enforces with email
+      confirmations switched on (see supabase/config.toml).
+    - Existing flagged users that are not confirmed yet are confirmed
+
+  2. Security
+    - The open "Users can insert their own profile" policy is dropped:
+      profiles are created by the service role and `accept_invitation`, and
+      anyone could otherwise insert a flagged profile for another user's id
+    - The trigger function runs as owner to update `auth.users`; it only
+      confirms when an admin or the service role sets the flag, only ever
+      sets a missing confirmation and never takes one back
+*/
+
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+
+CREATE OR REPLACE FUNCTION public.apply_skip_email_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.skip_email_verification
+     OR (TG_OP = 'UPDATE' AND OLD.skip_email_verification) THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT is_current_user_admin() THEN
+    RAISE EXCEPTION 'Nur Administratoren können die E-Mail-Bestätigung erlassen' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE auth.users
+  SET email_confirmed_at = now()
+  WHERE id = NEW.user_id
+    AND email_confirmed_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_skip_email_verification ON public.profiles;
+CREATE TRIGGER apply_skip_email_verification
+  AFTER INSERT OR UPDATE OF skip_email_verification ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_skip_email_verification();
+
+UPDATE auth.users u
+SET email_confirmed_at = now()
+FROM public.profiles p
+WHERE p.user_id = u.id
+  AND p.skip_email_verification
+  AND u.email_confirmed_at IS NULL;
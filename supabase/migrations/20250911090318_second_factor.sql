@@ -0,0 +1,152 @@
+/*
+  # Two-Factor Authentication
+
+  1. New Tables
+    - `security_settings` (single row)
+      - `require_admin_mfa` (boolean) - admins need a second factor
+      - `updated_at` (timestamptz), `updated_by` (uuid)
+    - `mfa_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid)
+      - `code_hash` (text) - SHA-256 of the code
+      - `used_at`, `created_at` (timestamptz)
+
+  2. Changes
+    - While `require_admin_mfa` is set, `is_current_user_admin` is only true
+      for sessions verified with a second factor (aal2). All admin policies
+      and functions use it, so an admin signed in with the password alone has
+      no admin rights.
+
+  3. New Functions
+    - `generate_mfa_recovery_codes` - replaces the caller's recovery codes
+      with ten new ones and returns them once
+    - `set_require_admin_mfa` - admins switch the requirement
+
+  4. Security
+    - Everyone signed in can read the security settings
+    - Users can see their own recovery codes (hashes only); codes are
+      redeemed by the mfa-recovery Edge Function
+    - New recovery codes and enabling the requirement need an aal2 session,
+      so admins cannot lock themselves out
+    - Changes to the security settings are written to the audit log
+*/
+
+CREATE TABLE IF NOT EXISTS public.security_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  require_admin_mfa boolean NOT NULL DEFAULT false,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO public.security_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.security_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users view security settings" ON public.security_settings;
+
+CREATE POLICY "Authenticated users view security settings"
+ON public.security_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_hash
+  ON public.mfa_recovery_codes (user_id, code_hash);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view own recovery codes" ON public.mfa_recovery_codes;
+
+CREATE POLICY "Users view own recovery codes"
+ON public.mfa_recovery_codes
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.is_current_user_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_admin(auth.uid())
+    AND (
+      NOT COALESCE((SELECT require_admin_mfa FROM security_settings), false)
+      OR COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_codes text[] := '{}';
+  v_code text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Nicht angemeldet' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Bitte bestätigen Sie zuerst Ihren zweiten Faktor' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(extensions.gen_random_bytes(5), 'hex');
+    v_code := substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5);
+    v_codes := v_codes || v_code;
+
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), encode(extensions.digest(v_code, 'sha256'), 'hex'));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_require_admin_mfa(p_required boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_current_user_admin() THEN
+    RAISE EXCEPTION 'Nur Administratoren können Sicherheitseinstellungen ändern' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_required AND COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Richten Sie zuerst selbst die Zwei-Faktor-Authentifizierung ein' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE security_settings
+  SET require_admin_mfa = p_required,
+      updated_at = now(),
+      updated_by = auth.uid()
+  WHERE id;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_security_settings ON public.security_settings;
+CREATE TRIGGER audit_security_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.security_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_changes();
+
+REVOKE EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_require_admin_mfa(boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_require_admin_mfa(boolean) TO authenticated;
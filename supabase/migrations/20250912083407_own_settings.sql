@@ -0,0 +1,176 @@
+/*
+  # Account Settings
+
+  1. Changes to `profiles`
+    - `notify_on_success` (boolean, default true) - notify about finished runs
+    - `notify_on_failure` (boolean, default true) - notify about failed runs
+    - `language` (text, 'de' or 'en') - language of the notifications
+
+  2. Changes
+    - `notify_execution_finished` respects the preferences and language of
+      the user who started the run
+    - A confirmed email change in Supabase Auth is copied to
+      `profiles.email`
+
+  3. New Functions
+    - `get_my_sessions` - active sessions of the signed-in user
+
+  4. Security
+    - Users keep updating their own profile for the preferences above, but
+      `role`, `email` and `skip_email_verification` can only be changed by
+      admins, the service role or the email sync
+    - `get_my_sessions` only returns sessions of the caller
+*/
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS notify_on_success boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS notify_on_failure boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'de';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'profiles_language_check'
+  ) THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_language_check CHECK (language IN ('de', 'en'));
+  END IF;
+END $$;
+
+-- Users may update their own profile, but not the fields that grant access
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 OR is_current_user_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.email IS DISTINCT FROM OLD.email
+     OR NEW.skip_email_verification IS DISTINCT FROM OLD.skip_email_verification
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Diese Felder können nur von Administratoren geändert werden' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_fields ON public.profiles;
+CREATE TRIGGER protect_profile_fields
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_fields();
+
+CREATE OR REPLACE FUNCTION public.sync_profile_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE profiles SET email = NEW.email WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_profile_email ON auth.users;
+CREATE TRIGGER sync_profile_email
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email IS DISTINCT FROM OLD.email AND NEW.email IS NOT NULL)
+  EXECUTE FUNCTION public.sync_profile_email();
+
+CREATE OR REPLACE FUNCTION public.notify_execution_finished()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+  v_profile profiles%ROWTYPE;
+  v_success boolean := NEW.status = 'SUCCESS';
+  v_english boolean;
+BEGIN
+  IF NEW.started_by IS NULL
+     OR OLD.status NOT IN ('PENDING', 'RUNNING')
+     OR NEW.status IN ('PENDING', 'RUNNING') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_webhook FROM webhooks WHERE id = NEW.webhook_id;
+
+  -- Synchronous runs show their result right away
+  IF NOT FOUND OR v_webhook.execution_mode = 'SYNC' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_profile FROM profiles WHERE user_id = NEW.started_by;
+
+  IF FOUND AND (
+    (v_success AND NOT v_profile.notify_on_success)
+    OR (NOT v_success AND NOT v_profile.notify_on_failure)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  v_english := COALESCE(v_profile.language, 'de') = 'en';
+
+  INSERT INTO notifications (user_id, title, body, link)
+  VALUES (
+    NEW.started_by,
+    CASE
+      WHEN v_success AND v_english THEN 'Execution finished'
+      WHEN v_success THEN 'Ausführung abgeschlossen'
+      WHEN v_english THEN 'Execution failed'
+      ELSE 'Ausführung fehlgeschlagen'
+    END,
+    CASE
+      WHEN v_success AND v_english THEN v_webhook.name || ' was executed successfully.'
+      WHEN v_success THEN v_webhook.name || ' wurde erfolgreich ausgeführt.'
+      WHEN v_english THEN v_webhook.name || ': ' || COALESCE(NEW.error, 'Unknown error')
+      ELSE v_webhook.name || ': ' || COALESCE(NEW.error, 'Unbekannter Fehler')
+    END,
+    '/execute/' || NEW.webhook_id || '?execution=' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  last_active_at timestamptz,
+  user_agent text,
+  ip text,
+  aal text,
+  is_current boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.updated_at, s.created_at),
+    s.user_agent,
+    host(s.ip),
+    s.aal::text,
+    s.id::text = auth.jwt() ->> 'session_id'
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY COALESCE(s.updated_at, s.created_at) DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_sessions() TO authenticated;
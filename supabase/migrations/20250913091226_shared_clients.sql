@@ -0,0 +1,561 @@
+/*
+  # Client Memberships
+
+  1. New Tables
+    - `client_members`
+      - `id` (uuid, primary key)
+      - `client_id` (uuid) - the client (customer company)
+      - `user_id` (uuid) - a user belongs to at most one client
+      - `role` (text) - `owner`, `member` or `viewer`
+      - `invited_by` (uuid), `created_at` (timestamptz)
+
+  2. Changes
+    - Every client row gets its user as owner, new clients as well. The
+      members share the client's webhooks and token balance.
+    - Owners and members run webhooks, viewers only look. Owners and viewers
+      see all executions of the client, members their own.
+    - `invitations` get `client_id` and `member_role`: invitations with a
+      client add the invitee to that client instead of creating a new one
+    - `search_executions` can filter by the user who started the run
+    - `reserve_execution`, `can_access_webhook` and `create_api_token` use
+      the membership instead of `clients.user_id`
+
+  3. New Functions
+    - `client_member_role` - role of the current user in a client
+    - `get_client_members` - members with their usage this month
+    - `set_client_member_role`, `remove_client_member` - for owners
+
+  4. Security
+    - Members see their client, its webhooks, ledger and each other
+    - Owners see and manage their client's invitations and members; a client
+      always keeps at least one owner
+    - Invitations are sent by the client-members Edge Function
+    - Membership changes by admins are written to the audit log
+*/
+
+CREATE TABLE IF NOT EXISTS public.client_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member', 'viewer')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_members_client_id ON public.client_members(client_id);
+
+INSERT INTO public.client_members (client_id, user_id, role, created_at)
+SELECT c.id, c.user_id, 'owner', c.created_at
+FROM public.clients c
+WHERE c.user_id IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
+
+-- The user a client is created for owns it
+CREATE OR REPLACE FUNCTION public.add_client_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    INSERT INTO client_members (client_id, user_id, role)
+    VALUES (NEW.id, NEW.user_id, 'owner')
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_client_owner ON public.clients;
+CREATE TRIGGER add_client_owner
+  AFTER INSERT ON public.clients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_client_owner();
+
+CREATE OR REPLACE FUNCTION public.client_member_role(p_client_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM client_members WHERE client_id = p_client_id AND user_id = auth.uid();
+$$;
+
+ALTER TABLE public.client_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin full access to client members" ON public.client_members;
+DROP POLICY IF EXISTS "Members view their client's members" ON public.client_members;
+
+CREATE POLICY "Admin full access to client members"
+ON public.client_members
+FOR ALL
+TO authenticated
+USING (is_current_user_admin())
+WITH CHECK (is_current_user_admin());
+
+CREATE POLICY "Members view their client's members"
+ON public.client_members
+FOR SELECT
+TO authenticated
+USING (client_member_role(client_id) IS NOT NULL);
+
+DROP TRIGGER IF EXISTS audit_client_members ON public.client_members;
+CREATE TRIGGER audit_client_members
+AFTER INSERT OR UPDATE OR DELETE ON public.client_members
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_changes();
+
+-- Row level security of the shared data follows the membership
+
+DROP POLICY IF EXISTS "Client view own data" ON public.clients;
+CREATE POLICY "Client view own data"
+ON public.clients
+FOR SELECT
+TO authenticated
+USING (client_member_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Client view own webhooks" ON public.webhooks;
+CREATE POLICY "Client view own webhooks"
+ON public.webhooks
+FOR SELECT
+TO authenticated
+USING (client_member_role(client_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Client view own executions" ON public.executions;
+CREATE POLICY "Client view own executions"
+ON public.executions
+FOR SELECT
+TO authenticated
+USING (
+  client_member_role(client_id) IN ('owner', 'viewer')
+  OR (started_by = auth.uid() AND client_member_role(client_id) = 'member')
+);
+
+DROP POLICY IF EXISTS "Client view own token transactions" ON public.token_transactions;
+CREATE POLICY "Client view own token transactions"
+ON public.token_transactions
+FOR SELECT
+TO authenticated
+USING (client_member_role(client_id) IS NOT NULL);
+
+-- Files are stored under <client_id>/<execution_id>/, so they are readable
+-- whenever the execution is
+DROP POLICY IF EXISTS "Client read own execution files" ON storage.objects;
+CREATE POLICY "Client read own execution files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'execution-files'
+  AND EXISTS (
+    SELECT 1 FROM public.executions
+    WHERE executions.id::text = (storage.foldername(objects.name))[2]
+    AND executions.client_id::text = (storage.foldername(objects.name))[1]
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.can_access_webhook(p_webhook_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM webhooks w
+    JOIN client_members m ON m.client_id = w.client_id
+    WHERE w.id = p_webhook_id
+      AND m.user_id = p_user_id
+      AND m.role IN ('owner', 'member')
+  ) OR EXISTS (
+    SELECT 1
+    FROM webhook_assignments wa
+    WHERE wa.webhook_id = p_webhook_id
+      AND wa.user_id = p_user_id
+      AND wa.is_active
+  );
+$$;
+
+-- The run is charged to the client of the user who starts it
+CREATE OR REPLACE FUNCTION public.reserve_execution(
+  p_webhook_id uuid,
+  p_client_id uuid,
+  p_payload text,
+  p_started_by uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+  v_user_id uuid;
+  v_balance integer;
+  v_execution_id uuid;
+BEGIN
+  SELECT * INTO v_webhook FROM webhooks WHERE id = p_webhook_id;
+  v_user_id := COALESCE(p_started_by, (SELECT user_id FROM clients WHERE id = p_client_id));
+
+  IF v_webhook.id IS NULL
+     OR NOT can_access_webhook(p_webhook_id, v_user_id)
+     OR NOT EXISTS (
+       SELECT 1 FROM client_members
+       WHERE client_id = p_client_id
+         AND user_id = v_user_id
+         AND role IN ('owner', 'member')
+     ) THEN
+    RAISE EXCEPTION 'Webhook nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_webhook.is_active THEN
+    RAISE EXCEPTION 'Webhook ist nicht aktiv' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the client row so concurrent executions are serialized
+  SELECT tokens_balance INTO v_balance
+  FROM clients
+  WHERE id = p_client_id
+  FOR UPDATE;
+
+  IF v_balance < v_webhook.tokens_cost THEN
+    RAISE EXCEPTION 'Nicht genügend Tokens' USING ERRCODE = 'P0003';
+  END IF;
+
+  INSERT INTO executions (webhook_id, client_id, status, tokens_used, request_type, payload, started_by)
+  VALUES (p_webhook_id, p_client_id, 'PENDING', v_webhook.tokens_cost, v_webhook.input_type, p_payload, p_started_by)
+  RETURNING id INTO v_execution_id;
+
+  IF v_webhook.tokens_cost > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (p_client_id, 'DEBIT', -v_webhook.tokens_cost, v_execution_id, v_webhook.name);
+  END IF;
+
+  RETURN v_execution_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_api_token(
+  p_name text,
+  p_webhook_ids uuid[] DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Nicht angemeldet' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Name ist erforderlich' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Das Ablaufdatum muss in der Zukunft liegen' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM client_members
+    WHERE user_id = auth.uid()
+      AND role IN ('owner', 'member')
+  ) THEN
+    RAISE EXCEPTION 'API-Tokens können nur von Client-Mitgliedern mit Ausführungsrecht erstellt werden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_webhook_ids IS NOT NULL AND (
+    cardinality(p_webhook_ids) = 0
+    OR EXISTS (
+      SELECT 1
+      FROM unnest(p_webhook_ids) AS requested(id)
+      WHERE NOT can_access_webhook(requested.id, auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Ungültige Webhook-Auswahl' USING ERRCODE = '22023';
+  END IF;
+
+  v_token := 'whk_' || encode(extensions.gen_random_bytes(24), 'hex');
+
+  INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, webhook_ids, expires_at)
+  VALUES (
+    auth.uid(),
+    trim(p_name),
+    encode(extensions.digest(v_token, 'sha256'), 'hex'),
+    left(v_token, 12),
+    p_webhook_ids,
+    p_expires_at
+  );
+
+  RETURN v_token;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.search_executions(uuid, text, text, uuid, timestamptz, timestamptz, text, timestamptz, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.search_executions(
+  p_webhook_id uuid DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_request_type text DEFAULT NULL,
+  p_client_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_before_requested_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 25,
+  p_started_by uuid DEFAULT NULL
+)
+RETURNS SETOF public.executions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    -- Match the search text literally, not as a LIKE pattern
+    SELECT '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  )
+  SELECT e.*
+  FROM public.executions e, search
+  WHERE (p_webhook_id IS NULL OR e.webhook_id = p_webhook_id)
+    AND (p_status IS NULL OR e.status = p_status)
+    AND (p_request_type IS NULL OR e.request_type = p_request_type)
+    AND (p_client_id IS NULL OR e.client_id = p_client_id)
+    AND (p_started_by IS NULL OR e.started_by = p_started_by)
+    AND (p_from IS NULL OR e.requested_at >= p_from)
+    AND (p_to IS NULL OR e.requested_at < p_to)
+    AND (
+      p_search IS NULL OR btrim(p_search) = ''
+      OR e.payload ILIKE search.pattern
+      OR e.error ILIKE search.pattern
+    )
+    AND (
+      p_before_requested_at IS NULL
+      OR (e.requested_at, e.id) < (p_before_requested_at, p_before_id)
+    )
+  ORDER BY e.requested_at DESC, e.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+ALTER TABLE public.invitations
+  ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES public.clients(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS member_role text NOT NULL DEFAULT 'owner';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'invitations_member_role_check'
+  ) THEN
+    ALTER TABLE public.invitations
+      ADD CONSTRAINT invitations_member_role_check CHECK (member_role IN ('owner', 'member', 'viewer'));
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Owners view their client's invitations" ON public.invitations;
+
+CREATE POLICY "Owners view their client's invitations"
+ON public.invitations
+FOR SELECT
+TO authenticated
+USING (client_id IS NOT NULL AND client_member_role(client_id) = 'owner');
+
+CREATE OR REPLACE FUNCTION public.accept_invitation()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation invitations%ROWTYPE;
+  v_client_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Nicht angemeldet' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM invitations
+  WHERE user_id = auth.uid()
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Keine offene Einladung gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'Die Einladung ist abgelaufen' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO profiles (user_id, email, role)
+  VALUES (auth.uid(), v_invitation.email, 'CLIENT');
+
+  IF v_invitation.client_id IS NOT NULL THEN
+    -- Colleagues join the existing client and share its balance
+    v_client_id := v_invitation.client_id;
+
+    INSERT INTO client_members (client_id, user_id, role, invited_by)
+    VALUES (v_client_id, auth.uid(), v_invitation.member_role, v_invitation.invited_by);
+  ELSE
+    -- The starting balance is booked as a grant by the clients insert trigger
+    INSERT INTO clients (user_id, name, tokens_balance)
+    VALUES (auth.uid(), split_part(v_invitation.email, '@', 1), v_invitation.starting_tokens)
+    RETURNING id INTO v_client_id;
+  END IF;
+
+  -- Webhooks deleted since the invitation are skipped
+  INSERT INTO webhook_assignments (webhook_id, user_id, assigned_by, assigned_at, is_active)
+  SELECT w.id, auth.uid(), v_invitation.invited_by, now(), true
+  FROM webhooks w
+  WHERE w.id = ANY (v_invitation.webhook_ids)
+  ON CONFLICT (webhook_id, user_id) DO NOTHING;
+
+  UPDATE invitations SET accepted_at = now() WHERE id = v_invitation.id;
+
+  RETURN v_client_id;
+END;
+$$;
+
+-- Admins pass a client, everyone else gets the members of their own client
+CREATE OR REPLACE FUNCTION public.get_client_members(p_client_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  role text,
+  joined_at timestamptz,
+  executions_this_month bigint,
+  tokens_spent_this_month bigint,
+  last_execution_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid := p_client_id;
+BEGIN
+  IF v_client_id IS NULL THEN
+    SELECT client_id INTO v_client_id FROM client_members WHERE client_members.user_id = auth.uid();
+  END IF;
+
+  IF NOT is_current_user_admin() AND client_member_role(v_client_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Nur Client-Inhaber können die Mitglieder sehen' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.user_id,
+    p.email,
+    m.role,
+    m.created_at,
+    count(e.id) FILTER (WHERE e.requested_at >= date_trunc('month', now())),
+    COALESCE(sum(e.tokens_used) FILTER (
+      WHERE e.requested_at >= date_trunc('month', now())
+        AND e.status NOT IN ('ERROR', 'TIMEOUT')
+    ), 0)::bigint,
+    max(e.requested_at)
+  FROM client_members m
+  LEFT JOIN profiles p ON p.user_id = m.user_id
+  LEFT JOIN executions e ON e.client_id = m.client_id AND e.started_by = m.user_id
+  WHERE m.client_id = v_client_id
+  GROUP BY m.user_id, p.email, m.role, m.created_at
+  ORDER BY m.created_at;
+END;
+$$;
+
+-- Keeps at least one owner, so the client stays manageable
+CREATE OR REPLACE FUNCTION public.set_client_member_role(p_client_id uuid, p_user_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_role text;
+BEGIN
+  IF NOT is_current_user_admin() AND client_member_role(p_client_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Nur Client-Inhaber können Rollen ändern' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role NOT IN ('owner', 'member', 'viewer') THEN
+    RAISE EXCEPTION 'Ungültige Rolle' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT role INTO v_current_role
+  FROM client_members
+  WHERE client_id = p_client_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_current_role IS NULL THEN
+    RAISE EXCEPTION 'Mitglied nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_current_role = 'owner' AND p_role <> 'owner' AND NOT EXISTS (
+    SELECT 1 FROM client_members
+    WHERE client_id = p_client_id AND role = 'owner' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Ein Client braucht mindestens einen Inhaber' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE client_members
+  SET role = p_role
+  WHERE client_id = p_client_id AND user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_client_member(p_client_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_role text;
+BEGIN
+  IF NOT is_current_user_admin() AND client_member_role(p_client_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Nur Client-Inhaber können Mitglieder entfernen' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT role INTO v_current_role
+  FROM client_members
+  WHERE client_id = p_client_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_current_role IS NULL THEN
+    RAISE EXCEPTION 'Mitglied nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_current_role = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM client_members
+    WHERE client_id = p_client_id AND role = 'owner' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Ein Client braucht mindestens einen Inhaber' USING ERRCODE = 'P0001';
+  END IF;
+
+  DELETE FROM client_members WHERE client_id = p_client_id AND user_id = p_user_id;
+
+  -- Tokens of a former member must not spend the client's balance any more
+  UPDATE api_tokens
+  SET revoked_at = now()
+  WHERE user_id = p_user_id AND revoked_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.client_member_role(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_client_members(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_client_member_role(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.remove_client_member(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.client_member_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_client_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_client_member_role(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_client_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_executions(uuid, text, text, uuid, timestamptz, timestamptz, text, timestamptz, uuid, integer, uuid) TO authenticated;
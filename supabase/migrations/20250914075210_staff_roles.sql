@@ -0,0 +1,14 @@
+/*
+  # Staff Roles
+
+  1. Changes
+    - `user_role` gets `SUPPORT`, `BILLING` and `WEBHOOK_EDITOR` next to
+      `ADMIN` and `CLIENT`
+
+  New enum values cannot be used in the transaction that adds them, so the
+  permissions of the roles follow in the next migration.
+*/
+
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'SUPPORT';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'BILLING';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'WEBHOOK_EDITOR';
@@ -0,0 +1,409 @@
+/*
+  # Staff Permissions
+
+  1. Roles
+    - `ADMIN` - everything, as before
+    - `SUPPORT` - reads all users, clients, webhooks, executions and token
+      ledgers, changes nothing
+    - `BILLING` - books tokens and reads the ledgers
+    - `WEBHOOK_EDITOR` - creates, edits and assigns webhooks, but does not
+      manage users
+    - `CLIENT` - unchanged, access follows the client membership
+
+  2. New Functions
+    - `has_permission` - whether the current user's role grants a permission:
+      `users.manage`, `users.view`, `executions.view`, `webhooks.view`,
+      `webhooks.manage` or `tokens.manage`
+    - `is_staff` - true for every role except `CLIENT`; staff can read the
+      profiles and clients, e.g. to pick a client for a new webhook
+
+  3. Changes
+    - `require_admin_mfa` now applies to all staff roles: without a second
+      factor (aal2) staff users have no staff rights
+    - `adjust_tokens`, `set_webhook_assignments`, `set_user_assignments` and
+      `get_system_stats` check the matching permission instead of the admin
+      role
+    - Changes made by staff users are written to the audit log, not only
+      those of admins
+
+  4. Security
+    - Additional policies on `profiles`, `clients`, `client_members`,
+      `invitations`, `webhooks`, `webhook_assignments`, `executions` and
+      `token_transactions` grant the permissions above; the admin policies
+      stay as they are
+    - Execution files follow the executions policies
+    - Only admins read the audit log and manage accounts
+    - The role checks look profiles up by `user_id`, so `profiles.user_id`
+      becomes unique and `protect_profile_fields` also guards inserts: only
+      admins and the service role create profiles with another role than
+      `CLIENT` or with `skip_email_verification`
+*/
+
+-- Role of the signed-in staff user, NULL for clients and while a required
+-- second factor is missing
+CREATE OR REPLACE FUNCTION public.current_staff_role()
+RETURNS public.user_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM profiles
+  WHERE user_id = auth.uid()
+    AND role <> 'CLIENT'
+    AND (
+      NOT COALESCE((SELECT require_admin_mfa FROM security_settings), false)
+      OR COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT current_staff_role() IS NOT NULL;
+$$;
+
+-- Keep in sync with ROLE_PERMISSIONS in src/lib/permissions.ts
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    current_staff_role() = ANY (
+      CASE p_permission
+        WHEN 'users.manage' THEN ARRAY['ADMIN']
+        WHEN 'users.view' THEN ARRAY['ADMIN', 'SUPPORT']
+        WHEN 'executions.view' THEN ARRAY['ADMIN', 'SUPPORT']
+        WHEN 'webhooks.view' THEN ARRAY['ADMIN', 'SUPPORT', 'WEBHOOK_EDITOR']
+        WHEN 'webhooks.manage' THEN ARRAY['ADMIN', 'WEBHOOK_EDITOR']
+        WHEN 'tokens.manage' THEN ARRAY['ADMIN', 'BILLING']
+        ELSE ARRAY[]::text[]
+      END::public.user_role[]
+    ),
+    false
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_staff_role() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_staff() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.has_permission(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_staff() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_permission(text) TO authenticated;
+
+-- Policies for the staff roles, next to the admin and client policies
+
+DROP POLICY IF EXISTS "Staff view profiles" ON public.profiles;
+CREATE POLICY "Staff view profiles"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (is_staff());
+
+DROP POLICY IF EXISTS "Staff view clients" ON public.clients;
+CREATE POLICY "Staff view clients"
+ON public.clients
+FOR SELECT
+TO authenticated
+USING (is_staff());
+
+DROP POLICY IF EXISTS "Support view client members" ON public.client_members;
+CREATE POLICY "Support view client members"
+ON public.client_members
+FOR SELECT
+TO authenticated
+USING (has_permission('users.view'));
+
+DROP POLICY IF EXISTS "Support view invitations" ON public.invitations;
+CREATE POLICY "Support view invitations"
+ON public.invitations
+FOR SELECT
+TO authenticated
+USING (has_permission('users.view'));
+
+DROP POLICY IF EXISTS "Staff view webhooks" ON public.webhooks;
+CREATE POLICY "Staff view webhooks"
+ON public.webhooks
+FOR SELECT
+TO authenticated
+USING (has_permission('webhooks.view'));
+
+DROP POLICY IF EXISTS "Webhook editors manage webhooks" ON public.webhooks;
+CREATE POLICY "Webhook editors manage webhooks"
+ON public.webhooks
+FOR ALL
+TO authenticated
+USING (has_permission('webhooks.manage'))
+WITH CHECK (has_permission('webhooks.manage'));
+
+DROP POLICY IF EXISTS "Staff view webhook assignments" ON public.webhook_assignments;
+CREATE POLICY "Staff view webhook assignments"
+ON public.webhook_assignments
+FOR SELECT
+TO authenticated
+USING (has_permission('webhooks.view'));
+
+DROP POLICY IF EXISTS "Support view executions" ON public.executions;
+CREATE POLICY "Support view executions"
+ON public.executions
+FOR SELECT
+TO authenticated
+USING (has_permission('executions.view'));
+
+DROP POLICY IF EXISTS "Staff view token transactions" ON public.token_transactions;
+CREATE POLICY "Staff view token transactions"
+ON public.token_transactions
+FOR SELECT
+TO authenticated
+USING (has_permission('tokens.manage') OR has_permission('users.view'));
+
+CREATE OR REPLACE FUNCTION public.adjust_tokens(
+  p_client_id uuid,
+  p_kind text,
+  p_amount integer,
+  p_reason text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount integer := p_amount;
+  v_balance integer;
+BEGIN
+  IF NOT has_permission('tokens.manage') THEN
+    RAISE EXCEPTION 'Keine Berechtigung, Token-Guthaben zu ändern' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('GRANT', 'ADJUSTMENT', 'EXPIRY') THEN
+    RAISE EXCEPTION 'Ungültige Buchungsart: %', p_kind;
+  END IF;
+
+  IF p_amount = 0 THEN
+    RAISE EXCEPTION 'Der Betrag darf nicht 0 sein';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Bitte geben Sie einen Grund an';
+  END IF;
+
+  -- Grants always add, expiries always remove tokens
+  IF p_kind = 'GRANT' THEN
+    v_amount := abs(p_amount);
+  ELSIF p_kind = 'EXPIRY' THEN
+    v_amount := -abs(p_amount);
+  END IF;
+
+  INSERT INTO token_transactions (client_id, kind, amount, actor_id, reason)
+  VALUES (p_client_id, p_kind, v_amount, auth.uid(), trim(p_reason))
+  RETURNING balance_after INTO v_balance;
+
+  RETURN v_balance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_webhook_assignments(p_webhook_id uuid, p_user_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('webhooks.manage') THEN
+    RAISE EXCEPTION 'Keine Berechtigung, Webhooks zuzuweisen' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM webhook_assignments
+  WHERE webhook_id = p_webhook_id
+    AND NOT (user_id = ANY (COALESCE(p_user_ids, '{}')));
+
+  INSERT INTO webhook_assignments (webhook_id, user_id, assigned_by, assigned_at, is_active)
+  SELECT p_webhook_id, user_id, auth.uid(), now(), true
+  FROM unnest(p_user_ids) AS assigned(user_id)
+  ON CONFLICT (webhook_id, user_id) DO UPDATE
+  SET is_active = true
+  WHERE NOT webhook_assignments.is_active;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_assignments(p_user_id uuid, p_webhook_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('webhooks.manage') THEN
+    RAISE EXCEPTION 'Keine Berechtigung, Webhooks zuzuweisen' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM webhook_assignments
+  WHERE user_id = p_user_id
+    AND NOT (webhook_id = ANY (COALESCE(p_webhook_ids, '{}')));
+
+  INSERT INTO webhook_assignments (webhook_id, user_id, assigned_by, assigned_at, is_active)
+  SELECT webhook_id, p_user_id, auth.uid(), now(), true
+  FROM unnest(p_webhook_ids) AS assigned(webhook_id)
+  ON CONFLICT (webhook_id, user_id) DO UPDATE
+  SET is_active = true
+  WHERE NOT webhook_assignments.is_active;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_system_stats()
+RETURNS TABLE (
+  total_users bigint,
+  total_clients bigint,
+  active_clients bigint,
+  total_webhooks bigint,
+  active_webhooks bigint,
+  tokens_outstanding bigint,
+  tokens_granted_this_month bigint,
+  tokens_spent_this_month bigint,
+  executions_today bigint,
+  executions_this_month bigint,
+  open_executions bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('executions.view') THEN
+    RAISE EXCEPTION 'Keine Berechtigung, die Systemstatistik abzurufen' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(*) FROM profiles),
+    (SELECT count(*) FROM clients),
+    (SELECT count(*) FROM clients WHERE is_active),
+    (SELECT count(*) FROM webhooks),
+    (SELECT count(*) FROM webhooks WHERE is_active),
+    (SELECT COALESCE(SUM(clients.tokens_balance), 0)::bigint FROM clients),
+    (
+      SELECT COALESCE(SUM(amount), 0)::bigint
+      FROM token_transactions
+      WHERE kind = 'GRANT' AND created_at >= date_trunc('month', now())
+    ),
+    (
+      SELECT COALESCE(-SUM(amount), 0)::bigint
+      FROM token_transactions
+      WHERE kind IN ('DEBIT', 'REFUND') AND created_at >= date_trunc('month', now())
+    ),
+    (SELECT count(*) FROM executions WHERE requested_at >= date_trunc('day', now())),
+    (SELECT count(*) FROM executions WHERE requested_at >= date_trunc('month', now())),
+    (SELECT count(*) FROM executions WHERE status IN ('PENDING', 'RUNNING'));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_admin_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_column text;
+  v_headers json;
+  v_ip text;
+BEGIN
+  -- Changes made by clients themselves or by the system are not audited
+  IF auth.uid() IS NULL OR NOT is_staff() THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+
+  FOREACH v_column IN ARRAY TG_ARGV LOOP
+    IF v_old ? v_column AND v_old -> v_column <> 'null'::jsonb THEN
+      v_old := jsonb_set(v_old, ARRAY[v_column],
+        to_jsonb('sha256:' || left(encode(extensions.digest((v_old ->> v_column), 'sha256'), 'hex'), 12)));
+    END IF;
+    IF v_new ? v_column AND v_new -> v_column <> 'null'::jsonb THEN
+      v_new := jsonb_set(v_new, ARRAY[v_column],
+        to_jsonb('sha256:' || left(encode(extensions.digest((v_new ->> v_column), 'sha256'), 'hex'), 12)));
+    END IF;
+  END LOOP;
+
+  -- Set by PostgREST for API requests; the first forwarded address is the client
+  v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  v_ip := trim(split_part(COALESCE(v_headers ->> 'x-forwarded-for', v_headers ->> 'x-real-ip', ''), ',', 1));
+
+  INSERT INTO audit_logs (user_id, actor_email, action, table_name, record_id, old_data, new_data, ip_address)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM profiles WHERE user_id = auth.uid()),
+    TG_OP,
+    TG_TABLE_NAME,
+    COALESCE(v_new ->> 'id', v_old ->> 'id'),
+    v_old,
+    v_new,
+    CASE WHEN v_ip ~ '^[0-9a-fA-F:.]+$' THEN v_ip::inet END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- A second profile would grant its role to the user, see current_staff_role
+ALTER TABLE public.profiles
+DROP CONSTRAINT IF EXISTS profiles_user_id_key;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_user_id_key UNIQUE (user_id);
+
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 OR is_current_user_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- accept_invitation creates the profile of the invited user
+    IF NEW.user_id IS DISTINCT FROM auth.uid()
+       OR NEW.role <> 'CLIENT'
+       OR NEW.skip_email_verification THEN
+      RAISE EXCEPTION 'Diese Felder können nur von Administratoren gesetzt werden' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.email IS DISTINCT FROM OLD.email
+     OR NEW.skip_email_verification IS DISTINCT FROM OLD.skip_email_verification
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Diese Felder können nur von Administratoren geändert werden' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_fields ON public.profiles;
+CREATE TRIGGER protect_profile_fields
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_fields();
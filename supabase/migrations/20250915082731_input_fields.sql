@@ -0,0 +1,28 @@
+/*
+  # Input Fields
+
+  1. Changes
+    - Add `input_schema` to webhooks: an ordered list of input fields that
+      replaces the single text or file input when set
+      - `name` (key sent to the webhook), `label`, `type`
+        (text, multiline, number, select, date, checkbox, file)
+      - optional `required`, `description`, `options` (select), `min` / `max` (number)
+    - `input_type` stays and is derived from the fields by the app: FILE as
+      soon as one of them is a file field, TEXT otherwise
+
+  2. Security
+    - No new policies, the column is covered by the existing webhook policies.
+      The values are validated against the fields again by the edge functions
+*/
+
+ALTER TABLE public.webhooks
+ADD COLUMN IF NOT EXISTS input_schema jsonb;
+
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_input_schema_check;
+
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_input_schema_check CHECK (input_schema IS NULL OR jsonb_typeof(input_schema) = 'array');
+
+COMMENT ON COLUMN public.webhooks.input_schema
+IS 'Input fields of the execution form, null for a single text or file input (see input_type)';
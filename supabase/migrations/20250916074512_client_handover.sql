@@ -0,0 +1,87 @@
+/*
+  # Client Handover
+
+  1. Changes
+    - `clients.user_id` no longer deletes the client with the user who created
+      it: the foreign key to profiles is now `ON DELETE SET NULL` and the
+      column nullable
+    - Before a profile is deleted, `hand_over_clients` keeps its client
+      manageable: if the user was its last owner, the longest-standing other
+      member becomes owner, and `clients.user_id` moves to an owner who stays.
+      Clients without other members keep no user.
+
+  2. Security
+    - `hand_over_clients` only runs from the trigger and the service role
+*/
+
+ALTER TABLE public.clients
+ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.clients
+DROP CONSTRAINT IF EXISTS clients_user_id_profiles_fkey;
+
+ALTER TABLE public.clients
+ADD CONSTRAINT clients_user_id_profiles_fkey
+FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.hand_over_clients(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_role text;
+BEGIN
+  SELECT client_id, role INTO v_client_id, v_role
+  FROM client_members
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_role = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM client_members
+    WHERE client_id = v_client_id AND role = 'owner' AND user_id <> p_user_id
+  ) THEN
+    UPDATE client_members
+    SET role = 'owner'
+    WHERE id = (
+      SELECT id FROM client_members
+      WHERE client_id = v_client_id AND user_id <> p_user_id
+      ORDER BY created_at
+      LIMIT 1
+    );
+  END IF;
+
+  -- Also covers a user who has already left the client they created
+  UPDATE clients c
+  SET user_id = (
+    SELECT m.user_id FROM client_members m
+    JOIN profiles p ON p.user_id = m.user_id
+    WHERE m.client_id = c.id AND m.role = 'owner' AND m.user_id <> p_user_id
+    ORDER BY m.created_at
+    LIMIT 1
+  )
+  WHERE c.user_id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hand_over_clients(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.hand_over_clients_of_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM hand_over_clients(OLD.user_id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hand_over_clients ON public.profiles;
+CREATE TRIGGER hand_over_clients
+  BEFORE DELETE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.hand_over_clients_of_profile();
@@ -0,0 +1,129 @@
+/*
+  # Sweep Stale Executions
+
+  1. Changes
+    - `fail_stale_executions` takes an optional client and only fails that
+      client's stale executions then
+    - `reserve_execution` sweeps the client's stale executions before the
+      balance check, so their reserved tokens come back even where pg_cron
+      does not run the cleanup
+    - The migration warns if pg_cron is missing: the sweep then only covers
+      clients that start new executions
+
+  2. Security
+    - `fail_stale_executions` stays executable by the service role only
+*/
+
+DROP FUNCTION IF EXISTS public.fail_stale_executions();
+
+CREATE OR REPLACE FUNCTION public.fail_stale_executions(p_client_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_execution_id IN
+    SELECT e.id
+    FROM executions e
+    JOIN webhooks w ON w.id = e.webhook_id
+    WHERE e.status IN ('PENDING', 'RUNNING')
+    AND (p_client_id IS NULL OR e.client_id = p_client_id)
+    AND (
+      (e.callback_expires_at IS NOT NULL AND e.callback_expires_at < now())
+      OR (
+        e.callback_expires_at IS NULL
+        AND e.requested_at < now()
+          - make_interval(secs => (w.timeout_ms * w.retry_max_attempts + w.retry_backoff_ms * power(2, w.retry_max_attempts)) / 1000.0)
+          - interval '5 minutes'
+      )
+    )
+  LOOP
+    PERFORM complete_execution(
+      v_execution_id,
+      'TIMEOUT',
+      NULL,
+      NULL,
+      NULL,
+      'Die Ausführung wurde nicht abgeschlossen und wurde abgebrochen'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stale_executions(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_stale_executions(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.reserve_execution(
+  p_webhook_id uuid,
+  p_client_id uuid,
+  p_payload text,
+  p_started_by uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_webhook webhooks%ROWTYPE;
+  v_user_id uuid;
+  v_balance integer;
+  v_execution_id uuid;
+BEGIN
+  -- Refund runs of the client whose worker died before spending its balance again
+  PERFORM fail_stale_executions(p_client_id);
+
+  SELECT * INTO v_webhook FROM webhooks WHERE id = p_webhook_id;
+  v_user_id := COALESCE(p_started_by, (SELECT user_id FROM clients WHERE id = p_client_id));
+
+  IF v_webhook.id IS NULL
+     OR NOT can_access_webhook(p_webhook_id, v_user_id)
+     OR NOT EXISTS (
+       SELECT 1 FROM client_members
+       WHERE client_id = p_client_id
+         AND user_id = v_user_id
+         AND role IN ('owner', 'member')
+     ) THEN
+    RAISE EXCEPTION 'Webhook nicht gefunden' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_webhook.is_active THEN
+    RAISE EXCEPTION 'Webhook ist nicht aktiv' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the client row so concurrent executions are serialized
+  SELECT tokens_balance INTO v_balance
+  FROM clients
+  WHERE id = p_client_id
+  FOR UPDATE;
+
+  IF v_balance < v_webhook.tokens_cost THEN
+    RAISE EXCEPTION 'Nicht genügend Tokens' USING ERRCODE = 'P0003';
+  END IF;
+
+  INSERT INTO executions (webhook_id, client_id, status, tokens_used, request_type, payload, started_by)
+  VALUES (p_webhook_id, p_client_id, 'PENDING', v_webhook.tokens_cost, v_webhook.input_type, p_payload, p_started_by)
+  RETURNING id INTO v_execution_id;
+
+  IF v_webhook.tokens_cost > 0 THEN
+    INSERT INTO token_transactions (client_id, kind, amount, execution_id, reason)
+    VALUES (p_client_id, 'DEBIT', -v_webhook.tokens_cost, v_execution_id, v_webhook.name);
+  END IF;
+
+  RETURN v_execution_id;
+END;
+$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        RAISE WARNING 'pg_cron is not installed: stale executions are only failed when their client starts a new execution. Schedule SELECT public.fail_stale_executions() to clean up all clients.';
+    END IF;
+END $$;
@@ -0,0 +1,34 @@
+/*
+  # Webhook Target
+
+  1. New Functions
+    - `get_webhook_target` returns URL and headers of a webhook to admins
+      and webhook editors, who edit them. Everyone else reads webhooks
+      through `public_webhooks`, which leaves both out.
+
+  2. Security
+    - Inserting and updating are unchanged, the edge functions read the
+      target with the service role
+*/
+
+CREATE OR REPLACE FUNCTION public.get_webhook_target(p_webhook_id uuid)
+RETURNS TABLE (url text, headers jsonb)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('webhooks.manage') THEN
+    RAISE EXCEPTION 'Keine Berechtigung, Webhooks zu bearbeiten' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT w.url::text, w.headers::jsonb
+  FROM webhooks w
+  WHERE w.id = p_webhook_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_webhook_target(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_webhook_target(uuid) TO authenticated;
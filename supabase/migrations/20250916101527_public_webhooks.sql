@@ -0,0 +1,123 @@
+/*
+  # Public Webhooks
+
+  1. New Views
+    - `public_webhooks` - every column of `webhooks` except `url` and
+      `headers`, limited to the webhooks the signed-in user may see: admins
+      and staff with `webhooks.view` see all, clients the webhooks of their
+      client and those assigned to them. Columns added to `webhooks` later
+      only show up once they are added to the view.
+
+  2. Changes
+    - `get_webhook_stats` and `get_webhook_latency` read the names through
+      the view
+
+  3. Security
+    - Signed-in users can no longer select from `webhooks` itself, except
+      `id` and `client_id`, which updates, deletes and the row level
+      security of other tables filter by. The target of a webhook is only
+      read by the edge functions with the service role and by
+      `get_webhook_target`.
+    - The view runs with the rights of its owner and repeats the select
+      policies of `webhooks` in its WHERE clause
+*/
+
+REVOKE SELECT ON public.webhooks FROM anon, authenticated;
+GRANT SELECT (id, client_id) ON public.webhooks TO authenticated;
+
+CREATE OR REPLACE VIEW public.public_webhooks
+WITH (security_barrier = true)
+AS
+SELECT
+  w.id,
+  w.client_id,
+  w.name,
+  w.description,
+  w.method,
+  w.input_type,
+  w.input_schema,
+  w.output_type,
+  w.is_active,
+  w.tokens_cost,
+  w.timeout_ms,
+  w.retry_max_attempts,
+  w.retry_backoff_ms,
+  w.retry_on_status,
+  w.execution_mode,
+  w.callback_timeout_ms,
+  w.created_at
+FROM public.webhooks w
+WHERE public.is_current_user_admin()
+  OR public.has_permission('webhooks.view')
+  OR public.client_member_role(w.client_id) IS NOT NULL
+  OR EXISTS (
+    SELECT 1 FROM public.webhook_assignments wa
+    WHERE wa.webhook_id = w.id
+      AND wa.user_id = auth.uid()
+      AND wa.is_active
+  );
+
+REVOKE ALL ON public.public_webhooks FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON public.public_webhooks TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_webhook_stats(p_client_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  webhook_id uuid,
+  webhook_name text,
+  client_id uuid,
+  total_executions bigint,
+  successful_executions bigint,
+  avg_duration_ms numeric,
+  last_execution_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.name,
+    w.client_id,
+    count(e.id),
+    count(e.id) FILTER (WHERE e.status = 'SUCCESS'),
+    round(avg(e.duration_ms) FILTER (WHERE e.status = 'SUCCESS')),
+    max(e.requested_at)
+  FROM public_webhooks w
+  LEFT JOIN executions e ON e.webhook_id = w.id
+  WHERE p_client_id IS NULL OR w.client_id = p_client_id
+  GROUP BY w.id, w.name, w.client_id
+  ORDER BY count(e.id) DESC, w.name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_webhook_latency(
+  p_days integer DEFAULT 30,
+  p_client_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  webhook_id uuid,
+  webhook_name text,
+  executions bigint,
+  p50_ms numeric,
+  p90_ms numeric,
+  p99_ms numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.name,
+    count(*),
+    round(percentile_cont(0.5) WITHIN GROUP (ORDER BY e.duration_ms)::numeric),
+    round(percentile_cont(0.9) WITHIN GROUP (ORDER BY e.duration_ms)::numeric),
+    round(percentile_cont(0.99) WITHIN GROUP (ORDER BY e.duration_ms)::numeric)
+  FROM executions e
+  JOIN public_webhooks w ON w.id = e.webhook_id
+  WHERE e.status = 'SUCCESS'
+    AND e.duration_ms IS NOT NULL
+    AND e.requested_at >= now() - make_interval(days => LEAST(GREATEST(p_days, 1), 366))
+    AND (p_client_id IS NULL OR e.client_id = p_client_id)
+  GROUP BY w.id, w.name
+  ORDER BY 5 DESC, w.name;
+$$;
@@ -0,0 +1,24 @@
+/*
+  # Limit Timeouts of Synchronous Webhooks
+
+  1. Changes
+    - Synchronous webhooks answer within the edge function request, which is
+      cut after 150 seconds. Their `timeout_ms` is limited to 120 seconds so
+      the run is recorded before the request ends; longer requests need
+      ASYNC or CALLBACK mode, which keep the 300 second limit
+    - Existing synchronous webhooks with a longer timeout are set to 120 seconds
+
+  2. Security
+    - No changes to RLS policies needed
+*/
+
+UPDATE public.webhooks
+SET timeout_ms = 120000
+WHERE execution_mode = 'SYNC'
+  AND timeout_ms > 120000;
+
+ALTER TABLE public.webhooks
+DROP CONSTRAINT IF EXISTS webhooks_sync_timeout_check;
+
+ALTER TABLE public.webhooks
+ADD CONSTRAINT webhooks_sync_timeout_check CHECK (execution_mode <> 'SYNC' OR timeout_ms <= 120000);
@@ -0,0 +1,39 @@
+-- A shared client survives the deletion of the user who created it.
+-- Run with `supabase test db`, everything is rolled back at the end.
+BEGIN;
+
+SELECT plan(2);
+
+INSERT INTO auth.users (id, email)
+VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'first@handover.invalid'),
+  ('00000000-0000-0000-0000-00000000a002', 'second@handover.invalid');
+
+INSERT INTO public.profiles (user_id, email, role)
+VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'first@handover.invalid', 'CLIENT'),
+  ('00000000-0000-0000-0000-00000000a002', 'second@handover.invalid', 'CLIENT');
+
+INSERT INTO public.clients (id, user_id, name)
+VALUES ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000a001', 'Übergabe-Prüfung');
+
+INSERT INTO public.client_members (client_id, user_id, role)
+VALUES ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000a002', 'member');
+
+DELETE FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-00000000a001';
+DELETE FROM auth.users WHERE id = '00000000-0000-0000-0000-00000000a001';
+
+SELECT is(
+  (SELECT user_id FROM public.clients WHERE id = '00000000-0000-0000-0000-00000000c001'),
+  '00000000-0000-0000-0000-00000000a002'::uuid,
+  'the client passes to its remaining member'
+);
+
+SELECT is(
+  (SELECT role FROM public.client_members WHERE user_id = '00000000-0000-0000-0000-00000000a002'),
+  'owner',
+  'the remaining member becomes owner'
+);
+
+SELECT * FROM finish();
+ROLLBACK;